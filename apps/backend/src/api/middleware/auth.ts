@@ -0,0 +1,64 @@
+import type { Request, RequestHandler } from 'express';
+import type { ITokenVerifier } from '../../domain/interfaces/index.js';
+import type { AuthenticatedUser } from '../../shared/types/index.js';
+import { AuthenticationError } from '../../shared/errors/index.js';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
+
+/**
+ * Identity used for every request when authentication is disabled (no JWT secret configured)
+ */
+export const ANONYMOUS_USER: AuthenticatedUser = { id: 'anonymous' };
+
+/**
+ * Extract a bearer token from an Authorization header value
+ */
+export function extractBearerToken(header: string | undefined): string | null {
+  if (!header) return null;
+  const [scheme, token] = header.split(' ');
+  return scheme?.toLowerCase() === 'bearer' && token ? token : null;
+}
+
+/**
+ * Middleware factory for access token authentication
+ * Verifies the bearer token and attaches the verified identity to req.user.
+ * With no verifier (local development), every request runs as ANONYMOUS_USER.
+ */
+export function createAuthMiddleware(verifier: ITokenVerifier | null): RequestHandler {
+  return async (req, _res, next) => {
+    if (!verifier) {
+      req.user = ANONYMOUS_USER;
+      return next();
+    }
+
+    try {
+      const token = extractBearerToken(req.headers.authorization);
+      if (!token) {
+        throw new AuthenticationError('Missing bearer token');
+      }
+
+      req.user = await verifier.verify(token);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Get the authenticated user of a request
+ * Only valid on routes behind the auth middleware.
+ */
+export function getRequestUser(req: Request): AuthenticatedUser {
+  if (!req.user) {
+    throw new AuthenticationError();
+  }
+  return req.user;
+}
@@ -1,2 +1,8 @@
 export { errorHandler } from './errorHandler.js';
 export { validateBody, validateQuery, validateParams } from './validation.js';
+export {
+  createAuthMiddleware,
+  getRequestUser,
+  extractBearerToken,
+  ANONYMOUS_USER,
+} from './auth.js';
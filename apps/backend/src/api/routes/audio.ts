@@ -0,0 +1,231 @@
+import { randomBytes } from 'node:crypto';
+import { once } from 'node:events';
+import type { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { Request, Response } from 'express';
+import type { AudioByteRange, IAudioStore, StoredAudio } from '../../domain/interfaces/index.js';
+import { NotFoundError } from '../../shared/errors/index.js';
+import { matchesIfNoneMatch, satisfiesIfRange } from '../../shared/utils/httpConditional.js';
+import { parseRangeHeader } from '../../shared/utils/httpRange.js';
+import { logger } from '../../shared/utils/logger.js';
+
+interface SendAudioOptions {
+  /**
+   * Strong entity tag of this exact audio (see audioETag)
+   */
+  etag: string;
+  cacheControl: string;
+
+  /**
+   * Identifies the audio in error logs
+   */
+  logKey: string;
+}
+
+/**
+ * Strong entity tag from the size and modification time of stored audio
+ * @param prefix Distinguishes audio that can be served under the same URL (e.g. voices)
+ */
+export function audioETag(audio: StoredAudio, prefix?: string): string {
+  const parts = [prefix, audio.size.toString(16), audio.modifiedAt.getTime().toString(16)];
+  return `"${parts.filter(Boolean).join('-')}"`;
+}
+
+/**
+ * Send audio from a stream source, honoring conditional and Range requests
+ * Sends 304 when If-None-Match matches, 206 for satisfiable ranges (multipart/byteranges
+ * for several), 416 for ranges past the end, 200 otherwise. Nothing is buffered in memory.
+ * @throws NotFoundError when the audio is gone by the time it is opened
+ */
+export async function sendAudio(
+  req: Request,
+  res: Response,
+  audio: StoredAudio,
+  createReadStream: (range?: AudioByteRange) => Readable,
+  options: SendAudioOptions
+): Promise<void> {
+  if (matchesIfNoneMatch(req.get('If-None-Match'), options.etag)) {
+    setAudioHeaders(res, audio, options);
+    res.status(304).end();
+    return;
+  }
+
+  const ranges = satisfiesIfRange(req.get('If-Range'), options.etag, audio.modifiedAt)
+    ? parseRangeHeader(req.headers.range, audio.size)
+    : null;
+
+  if (ranges === 'unsatisfiable') {
+    setAudioHeaders(res, audio, options);
+    res.setHeader('Content-Range', `bytes */${audio.size}`);
+    res.status(416).end();
+    return;
+  }
+
+  // Open before any header is set, so audio removed since it was stat'ed (evicted from
+  // a cache, say) fails cleanly instead of being sent as a truncated body
+  const streams = req.method === 'HEAD' ? [] : await openStreams(createReadStream, ranges ?? [undefined]);
+  setAudioHeaders(res, audio, options);
+
+  if (ranges && ranges.length > 1) {
+    await sendMultipart(req, res, audio, ranges, streams, options.logKey);
+    return;
+  }
+
+  const range = ranges?.[0];
+  res.setHeader('Content-Type', audio.contentType);
+  if (range) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${audio.size}`);
+    res.setHeader('Content-Length', range.end - range.start + 1);
+  } else {
+    res.setHeader('Content-Length', audio.size);
+  }
+
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+
+  try {
+    // pipeline closes the file when the client aborts, which players do to seek
+    await pipeline(streams[0], res);
+  } catch (error) {
+    // Headers are already out, so the response can only be cut short (pipeline did that)
+    if ((error as NodeJS.ErrnoException).code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+      logger.error('Failed to stream audio', {
+        key: options.logKey,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * Validator and caching headers, sent with every status
+ */
+function setAudioHeaders(res: Response, audio: StoredAudio, options: SendAudioOptions): void {
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('ETag', options.etag);
+  res.setHeader('Last-Modified', audio.modifiedAt.toUTCString());
+  res.setHeader('Cache-Control', options.cacheControl);
+}
+
+/**
+ * Open one stream per range, waiting until each has data
+ * An open file stays readable after it is deleted, so the whole response can be sent.
+ * @throws NotFoundError when the audio no longer exists
+ */
+async function openStreams(
+  createReadStream: (range?: AudioByteRange) => Readable,
+  ranges: Array<AudioByteRange | undefined>
+): Promise<Readable[]> {
+  const streams: Readable[] = [];
+  try {
+    for (const range of ranges) {
+      const stream = createReadStream(range);
+      streams.push(stream);
+      await once(stream, 'readable');
+    }
+    return streams;
+  } catch (error) {
+    streams.forEach((stream) => stream.destroy());
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new NotFoundError('Audio');
+    }
+    throw error;
+  }
+}
+
+/**
+ * 206 multipart/byteranges response, one part per range, streamed one after another
+ */
+async function sendMultipart(
+  req: Request,
+  res: Response,
+  audio: StoredAudio,
+  ranges: AudioByteRange[],
+  streams: Readable[],
+  logKey: string
+): Promise<void> {
+  const boundary = randomBytes(12).toString('hex');
+  const headers = ranges.map((range, index) =>
+    `${index === 0 ? '' : '\r\n'}--${boundary}\r\n` +
+    `Content-Type: ${audio.contentType}\r\n` +
+    `Content-Range: bytes ${range.start}-${range.end}/${audio.size}\r\n\r\n`
+  );
+  const trailer = `\r\n--${boundary}--\r\n`;
+
+  const length = ranges.reduce(
+    (total, range, index) => total + Buffer.byteLength(headers[index]) + range.end - range.start + 1,
+    Buffer.byteLength(trailer)
+  );
+
+  res.status(206);
+  res.setHeader('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+  res.setHeader('Content-Length', length);
+
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+
+  try {
+    for (const [index, stream] of streams.entries()) {
+      res.write(headers[index]);
+      for await (const chunk of stream) {
+        if (!res.write(chunk) && !(await waitForDrain(res))) {
+          return; // Client went away; the finally block closes the files
+        }
+      }
+    }
+    res.end(trailer);
+  } catch (error) {
+    logger.error('Failed to stream audio', {
+      key: logKey,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.destroy(error instanceof Error ? error : undefined);
+  } finally {
+    streams.forEach((stream) => stream.destroy());
+  }
+}
+
+/**
+ * Wait until the response can take more data
+ * @returns false if the connection closed instead
+ */
+async function waitForDrain(res: Response): Promise<boolean> {
+  const controller = new AbortController();
+  try {
+    await Promise.race([
+      once(res, 'drain', { signal: controller.signal }),
+      once(res, 'close', { signal: controller.signal }),
+    ]);
+  } finally {
+    controller.abort();
+  }
+  return !res.destroyed;
+}
+
+/**
+ * Stream a stored recording, honoring conditional and Range requests
+ * @throws NotFoundError when nothing is stored under the key
+ */
+export async function sendStoredAudio(
+  req: Request,
+  res: Response,
+  audioStore: IAudioStore,
+  key: string,
+  resource: { name: string; id: string }
+): Promise<void> {
+  const audio = await audioStore.stat(key);
+  if (!audio) {
+    throw new NotFoundError(resource.name, resource.id);
+  }
+
+  await sendAudio(req, res, audio, (range) => audioStore.createReadStream(key, range), {
+    etag: audioETag(audio),
+    cacheControl: 'private, max-age=3600',
+    logKey: key,
+  });
+}
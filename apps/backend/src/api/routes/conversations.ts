@@ -0,0 +1,144 @@
+import { Router, type RequestHandler } from 'express';
+import { z } from 'zod';
+import type { ChatService } from '../../services/index.js';
+import type { IAudioStore } from '../../domain/interfaces/index.js';
+import { validateQuery, validateParams, getRequestUser } from '../middleware/index.js';
+import { NotFoundError } from '../../shared/errors/index.js';
+import { sendStoredAudio } from './audio.js';
+
+// Request schemas
+const listConversationsSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+const conversationParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+const messageParamsSchema = z.object({
+  id: z.string().min(1),
+  messageId: z.string().min(1),
+});
+
+/**
+ * Create conversations router (chat history) with injected dependencies
+ */
+export function createConversationsRouter(
+  chatService: ChatService,
+  authenticate: RequestHandler,
+  audioStore?: IAudioStore
+): Router {
+  const router = Router();
+
+  // All history routes are scoped to the authenticated user
+  router.use(authenticate);
+
+  /**
+   * GET /api/conversations
+   * Paginated list of a user's past conversations
+   */
+  router.get(
+    '/',
+    validateQuery(listConversationsSchema),
+    async (req, res, next) => {
+      try {
+        const { page, pageSize } = req.query as unknown as z.infer<typeof listConversationsSchema>;
+        const userId = getRequestUser(req).id;
+        const result = await chatService.listConversations(userId, { page, pageSize });
+
+        res.json({
+          success: true,
+          data: result,
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/conversations/:id
+   * Full conversation with all messages and the summary
+   */
+  router.get(
+    '/:id',
+    validateParams(conversationParamsSchema),
+    async (req, res, next) => {
+      try {
+        const conversation = await chatService.getConversation(req.params.id);
+
+        // Other users' conversations are reported as missing rather than forbidden
+        if (!conversation || conversation.userId !== getRequestUser(req).id) {
+          throw new NotFoundError('Conversation', req.params.id);
+        }
+
+        res.json({
+          success: true,
+          data: conversation,
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/conversations/:id
+   * Delete a conversation with its messages and summary
+   */
+  router.delete(
+    '/:id',
+    validateParams(conversationParamsSchema),
+    async (req, res, next) => {
+      try {
+        const conversation = await chatService.getConversation(req.params.id);
+        if (!conversation || conversation.userId !== getRequestUser(req).id) {
+          throw new NotFoundError('Conversation', req.params.id);
+        }
+
+        await chatService.deleteConversation(req.params.id);
+
+        res.json({
+          success: true,
+          data: { id: req.params.id, deleted: true },
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  if (audioStore) {
+    /**
+     * GET /api/conversations/:id/messages/:messageId/audio
+     * Recording of one user turn as WAV (supports Range requests for seeking)
+     */
+    router.get(
+      '/:id/messages/:messageId/audio',
+      validateParams(messageParamsSchema),
+      async (req, res, next) => {
+        try {
+          const conversation = await chatService.getConversation(req.params.id);
+          if (!conversation || conversation.userId !== getRequestUser(req).id) {
+            throw new NotFoundError('Conversation', req.params.id);
+          }
+
+          const message = conversation.messages.find((m) => m.id === req.params.messageId);
+          if (!message?.audioUrl) {
+            throw new NotFoundError('Message audio', req.params.messageId);
+          }
+
+          await sendStoredAudio(req, res, audioStore, `conversations/${conversation.id}/${message.id}`, {
+            name: 'Message audio',
+            id: message.id,
+          });
+        } catch (error) {
+          next(error);
+        }
+      }
+    );
+  }
+
+  return router;
+}
@@ -1,13 +1,33 @@
-import { Router } from 'express';
-import type { AnalysisService, NewsService } from '../../services/index.js';
-import type { AzureTTSService } from '../../infrastructure/speech/index.js';
+import { Router, type RequestHandler } from 'express';
+import type {
+  AnalysisService,
+  NewsService,
+  ChatService,
+  SessionHistoryService,
+  EntitlementService,
+  ReadingComparisonService,
+  ShadowingService,
+  VoiceService,
+} from '../../services/index.js';
+import type { IArticleTTSService, IAudioStore } from '../../domain/interfaces/index.js';
 import { createSessionsRouter } from './sessions.js';
 import { createNewsRouter } from './news.js';
+import { createConversationsRouter } from './conversations.js';
+import { createVoicesRouter } from './voices.js';
+import { createAuthMiddleware } from '../middleware/index.js';
 
 interface RouterDependencies {
   analysisService: AnalysisService;
+  authenticate?: RequestHandler;
   newsService?: NewsService;
-  ttsService?: AzureTTSService;
+  ttsService?: IArticleTTSService;
+  chatService?: ChatService;
+  sessionHistoryService?: SessionHistoryService;
+  entitlementService?: EntitlementService;
+  audioStore?: IAudioStore;
+  readingComparisonService?: ReadingComparisonService;
+  shadowingService?: ShadowingService;
+  voiceService?: VoiceService;
 }
 
 /**
@@ -26,12 +46,38 @@ export function createApiRouter(
       ? { analysisService: depsOrService as AnalysisService }
       : (depsOrService as RouterDependencies);
 
+  // Without an explicit auth middleware every request runs as the anonymous user
+  const authenticate = deps.authenticate ?? createAuthMiddleware(null);
+
   // Mount session routes
-  router.use('/sessions', createSessionsRouter(deps.analysisService));
+  router.use('/sessions', createSessionsRouter(
+    deps.analysisService,
+    authenticate,
+    deps.sessionHistoryService,
+    deps.audioStore,
+    deps.readingComparisonService
+  ));
 
   // Mount news routes if services are available
   if (deps.newsService && deps.ttsService) {
-    router.use('/news', createNewsRouter(deps.newsService, deps.ttsService));
+    router.use('/news', createNewsRouter(
+      deps.newsService,
+      deps.ttsService,
+      authenticate,
+      deps.entitlementService,
+      deps.shadowingService,
+      deps.voiceService
+    ));
+  }
+
+  // Mount voice catalog routes if voices can be chosen
+  if (deps.voiceService) {
+    router.use('/voices', createVoicesRouter(deps.voiceService, authenticate));
+  }
+
+  // Mount conversation history routes if chat is available
+  if (deps.chatService) {
+    router.use('/conversations', createConversationsRouter(deps.chatService, authenticate, deps.audioStore));
   }
 
   // Root endpoint
@@ -42,14 +88,43 @@ export function createApiRouter(
       'GET /api/sessions/health',
     ];
 
+    if (deps.sessionHistoryService) {
+      endpoints.push('GET /api/sessions', 'GET /api/sessions/:id');
+      if (deps.audioStore) {
+        endpoints.push('GET /api/sessions/:id/audio');
+      }
+      if (deps.readingComparisonService) {
+        endpoints.push('GET /api/sessions/:id/comparison');
+      }
+    }
+
     if (deps.newsService) {
       endpoints.push(
         'GET /api/news',
         'GET /api/news/:id',
         'GET /api/news/:id/audio',
+        'GET /api/news/:id/audio/variants',
         'GET /api/news/:id/boundaries',
         'POST /api/news/refresh'
       );
+      if (deps.shadowingService) {
+        endpoints.push('GET /api/news/:id/shadowing', 'GET /api/news/:id/shadowing/:index/audio');
+      }
+    }
+
+    if (deps.voiceService) {
+      endpoints.push('GET /api/voices', 'PUT /api/voices/preference', 'GET /api/voices/:id/sample');
+    }
+
+    if (deps.chatService) {
+      endpoints.push(
+        'GET /api/conversations',
+        'GET /api/conversations/:id',
+        'DELETE /api/conversations/:id'
+      );
+      if (deps.audioStore) {
+        endpoints.push('GET /api/conversations/:id/messages/:messageId/audio');
+      }
     }
 
     res.json({
@@ -1,17 +1,90 @@
-import { Router } from 'express';
-import type { NewsService } from '../../services/index.js';
-import type { AzureTTSService } from '../../infrastructure/speech/index.js';
+import { Router, type Request, type RequestHandler } from 'express';
+import { z } from 'zod';
+import { ARTICLE_PLAYBACK_RATES } from '../../services/index.js';
+import type { NewsService, EntitlementService, ShadowingService, VoiceService } from '../../services/index.js';
+import type { ArticleAudioOptions, IArticleTTSService } from '../../domain/interfaces/index.js';
+import { getRequestUser, validateParams, validateQuery } from '../middleware/index.js';
 import { logger } from '../../shared/utils/logger.js';
+import { audioETag, sendAudio } from './audio.js';
+
+const articleParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+const sentenceParamsSchema = articleParamsSchema.extend({
+  index: z.coerce.number().int().min(0),
+});
+
+const playbackQuerySchema = z.object({
+  rate: z.coerce
+    .number()
+    .refine((rate) => (ARTICLE_PLAYBACK_RATES as readonly number[]).includes(rate), {
+      message: `Rate must be one of ${ARTICLE_PLAYBACK_RATES.join(', ')}`,
+    })
+    .default(1),
+  voice: z.string().min(1).optional(),
+});
+
+type PlaybackQuery = z.infer<typeof playbackQuerySchema>;
 
 /**
  * Create news router with injected dependencies
  */
 export function createNewsRouter(
   newsService: NewsService,
-  ttsService: AzureTTSService
+  ttsService: IArticleTTSService,
+  authenticate: RequestHandler,
+  entitlementService?: EntitlementService,
+  shadowingService?: ShadowingService,
+  voiceService?: VoiceService
 ): Router {
   const router = Router();
 
+  /**
+   * Voice for an article request: ?voice= if given, otherwise the user's preference
+   * Throws ValidationError for voices that are not in the catalog.
+   */
+  async function resolveVoice(req: Request, requested?: string): Promise<string | undefined> {
+    if (!voiceService) {
+      return undefined;
+    }
+
+    const result = await voiceService.resolveVoice(getRequestUser(req).id, requested);
+    if (!result.success) {
+      throw result.error;
+    }
+    return result.data;
+  }
+
+  /**
+   * Synthesize and cache article audio, metered as one TTS generation
+   * Throws QuotaExceededError/AccessExpiredError before calling Azure.
+   * Each playback rate and voice is a separate synthesis (and generation).
+   */
+  async function generateArticleAudio(
+    req: Request,
+    articleId: string,
+    content: string,
+    options: ArticleAudioOptions
+  ) {
+    const userId = getRequestUser(req).id;
+
+    if (entitlementService) {
+      const access = await entitlementService.authorize(userId, 'tts_generations', 1);
+      if (!access.success) {
+        throw access.error;
+      }
+    }
+
+    const result = await ttsService.synthesizeAndCache(content, options);
+    if ((options.rate ?? 1) === 1) {
+      await newsService.markAudioGenerated(articleId);
+    }
+    await entitlementService?.recordUsage(userId, 'tts_generations', 1);
+
+    return result;
+  }
+
   /**
    * GET /api/news
    * Returns list of today's news summaries
@@ -81,15 +154,61 @@ export function createNewsRouter(
         return;
       }
 
-      // Check for cached word boundaries
-      const wordBoundaries = await ttsService.getCachedWordBoundaries(id);
+      // Check for cached word boundaries (default voice at normal speed; /boundaries has the user's)
+      const cached = await ttsService.getCached(article.fullContent);
 
       res.json({
         success: true,
         data: {
           ...article,
           audioUrl: `/api/news/${id}/audio`,
-          wordBoundaries: wordBoundaries || [],
+          wordBoundaries: cached?.wordBoundaries ?? [],
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/news/:id/audio/variants?voice=en-GB-SoniaNeural
+   * Lists the playback rates an article can be played at, and which are already generated
+   */
+  router.get('/:id/audio/variants', authenticate, validateQuery(playbackQuerySchema), async (req, res, next) => {
+    try {
+      const { id } = req.params;
+      const { voice } = req.query as unknown as PlaybackQuery;
+      const article = await newsService.getArticleById(id);
+
+      if (!article) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Article not found',
+          },
+        });
+        return;
+      }
+
+      const voiceId = await resolveVoice(req, voice);
+      const voiceQuery = voice ? `&voice=${encodeURIComponent(voice)}` : '';
+
+      const variants = await Promise.all(
+        ARTICLE_PLAYBACK_RATES.map(async (rate) => ({
+          rate,
+          generated: await ttsService.isCached(article.fullContent, { rate, voiceId }),
+          audioUrl: `/api/news/${id}/audio?rate=${rate}${voiceQuery}`,
+          boundariesUrl: `/api/news/${id}/boundaries?rate=${rate}${voiceQuery}`,
+        }))
+      );
+
+      res.json({
+        success: true,
+        data: {
+          articleId: id,
+          voiceId,
+          variants,
         },
       });
     } catch (error) {
@@ -98,12 +217,14 @@ export function createNewsRouter(
   });
 
   /**
-   * GET /api/news/:id/audio
-   * Returns TTS audio stream for the article
+   * GET /api/news/:id/audio?rate=0.75&voice=en-GB-SoniaNeural
+   * Returns TTS audio stream for the article, at normal speed in the user's voice unless given
+   * Streamed from the TTS cache with Range (including multi-range) and ETag support.
    */
-  router.get('/:id/audio', async (req, res, next) => {
+  router.get('/:id/audio', authenticate, validateQuery(playbackQuerySchema), async (req, res, next) => {
     try {
       const { id } = req.params;
+      const { rate, voice } = req.query as unknown as PlaybackQuery;
       const article = await newsService.getArticleById(id);
 
       if (!article) {
@@ -118,25 +239,32 @@ export function createNewsRouter(
       }
 
       // Try to get cached audio first
-      let audioBuffer = await ttsService.getCachedAudio(id);
+      const options: ArticleAudioOptions = { rate, voiceId: await resolveVoice(req, voice) };
+      let audio = await ttsService.statCached(article.fullContent, options);
 
-      if (!audioBuffer) {
+      if (!audio) {
         // Generate audio
-        logger.info('Generating TTS audio for article', { articleId: id });
-        const result = await ttsService.synthesizeAndCache(article.fullContent, id);
-        audioBuffer = result.audioBuffer;
+        logger.info('Generating TTS audio for article', { articleId: id, ...options });
+        const result = await generateArticleAudio(req, id, article.fullContent, options);
+        audio = await ttsService.statCached(article.fullContent, options);
 
-        // Mark article as having audio
-        await newsService.markAudioGenerated(id);
+        if (!audio) {
+          // The cache could not store it, so there is no file to stream from
+          res.setHeader('Content-Type', 'audio/mpeg');
+          res.setHeader('Content-Length', result.audioBuffer.length);
+          res.setHeader('Cache-Control', 'no-store');
+          res.send(result.audioBuffer);
+          return;
+        }
       }
 
-      // Set appropriate headers for audio streaming
-      res.setHeader('Content-Type', 'audio/mpeg');
-      res.setHeader('Content-Length', audioBuffer.length);
-      res.setHeader('Accept-Ranges', 'bytes');
-      res.setHeader('Cache-Control', 'public, max-age=86400'); // Cache for 24 hours
-
-      res.send(audioBuffer);
+      const { key } = audio;
+      await sendAudio(req, res, audio, (range) => ttsService.createAudioStream(key, range), {
+        // The cache key covers the voice, which can differ per user under the same URL
+        etag: audioETag(audio, key.slice(0, 16)),
+        cacheControl: 'private, max-age=86400',
+        logKey: key,
+      });
     } catch (error) {
       logger.error('Failed to generate/serve audio', {
         articleId: req.params.id,
@@ -147,12 +275,13 @@ export function createNewsRouter(
   });
 
   /**
-   * GET /api/news/:id/boundaries
-   * Returns word boundaries for audio synchronization
+   * GET /api/news/:id/boundaries?rate=0.75&voice=en-GB-SoniaNeural
+   * Returns word boundaries for audio synchronization, timed to the audio at the same rate and voice
    */
-  router.get('/:id/boundaries', async (req, res, next) => {
+  router.get('/:id/boundaries', authenticate, validateQuery(playbackQuerySchema), async (req, res, next) => {
     try {
       const { id } = req.params;
+      const { rate, voice } = req.query as unknown as PlaybackQuery;
       const article = await newsService.getArticleById(id);
 
       if (!article) {
@@ -167,20 +296,22 @@ export function createNewsRouter(
       }
 
       // Get or generate word boundaries
-      let boundaries = await ttsService.getCachedWordBoundaries(id);
+      const options: ArticleAudioOptions = { rate, voiceId: await resolveVoice(req, voice) };
+      let boundaries = (await ttsService.getCached(article.fullContent, options))?.wordBoundaries;
 
       if (!boundaries) {
         // Need to generate audio to get boundaries
-        logger.info('Generating TTS to get word boundaries', { articleId: id });
-        const result = await ttsService.synthesizeAndCache(article.fullContent, id);
+        logger.info('Generating TTS to get word boundaries', { articleId: id, ...options });
+        const result = await generateArticleAudio(req, id, article.fullContent, options);
         boundaries = result.wordBoundaries;
-        await newsService.markAudioGenerated(id);
       }
 
       res.json({
         success: true,
         data: {
           articleId: id,
+          rate,
+          voiceId: options.voiceId,
           wordBoundaries: boundaries,
           totalWords: boundaries.length,
         },
@@ -190,5 +321,59 @@ export function createNewsRouter(
     }
   });
 
+  if (shadowingService) {
+    /**
+     * GET /api/news/:id/shadowing
+     * Returns the article split into sentences, each with its model audio URL and word boundaries
+     */
+    router.get('/:id/shadowing', authenticate, validateParams(articleParamsSchema), async (req, res, next) => {
+      try {
+        const result = await shadowingService.getScript(req.params.id, getRequestUser(req).id);
+        if (!result.success) {
+          throw result.error;
+        }
+
+        res.json({
+          success: true,
+          data: result.data,
+        });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    /**
+     * GET /api/news/:id/shadowing/:index/audio
+     * Streams the TTS audio of one sentence of the shadowing script (supports Range)
+     */
+    router.get(
+      '/:id/shadowing/:index/audio',
+      authenticate,
+      validateParams(sentenceParamsSchema),
+      async (req, res, next) => {
+        try {
+          const result = await shadowingService.getSentenceAudio(
+            req.params.id,
+            Number(req.params.index),
+            getRequestUser(req).id
+          );
+          if (!result.success) {
+            throw result.error;
+          }
+
+          const audio = result.data;
+          await sendAudio(req, res, audio, (range) => ttsService.createAudioStream(audio.key, range), {
+            // Sentences are read in the user's preferred voice, which the cache key covers
+            etag: audioETag(audio, audio.key.slice(0, 16)),
+            cacheControl: 'private, max-age=86400',
+            logKey: audio.key,
+          });
+        } catch (error) {
+          next(error);
+        }
+      }
+    );
+  }
+
   return router;
 }
@@ -1,8 +1,17 @@
-import { Router } from 'express';
+import { Router, type RequestHandler } from 'express';
 import { z } from 'zod';
-import type { AnalysisService } from '../../services/index.js';
-import { validateBody } from '../middleware/index.js';
+import type { AnalysisService, ReadingComparisonService, SessionHistoryService } from '../../services/index.js';
+import type { IAudioStore } from '../../domain/interfaces/index.js';
+import { validateBody, validateQuery, validateParams, getRequestUser } from '../middleware/index.js';
 import type { SessionMode } from '../../shared/types/index.js';
+import {
+  NotFoundError,
+  QuotaExceededError,
+  AccessExpiredError,
+  AudioProcessingError,
+} from '../../shared/errors/index.js';
+import { logger } from '../../shared/utils/logger.js';
+import { sendStoredAudio } from './audio.js';
 
 // Request schemas
 const analyzeSessionSchema = z.object({
@@ -22,10 +31,26 @@ const analyzeTranscriptSchema = z.object({
   profession: z.string().optional(),
 });
 
+const listSessionsSchema = z.object({
+  mode: z.enum(['free_talk', 'professional', 'casual', 'read_aloud', 'read_practice', 'shadowing']).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+const sessionParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
 /**
  * Create sessions router with injected dependencies
  */
-export function createSessionsRouter(analysisService: AnalysisService): Router {
+export function createSessionsRouter(
+  analysisService: AnalysisService,
+  authenticate: RequestHandler,
+  sessionHistoryService?: SessionHistoryService,
+  audioStore?: IAudioStore,
+  readingComparisonService?: ReadingComparisonService
+): Router {
   const router = Router();
 
   /**
@@ -34,6 +59,7 @@ export function createSessionsRouter(analysisService: AnalysisService): Router {
    */
   router.post(
     '/analyze',
+    authenticate,
     validateBody(analyzeSessionSchema),
     async (req, res, next) => {
       try {
@@ -42,6 +68,7 @@ export function createSessionsRouter(analysisService: AnalysisService): Router {
         const mode = req.body.mode as SessionMode;
 
         const result = await analysisService.analyzeSession({
+          userId: getRequestUser(req).id,
           audio,
           mode,
           promptText: req.body.promptText,
@@ -51,6 +78,15 @@ export function createSessionsRouter(analysisService: AnalysisService): Router {
         });
 
         if (!result.success) {
+          // Entitlement and unsupported-audio failures keep their own status and code
+          if (
+            result.error instanceof QuotaExceededError ||
+            result.error instanceof AccessExpiredError ||
+            result.error instanceof AudioProcessingError
+          ) {
+            throw result.error;
+          }
+
           res.status(422).json({
             success: false,
             error: {
@@ -61,6 +97,22 @@ export function createSessionsRouter(analysisService: AnalysisService): Router {
           return;
         }
 
+        // Store the attempt - a storage failure should not discard the analysis
+        if (sessionHistoryService) {
+          try {
+            await sessionHistoryService.recordAnalysis(result.data, {
+              userId: getRequestUser(req).id,
+              promptText: req.body.promptText,
+              referenceText: req.body.referenceText,
+            });
+          } catch (error) {
+            logger.error('Failed to record session', {
+              sessionId: result.data.sessionId,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+
         res.json({
           success: true,
           data: result.data,
@@ -78,6 +130,7 @@ export function createSessionsRouter(analysisService: AnalysisService): Router {
    */
   router.post(
     '/analyze-transcript',
+    authenticate,
     validateBody(analyzeTranscriptSchema),
     async (req, res, next) => {
       try {
@@ -88,10 +141,16 @@ export function createSessionsRouter(analysisService: AnalysisService): Router {
             promptText: req.body.promptText,
             nativeLanguage: req.body.nativeLanguage,
             profession: req.body.profession,
-          }
+          },
+          getRequestUser(req).id
         );
 
         if (!result.success) {
+          // Entitlement failures keep their own status and code
+          if (result.error instanceof QuotaExceededError || result.error instanceof AccessExpiredError) {
+            throw result.error;
+          }
+
           res.status(422).json({
             success: false,
             error: {
@@ -127,6 +186,8 @@ export function createSessionsRouter(analysisService: AnalysisService): Router {
           services: {
             speech: health.speech ? 'healthy' : 'unhealthy',
             communication: health.communication ? 'healthy' : 'unhealthy',
+            // Without ffmpeg only WAV uploads can be analyzed
+            audioDecoder: health.audioDecoder ? 'healthy' : 'degraded',
           },
         },
       });
@@ -135,5 +196,113 @@ export function createSessionsRouter(analysisService: AnalysisService): Router {
     }
   });
 
+  if (sessionHistoryService) {
+    /**
+     * GET /api/sessions
+     * Paginated attempt history for a user
+     */
+    router.get(
+      '/',
+      authenticate,
+      validateQuery(listSessionsSchema),
+      async (req, res, next) => {
+        try {
+          const { mode, page, pageSize } = req.query as unknown as z.infer<typeof listSessionsSchema>;
+          const userId = getRequestUser(req).id;
+          const result = await sessionHistoryService.listSessions(userId, { page, pageSize }, mode);
+
+          res.json({
+            success: true,
+            data: result,
+          });
+        } catch (error) {
+          next(error);
+        }
+      }
+    );
+
+    /**
+     * GET /api/sessions/:id
+     * Full stored session with transcript, words and feedback
+     */
+    router.get(
+      '/:id',
+      authenticate,
+      validateParams(sessionParamsSchema),
+      async (req, res, next) => {
+        try {
+          const session = await sessionHistoryService.getSession(req.params.id);
+
+          // Other users' sessions are reported as missing rather than forbidden
+          if (!session || session.userId !== getRequestUser(req).id) {
+            throw new NotFoundError('Session', req.params.id);
+          }
+
+          res.json({
+            success: true,
+            data: session,
+          });
+        } catch (error) {
+          next(error);
+        }
+      }
+    );
+
+    if (audioStore) {
+      /**
+       * GET /api/sessions/:id/audio
+       * The session's recording as WAV (supports Range requests for seeking)
+       */
+      router.get(
+        '/:id/audio',
+        authenticate,
+        validateParams(sessionParamsSchema),
+        async (req, res, next) => {
+          try {
+            const session = await sessionHistoryService.getSession(req.params.id);
+            if (!session || session.userId !== getRequestUser(req).id || !session.audioUrl) {
+              throw new NotFoundError('Session audio', req.params.id);
+            }
+
+            await sendStoredAudio(req, res, audioStore, `sessions/${session.id}`, {
+              name: 'Session audio',
+              id: session.id,
+            });
+          } catch (error) {
+            next(error);
+          }
+        }
+      );
+    }
+
+    if (readingComparisonService) {
+      /**
+       * GET /api/sessions/:id/comparison
+       * Word and sentence time ranges of a Listen & Read attempt next to the
+       * article's TTS reading, for "model vs. you" playback
+       */
+      router.get(
+        '/:id/comparison',
+        authenticate,
+        validateParams(sessionParamsSchema),
+        async (req, res, next) => {
+          try {
+            const result = await readingComparisonService.compareSession(req.params.id, getRequestUser(req).id);
+            if (!result.success) {
+              throw result.error;
+            }
+
+            res.json({
+              success: true,
+              data: result.data,
+            });
+          } catch (error) {
+            next(error);
+          }
+        }
+      );
+    }
+  }
+
   return router;
 }
@@ -0,0 +1,89 @@
+import { Router, type RequestHandler } from 'express';
+import { z } from 'zod';
+import type { VoiceService } from '../../services/index.js';
+import { validateBody, validateParams, getRequestUser } from '../middleware/index.js';
+
+// Request schemas
+const voiceParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+const voicePreferenceSchema = z.object({
+  voiceId: z.string().min(1),
+});
+
+/**
+ * Create voices router (TTS voice catalog and preference) with injected dependencies
+ */
+export function createVoicesRouter(voiceService: VoiceService, authenticate: RequestHandler): Router {
+  const router = Router();
+
+  router.use(authenticate);
+
+  /**
+   * GET /api/voices
+   * Voice catalog with preview URLs, the default voice and the user's current choice
+   */
+  router.get('/', async (req, res, next) => {
+    try {
+      const preferredVoiceId = await voiceService.getPreferredVoice(getRequestUser(req).id);
+
+      res.json({
+        success: true,
+        data: {
+          voices: voiceService.listVoices().map((voice) => ({
+            ...voice,
+            sampleUrl: `/api/voices/${voice.id}/sample`,
+          })),
+          defaultVoiceId: voiceService.getDefaultVoiceId(),
+          preferredVoiceId,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PUT /api/voices/preference
+   * Save the voice used for the user's chat replies and article audio
+   */
+  router.put('/preference', validateBody(voicePreferenceSchema), async (req, res, next) => {
+    try {
+      const result = await voiceService.setPreferredVoice(getRequestUser(req).id, req.body.voiceId);
+      if (!result.success) {
+        throw result.error;
+      }
+
+      res.json({
+        success: true,
+        data: { preferredVoiceId: result.data },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/voices/:id/sample
+   * Short MP3 preview of a voice (cached after the first request, not metered)
+   */
+  router.get('/:id/sample', validateParams(voiceParamsSchema), async (req, res, next) => {
+    try {
+      const result = await voiceService.getSample(req.params.id);
+      if (!result.success) {
+        throw result.error;
+      }
+
+      res.setHeader('Content-Type', result.data.contentType);
+      res.setHeader('Content-Length', result.data.audio.length);
+      res.setHeader('Cache-Control', 'public, max-age=604800'); // Samples never change
+
+      res.send(result.data.audio);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
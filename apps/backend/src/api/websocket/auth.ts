@@ -0,0 +1,59 @@
+import type { Socket } from 'socket.io';
+import type { ITokenVerifier } from '../../domain/interfaces/index.js';
+import type { AuthenticatedUser } from '../../shared/types/index.js';
+import { AppError, AuthenticationError } from '../../shared/errors/index.js';
+import { ANONYMOUS_USER, extractBearerToken } from '../middleware/index.js';
+import { logger } from '../../shared/utils/logger.js';
+
+/**
+ * Socket.IO handshake middleware factory for access token authentication
+ * Clients pass the token as `auth: { token }` (or an Authorization header);
+ * the verified identity is stored on socket.data.user.
+ * Rejected connections receive a connect_error with `data.code`.
+ */
+export function createSocketAuthMiddleware(verifier: ITokenVerifier | null) {
+  return async (socket: Socket, next: (err?: Error) => void) => {
+    if (!verifier) {
+      socket.data.user = ANONYMOUS_USER;
+      return next();
+    }
+
+    const authToken = socket.handshake.auth?.token;
+    const token = typeof authToken === 'string' && authToken
+      ? authToken
+      : extractBearerToken(socket.handshake.headers.authorization);
+
+    try {
+      if (!token) {
+        throw new AppError('Missing access token', 'AUTHENTICATION_ERROR', 401);
+      }
+
+      socket.data.user = await verifier.verify(token);
+      next();
+    } catch (error) {
+      const appError = error instanceof AppError
+        ? error
+        : new AppError('Authentication failed', 'AUTHENTICATION_ERROR', 401);
+
+      logger.warn('WebSocket authentication rejected', {
+        socketId: socket.id,
+        reason: appError.message,
+      });
+
+      const rejection = new Error(appError.message) as Error & { data?: unknown };
+      rejection.data = { code: appError.code };
+      next(rejection);
+    }
+  };
+}
+
+/**
+ * Get the verified user of an authenticated socket
+ */
+export function getSocketUser(socket: Socket): AuthenticatedUser {
+  const user = socket.data.user as AuthenticatedUser | undefined;
+  if (!user) {
+    throw new AuthenticationError();
+  }
+  return user;
+}
@@ -10,13 +10,28 @@ import {
   type ChatErrorResponse,
   type ChatMode,
 } from '../../../shared/types/chat.js';
+import {
+  QuotaExceededError,
+  AccessExpiredError,
+  AudioProcessingError,
+  ValidationError,
+} from '../../../shared/errors/index.js';
 import { logger } from '../../../shared/utils/logger.js';
+import { getSocketUser } from '../auth.js';
 
 interface ActiveChatSession {
   conversationId: string;
   mode: ChatMode;
   startedAt: number;
-  userId?: string;
+  userId: string;
+  voiceId: string;
+}
+
+/**
+ * Quota and access failures are reported with their own code so the client can show the paywall
+ */
+function isEntitlementError(error: Error): error is QuotaExceededError | AccessExpiredError {
+  return error instanceof QuotaExceededError || error instanceof AccessExpiredError;
 }
 
 /**
@@ -58,7 +73,8 @@ export function setupChatHandlers(io: Server, chatService: ChatService): void {
           return;
         }
 
-        const { mode, userId } = validation.data;
+        const { mode, voiceId } = validation.data;
+        const userId = getSocketUser(socket).id;
 
         // Check if socket already has an active session
         const existingSession = activeSessions.get(socket.id);
@@ -73,11 +89,14 @@ export function setupChatHandlers(io: Server, chatService: ChatService): void {
         }
 
         // Start conversation
-        const result = await chatService.startConversation(mode, userId);
+        const result = await chatService.startConversation(mode, userId, voiceId);
 
         if (!result.success) {
           const errorResponse: ChatErrorResponse = {
-            code: 'START_FAILED',
+            code:
+              isEntitlementError(result.error) || result.error instanceof ValidationError
+                ? result.error.code
+                : 'START_FAILED',
             message: result.error.message,
           };
           socket.emit('chat:error', errorResponse);
@@ -91,11 +110,13 @@ export function setupChatHandlers(io: Server, chatService: ChatService): void {
           mode,
           startedAt: Date.now(),
           userId,
+          voiceId: result.data.voiceId,
         });
 
         // Send success response
         const response: ChatStartResponse = {
           conversationId: result.data.conversationId,
+          voiceId: result.data.voiceId,
           greeting: result.data.greeting,
         };
 
@@ -160,11 +181,15 @@ export function setupChatHandlers(io: Server, chatService: ChatService): void {
           conversationId,
           audioBase64: audio,
           mode: session.mode,
+          voiceId: session.voiceId,
         });
 
         if (!result.success) {
           const errorResponse: ChatErrorResponse = {
-            code: 'PROCESS_FAILED',
+            code:
+              isEntitlementError(result.error) || result.error instanceof AudioProcessingError
+                ? result.error.code
+                : 'PROCESS_FAILED',
             message: result.error.message,
           };
           socket.emit('chat:error', errorResponse);
@@ -179,6 +204,7 @@ export function setupChatHandlers(io: Server, chatService: ChatService): void {
             conversationId,
             role: 'user',
             content: result.data.userTranscript,
+            audioUrl: result.data.userAudioUrl,
             timestamp: Date.now(),
             pronunciation: result.data.pronunciation,
           },
@@ -307,8 +333,7 @@ export function setupChatHandlers(io: Server, chatService: ChatService): void {
           durationSeconds: Math.floor((Date.now() - session.startedAt) / 1000),
         });
 
-        // Clean up - the conversation will remain in ChatService memory
-        // until it's either ended or the service restarts
+        // Clean up - the conversation stays in the repository without a summary
         activeSessions.delete(socket.id);
       }
 
@@ -0,0 +1,282 @@
+import { EventEmitter } from 'events';
+import type { Server, Socket } from 'socket.io';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ICommunicationAnalyzer, IStreamingSpeechAnalyzer } from '../../../domain/interfaces/index.js';
+import { DEFAULT_STREAMING_LIMITS, setupStreamingHandlers } from './streaming.js';
+
+const PCM_BYTES_PER_SECOND = 32000;
+const LIMITS = DEFAULT_STREAMING_LIMITS.free_talk;
+const RESUME_GRACE_MS = 30_000;
+
+/**
+ * Recognizer that takes audio and recognizes nothing; tests set its backlog
+ */
+class FakeAnalyzer extends EventEmitter implements IStreamingSpeechAnalyzer {
+  running = false;
+  backlogMs = 0;
+
+  async start(): Promise<void> {
+    this.running = true;
+  }
+
+  writeAudioChunk(): void {
+    if (!this.running) {
+      throw new Error('Streaming session not running');
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+  }
+}
+
+/**
+ * Socket that records what the server sends and lets tests send client events
+ */
+class FakeSocket {
+  readonly data: { user: { id: string } };
+  connected = true;
+  readonly sent: Array<{ event: string; payload: any }> = [];
+  private readonly handlers = new Map<string, (payload?: unknown) => unknown>();
+
+  constructor(readonly id: string, userId: string) {
+    this.data = { user: { id: userId } };
+  }
+
+  on(event: string, handler: (payload?: unknown) => unknown): this {
+    this.handlers.set(event, handler);
+    return this;
+  }
+
+  emit(event: string, payload?: unknown): boolean {
+    this.sent.push({ event, payload });
+    return true;
+  }
+
+  async receive(event: string, payload?: unknown): Promise<void> {
+    await this.handlers.get(event)?.(payload);
+  }
+
+  last(event: string): any {
+    return this.sent.filter((sent) => sent.event === event).at(-1)?.payload;
+  }
+}
+
+/**
+ * Streaming handlers on a fake server; connect() opens a client connection
+ */
+function setup() {
+  let onConnection: (socket: Socket) => void = () => undefined;
+  const io = {
+    on: (_event: string, handler: (socket: Socket) => void) => {
+      onConnection = handler;
+    },
+  };
+  const analyzers: FakeAnalyzer[] = [];
+
+  setupStreamingHandlers(io as unknown as Server, {
+    createStreamingAnalyzer: () => {
+      const analyzer = new FakeAnalyzer();
+      analyzers.push(analyzer);
+      return analyzer;
+    },
+    resumeGraceMs: RESUME_GRACE_MS,
+    communicationAnalyzer: {} as ICommunicationAnalyzer,
+  });
+
+  const connect = (socketId = 'socket-1', userId = 'user-1'): FakeSocket => {
+    const socket = new FakeSocket(socketId, userId);
+    onConnection(socket as unknown as Socket);
+    return socket;
+  };
+  return { connect, analyzers };
+}
+
+/**
+ * Connect and start a free talk session
+ */
+async function startSession() {
+  const server = setup();
+  const socket = server.connect();
+  await socket.receive('session:start', { mode: 'free_talk' });
+  return { ...server, socket, analyzer: server.analyzers[0] };
+}
+
+describe('DEFAULT_STREAMING_LIMITS', () => {
+  it('accepts more audio than each mode can record in its time limit', () => {
+    for (const limits of Object.values(DEFAULT_STREAMING_LIMITS)) {
+      expect(limits.maxTotalBytes).toBeGreaterThanOrEqual((limits.maxDurationMs / 1000) * PCM_BYTES_PER_SECOND);
+      expect(limits.maxChunkBytes).toBeLessThan(limits.maxTotalBytes);
+      expect(limits.backpressureLowMs).toBeLessThan(limits.backpressureHighMs);
+    }
+  });
+
+  it('gives readers longer sessions and pauses than conversations', () => {
+    const { free_talk, read_practice, shadowing } = DEFAULT_STREAMING_LIMITS;
+    expect(read_practice.maxDurationMs).toBeGreaterThan(free_talk.maxDurationMs);
+    expect(read_practice.idleTimeoutMs).toBeGreaterThan(free_talk.idleTimeoutMs);
+    expect(shadowing.maxDurationMs).toBeGreaterThan(read_practice.maxDurationMs);
+  });
+});
+
+describe('streaming session limits', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports the mode limits when the session starts', async () => {
+    const { socket } = await startSession();
+    expect(socket.last('session:started')).toMatchObject({ limits: LIMITS });
+  });
+
+  it('stops a session that sends no audio for the idle timeout', async () => {
+    const { socket, analyzer } = await startSession();
+
+    await vi.advanceTimersByTimeAsync(LIMITS.idleTimeoutMs - 1000);
+    expect(socket.last('session:complete')).toBeUndefined();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(socket.last('session:complete')).toMatchObject({ reason: 'idle_timeout' });
+    expect(analyzer.running).toBe(false);
+  });
+
+  it('stops a session at its maximum duration however much audio arrives', async () => {
+    const { socket } = await startSession();
+
+    for (let elapsed = 0; elapsed < LIMITS.maxDurationMs; elapsed += 5000) {
+      await socket.receive('audio:chunk', Buffer.alloc(320));
+      await vi.advanceTimersByTimeAsync(5000);
+    }
+    expect(socket.last('session:complete')).toMatchObject({ reason: 'max_duration' });
+  });
+
+  it('stops a session once it has sent the most audio allowed', async () => {
+    const { socket } = await startSession();
+    const chunk = Buffer.alloc(LIMITS.maxChunkBytes);
+
+    for (let sent = 0; sent < LIMITS.maxTotalBytes; sent += chunk.length) {
+      await socket.receive('audio:chunk', chunk);
+    }
+    expect(socket.last('session:complete')).toBeUndefined();
+
+    await socket.receive('audio:chunk', Buffer.alloc(2));
+    expect(socket.last('session:complete')).toMatchObject({ reason: 'max_bytes' });
+  });
+
+  it('stops a session that sends an oversized chunk', async () => {
+    const { socket } = await startSession();
+    await socket.receive('audio:chunk', Buffer.alloc(LIMITS.maxChunkBytes + 2));
+    expect(socket.last('session:complete')).toMatchObject({ reason: 'chunk_too_large' });
+  });
+
+  it('pauses the client at the high backlog and resumes it at the low one', async () => {
+    const { socket, analyzer } = await startSession();
+
+    analyzer.backlogMs = LIMITS.backpressureHighMs - 1;
+    await socket.receive('audio:chunk', Buffer.alloc(320));
+    expect(socket.last('session:backpressure')).toBeUndefined();
+
+    analyzer.backlogMs = LIMITS.backpressureHighMs;
+    await socket.receive('audio:chunk', Buffer.alloc(320));
+    expect(socket.last('session:backpressure')).toMatchObject({ paused: true, backlogMs: LIMITS.backpressureHighMs });
+
+    // Between the thresholds the client stays paused, and is not idle while it waits
+    analyzer.backlogMs = LIMITS.backpressureLowMs + 1;
+    await vi.advanceTimersByTimeAsync(LIMITS.idleTimeoutMs * 2);
+    expect(socket.sent.filter((sent) => sent.event === 'session:backpressure')).toHaveLength(1);
+    expect(socket.last('session:complete')).toBeUndefined();
+
+    analyzer.backlogMs = LIMITS.backpressureLowMs;
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(socket.last('session:backpressure')).toMatchObject({ paused: false });
+
+    // A resumed client gets a full idle window to start sending again
+    await vi.advanceTimersByTimeAsync(LIMITS.idleTimeoutMs - 1000);
+    expect(socket.last('session:complete')).toBeUndefined();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(socket.last('session:complete')).toMatchObject({ reason: 'idle_timeout' });
+  });
+
+  it('finishes the session when the recognizer fails', async () => {
+    const { socket, analyzer } = await startSession();
+
+    analyzer.emit('error', new Error('Recognition error: connection lost'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(socket.last('session:error')).toMatchObject({ message: 'Recognition error: connection lost' });
+    expect(socket.last('session:complete')).toMatchObject({ reason: 'error' });
+  });
+});
+
+describe('streaming session resume', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reattaches a session resumed within the grace period', async () => {
+    const { connect, socket, analyzer } = await startSession();
+    const { sessionId } = socket.last('session:started');
+
+    await socket.receive('disconnect');
+    await vi.advanceTimersByTimeAsync(RESUME_GRACE_MS - 1000);
+
+    const reconnected = connect('socket-2');
+    await reconnected.receive('session:resume', { sessionId });
+    expect(reconnected.last('session:resumed')).toMatchObject({ sessionId });
+
+    // The session carries on over the new connection, past the old grace deadline
+    await reconnected.receive('audio:chunk', Buffer.alloc(320));
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(analyzer.running).toBe(true);
+
+    await reconnected.receive('session:stop');
+    expect(reconnected.last('session:complete')).toMatchObject({ reason: 'client_stop' });
+    expect(socket.last('session:complete')).toBeUndefined();
+  });
+
+  it('discards a session not resumed within the grace period', async () => {
+    const { connect, socket, analyzer } = await startSession();
+    const { sessionId } = socket.last('session:started');
+
+    await socket.receive('disconnect');
+    await vi.advanceTimersByTimeAsync(RESUME_GRACE_MS);
+    expect(analyzer.running).toBe(false);
+
+    const reconnected = connect('socket-2');
+    await reconnected.receive('session:resume', { sessionId });
+    expect(reconnected.last('session:error')).toMatchObject({ code: 'SESSION_NOT_FOUND' });
+  });
+
+  it('does not let another user resume a session', async () => {
+    const { connect, socket, analyzer } = await startSession();
+    const { sessionId } = socket.last('session:started');
+    await socket.receive('disconnect');
+
+    const intruder = connect('socket-2', 'user-2');
+    await intruder.receive('session:resume', { sessionId });
+    expect(intruder.last('session:error')).toMatchObject({ code: 'SESSION_NOT_FOUND' });
+    expect(analyzer.running).toBe(true);
+
+    const owner = connect('socket-3');
+    await owner.receive('session:resume', { sessionId });
+    expect(owner.last('session:resumed')).toMatchObject({ sessionId });
+  });
+
+  it('stops the recognizer when the client left while the session was starting', async () => {
+    const { connect, analyzers } = setup();
+    const socket = connect();
+    socket.connected = false;
+
+    await socket.receive('session:start', { mode: 'free_talk' });
+    expect(analyzers[0].running).toBe(false);
+    expect(socket.last('session:started')).toBeUndefined();
+  });
+});
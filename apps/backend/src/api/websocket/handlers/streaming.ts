@@ -1,8 +1,33 @@
 import type { Server, Socket } from 'socket.io';
-import { AzureStreamingSpeechAnalyzer, type StreamingResult } from '../../../infrastructure/speech/index.js';
-import { OpenAICommunicationAnalyzer } from '../../../infrastructure/llm/index.js';
+import { v4 as uuid } from 'uuid';
+import type {
+  IAudioStore,
+  ICommunicationAnalyzer,
+  IStreamingSpeechAnalyzer,
+  StreamingResult,
+  StreamingSpeechAnalyzerFactory,
+} from '../../../domain/interfaces/index.js';
+import { NudgeEngine } from '../../../services/index.js';
+import type { SessionHistoryService, EntitlementService, ShadowingService } from '../../../services/index.js';
 import { logger } from '../../../shared/utils/logger.js';
-import type { SessionMode } from '../../../shared/types/index.js';
+import { getSocketUser } from '../auth.js';
+import { computeSpeechRateMetrics } from '../../../shared/utils/speechRate.js';
+import { alignToReference } from '../../../shared/utils/referenceAlignment.js';
+import { ReadingPositionTracker } from '../../../shared/utils/readingPosition.js';
+import { scoreReadingFluency } from '../../../shared/utils/readingFluency.js';
+import { scoreShadowing } from '../../../shared/utils/shadowing.js';
+import type {
+  CommunicationResult,
+  ReadingFluencyReport,
+  ReferenceAlignment,
+  SessionMode,
+  SessionPronunciationSummary,
+  SessionWord,
+  ShadowingReport,
+  ShadowingScript,
+  StreamingLimits,
+  StreamingStopReason,
+} from '../../../shared/types/index.js';
 
 // Filler words to detect in real-time
 const FILLER_WORDS = [
@@ -13,26 +38,86 @@ const FILLER_WORDS = [
   'right', 'okay',
 ];
 
+// PCM format pushed by clients (16kHz, 16-bit, mono)
+const PCM_BYTES_PER_SECOND = 16000 * 2;
+
+// How often duration, idle and backlog limits are checked
+const WATCHDOG_INTERVAL_MS = 1000;
+
+const CONVERSATION_LIMITS: StreamingLimits = {
+  maxDurationMs: 5 * 60 * 1000,
+  maxTotalBytes: 330 * PCM_BYTES_PER_SECOND, // 5.5 minutes of audio
+  maxChunkBytes: 5 * PCM_BYTES_PER_SECOND,
+  idleTimeoutMs: 15000,
+  backpressureHighMs: 8000,
+  backpressureLowMs: 3000,
+};
+
+// Articles take longer to read, and readers pause to find their place
+const READING_LIMITS: StreamingLimits = {
+  ...CONVERSATION_LIMITS,
+  maxDurationMs: 10 * 60 * 1000,
+  maxTotalBytes: 660 * PCM_BYTES_PER_SECOND,
+  idleTimeoutMs: 30000,
+};
+
+export const DEFAULT_STREAMING_LIMITS: Record<SessionMode, StreamingLimits> = {
+  free_talk: CONVERSATION_LIMITS,
+  professional: CONVERSATION_LIMITS,
+  casual: CONVERSATION_LIMITS,
+  read_aloud: READING_LIMITS,
+  read_practice: READING_LIMITS,
+  // Listening to each model sentence adds to the reading time
+  shadowing: { ...READING_LIMITS, maxDurationMs: 15 * 60 * 1000, maxTotalBytes: 990 * PCM_BYTES_PER_SECOND },
+};
+
 interface SessionState {
-  analyzer: AzureStreamingSpeechAnalyzer;
+  sessionId: string;
+  // Socket currently attached to the session (replaced on session:resume)
+  socket: Socket;
+  analyzer: IStreamingSpeechAnalyzer;
+  userId: string;
   mode: SessionMode;
   promptText?: string;
   referenceText?: string;
+  articleId?: string;
+  // Sentences and model timings of a shadowing session (referenceText is their text)
+  shadowingScript?: ShadowingScript;
   fullTranscript: string;
   fillerCount: number;
   fillerBreakdown: Record<string, number>;
   wordCount: number;
   startTime: number;
   lastUpdate: number;
-  allWords: Array<{ word: string; accuracy: number }>;
+  // Time spent disconnected, excluded from the session duration
+  pausedMs: number;
+  disconnectedAt?: number;
+  graceTimer?: NodeJS.Timeout;
+  limits: StreamingLimits;
+  receivedBytes: number;
+  // Everything received so far, kept for playback (bounded by limits.maxTotalBytes)
+  audioChunks: Buffer[];
+  lastChunkAt: number;
+  // Client has been asked to pause sending until the recognizer catches up
+  backpressured: boolean;
+  watchdog?: NodeJS.Timeout;
+  stopping: boolean;
+  allWords: SessionWord[];
   pronunciationScores: number[];
+  // Follows the speaker through the reference text (teleprompter mode)
+  positionTracker?: ReadingPositionTracker;
+  nudgeEngine: NudgeEngine;
 }
 
-interface StreamingConfig {
-  azureKey: string;
-  azureRegion: string;
-  openaiKey: string;
-  openaiModel: string;
+interface StreamingServices {
+  createStreamingAnalyzer: StreamingSpeechAnalyzerFactory;
+  // How long a session survives a disconnect, waiting for session:resume
+  resumeGraceMs: number;
+  communicationAnalyzer: ICommunicationAnalyzer;
+  sessionHistoryService?: SessionHistoryService;
+  entitlementService?: EntitlementService;
+  audioStore?: IAudioStore;
+  shadowingService?: ShadowingService;
 }
 
 /**
@@ -64,53 +149,505 @@ function calculateWPM(wordCount: number, durationMs: number): number {
   return Math.round(wordCount / minutes);
 }
 
+/**
+ * Speaking rate of the session so far
+ * Measured from word timestamps; wall-clock time (silence included) only when
+ * the analyzer reports no timings.
+ */
+function sessionWPM(session: SessionState, durationMs: number): number {
+  return computeSpeechRateMetrics(session.allWords)?.speakingRateWpm ?? calculateWPM(session.wordCount, durationMs);
+}
+
+/**
+ * Time the session has been connected and streaming
+ */
+function activeDuration(session: SessionState): number {
+  const pausedNow = session.disconnectedAt !== undefined ? Date.now() - session.disconnectedAt : 0;
+  return Date.now() - session.startTime - session.pausedMs - pausedNow;
+}
+
+/**
+ * Ask the client to pause or resume sending as the recognizer backlog crosses the limits
+ */
+function updateBackpressure(session: SessionState): void {
+  const backlogMs = session.analyzer.backlogMs;
+  const { backpressureHighMs, backpressureLowMs } = session.limits;
+
+  if (!session.backpressured && backlogMs >= backpressureHighMs) {
+    session.backpressured = true;
+  } else if (session.backpressured && backlogMs <= backpressureLowMs) {
+    session.backpressured = false;
+    // The client held its audio on our request; give it a full idle window again
+    session.lastChunkAt = Date.now();
+  } else {
+    return;
+  }
+
+  session.socket.emit('session:backpressure', {
+    paused: session.backpressured,
+    backlogMs: Math.round(backlogMs),
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Alignment of everything recognized so far against the reference text, if there is one
+ * @param complete Whether reading has finished (unread reference words count as omitted)
+ */
+function sessionAlignment(session: SessionState, complete: boolean): ReferenceAlignment | undefined {
+  if (!session.referenceText?.trim()) return undefined;
+  return alignToReference(session.referenceText, session.allWords, complete);
+}
+
+/**
+ * Store a completed session in history
+ * Returns the stored session ID, or undefined if history is disabled or storage failed
+ */
+async function recordSession(
+  services: StreamingServices,
+  session: SessionState,
+  details: {
+    duration: number;
+    pronunciation: SessionPronunciationSummary;
+    communication?: Partial<CommunicationResult>;
+    readingFluency?: ReadingFluencyReport;
+    shadowing?: ShadowingReport;
+    audioUrl?: string;
+  }
+): Promise<string | undefined> {
+  if (!services.sessionHistoryService) return undefined;
+
+  try {
+    const record = await services.sessionHistoryService.recordStreamingSession({
+      id: session.sessionId,
+      userId: session.userId,
+      mode: session.mode,
+      promptText: session.promptText,
+      referenceText: session.referenceText,
+      articleId: session.articleId,
+      transcript: session.fullTranscript,
+      allWords: session.allWords,
+      pronunciation: details.pronunciation,
+      communication: details.communication,
+      durationMs: details.duration,
+      wordCount: session.wordCount,
+      wpm: sessionWPM(session, details.duration),
+      fillerCount: session.fillerCount,
+      fillerBreakdown: session.fillerBreakdown,
+      readingFluency: details.readingFluency,
+      shadowing: details.shadowing,
+      overallScore: details.shadowing?.overallScore ?? details.pronunciation.overallScore,
+      audioUrl: details.audioUrl,
+    });
+    return record.id;
+  } catch (error) {
+    logger.error('Failed to record streaming session', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Keep the session's audio for playback
+ * Returns its URL, or undefined if there is no store or saving failed
+ */
+async function saveRecording(services: StreamingServices, session: SessionState): Promise<string | undefined> {
+  if (!services.audioStore || session.audioChunks.length === 0) return undefined;
+
+  try {
+    await services.audioStore.saveRecording(`sessions/${session.sessionId}`, Buffer.concat(session.audioChunks));
+    return `/api/sessions/${session.sessionId}/audio`;
+  } catch (error) {
+    logger.error('Failed to save session recording', {
+      sessionId: session.sessionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+}
+
 /**
  * Set up WebSocket handlers for streaming audio
  */
-export function setupStreamingHandlers(io: Server, config: StreamingConfig): void {
-  // Store active sessions
+export function setupStreamingHandlers(
+  io: Server,
+  services: StreamingServices
+): void {
+  // Active sessions by session ID, and the session each connected socket is attached to
   const sessions = new Map<string, SessionState>();
+  const socketSessions = new Map<string, string>();
+
+  const sessionFor = (socket: Socket): SessionState | undefined => {
+    const sessionId = socketSessions.get(socket.id);
+    return sessionId ? sessions.get(sessionId) : undefined;
+  };
+
+  const detach = (session: SessionState): void => {
+    clearTimeout(session.graceTimer);
+    clearInterval(session.watchdog);
+    sessions.delete(session.sessionId);
+    if (socketSessions.get(session.socket.id) === session.sessionId) {
+      socketSessions.delete(session.socket.id);
+    }
+  };
+
+  /**
+   * Stop a session without results (replaced, or never resumed) and meter its time
+   */
+  const discard = async (session: SessionState): Promise<void> => {
+    detach(session);
+    try {
+      await session.analyzer.stop();
+    } catch {
+      // Ignore cleanup errors
+    }
+    await services.entitlementService?.recordUsage(
+      session.userId,
+      'analysis_seconds',
+      Math.round(activeDuration(session) / 1000)
+    );
+  };
+
+  /**
+   * Stop recognition, analyze and send session:complete
+   * @param reason Why the session ended (client request or a server limit)
+   */
+  const finishSession = async (session: SessionState, reason: StreamingStopReason): Promise<void> => {
+    if (session.stopping) return;
+    session.stopping = true;
+    clearInterval(session.watchdog);
+
+    const { socket } = session;
+
+    try {
+      // Stop the speech analyzer
+      await session.analyzer.stop();
+
+      const duration = activeDuration(session);
+      await services.entitlementService?.recordUsage(session.userId, 'analysis_seconds', Math.round(duration / 1000));
+
+      // If we have a transcript, run analysis
+      if (session.fullTranscript.trim().length > 0) {
+        // Calculate pronunciation stats from accumulated words
+        const avgPronunciationScore = session.pronunciationScores.length > 0
+          ? Math.round(session.pronunciationScores.reduce((a, b) => a + b, 0) / session.pronunciationScores.length)
+          : 0;
+
+        const mispronounced = session.allWords.filter(w => w.accuracy < 70);
+        const avgWordAccuracy = session.allWords.length > 0
+          ? Math.round(session.allWords.reduce((sum, w) => sum + w.accuracy, 0) / session.allWords.length)
+          : 0;
+
+        const pronunciationSummary: SessionPronunciationSummary = {
+          overallScore: avgPronunciationScore || avgWordAccuracy,
+          wordAccuracy: avgWordAccuracy,
+          mispronouncedCount: mispronounced.length,
+        };
+
+        const speechRate = computeSpeechRateMetrics(session.allWords);
+        const wpm = speechRate?.speakingRateWpm ?? calculateWPM(session.wordCount, duration);
+        const alignment = sessionAlignment(session, true);
+        const audioUrl = await saveRecording(services, session);
+
+        // For read_practice and shadowing, skip OpenAI and focus on pronunciation feedback
+        if (session.mode === 'read_practice' || session.mode === 'shadowing') {
+          socket.emit('session:analyzing', {
+            message: 'Calculating pronunciation results...',
+          });
+
+          // Oral reading fluency (WCPM, accuracy, miscues) against the reference text
+          const readingFluency = alignment && session.mode === 'read_practice'
+            ? scoreReadingFluency(alignment, duration)
+            : undefined;
+
+          // Rhythm, speed and stress of each repeated sentence against its model reading
+          const shadowing = session.shadowingScript
+            ? scoreShadowing(session.shadowingScript, session.allWords)
+            : undefined;
+
+          // Generate feedback based on pronunciation scores
+          const tips: string[] = [];
+          if (mispronounced.length > 0) {
+            const uniqueWords = [...new Set(mispronounced.map(w => w.word))];
+            tips.push(`Focus on these words: ${uniqueWords.slice(0, 5).join(', ')}`);
+          }
+          if (alignment && readingFluency && readingFluency.miscues.omissions > 0) {
+            // Words past where the reader stopped are unread, not skipped
+            const skipped = alignment.words
+              .filter(w => w.status === 'omitted' && (w.referenceIndex ?? 0) < readingFluency.wordsAttempted)
+              .map(w => w.referenceWord?.replace(/[.,!?;:"]+$/, ''));
+            tips.push(`You skipped ${skipped.length} word${skipped.length === 1 ? '' : 's'} (${skipped.slice(0, 5).join(', ')})`);
+          }
+          if (shadowing && shadowing.sentencesAttempted > 0) {
+            if (shadowing.relativeSpeed !== undefined && shadowing.relativeSpeed > 1.3) {
+              tips.push('Try to keep up with the model speaker - you were noticeably slower');
+            } else if (shadowing.relativeSpeed !== undefined && shadowing.relativeSpeed < 0.8) {
+              tips.push('Slow down to the model speaker\'s pace');
+            }
+            if (shadowing.rhythmSimilarity < 70) {
+              tips.push('Copy the rhythm of each sentence, not just its words');
+            }
+            if (shadowing.pauses.missed > shadowing.pauses.matched) {
+              tips.push('Pause where the model speaker pauses');
+            }
+          }
+          if (avgWordAccuracy < 70) {
+            tips.push('Try slowing down and pronouncing each syllable clearly');
+          }
+          // Shadowing sessions are mostly listening, so their word rate says nothing about pace
+          if (session.mode === 'read_practice' && session.wordCount < 100 && duration > 30000) {
+            tips.push('Try to maintain a steady reading pace');
+          }
+
+          const communication = tips.length > 0 ? { coachingTip: tips.join('. ') + '.' } : undefined;
+          const sessionId = await recordSession(services, session, {
+            duration,
+            pronunciation: pronunciationSummary,
+            communication,
+            readingFluency,
+            shadowing,
+            audioUrl,
+          });
+
+          socket.emit('session:complete', {
+            reason,
+            sessionId,
+            transcript: session.fullTranscript,
+            duration,
+            wordCount: session.wordCount,
+            wpm,
+            speechRate,
+            fillerCount: session.fillerCount,
+            fillerBreakdown: session.fillerBreakdown,
+            pronunciation: {
+              ...pronunciationSummary,
+              mispronouncedWords: mispronounced.map(w => ({ word: w.word, accuracy: w.accuracy })),
+            },
+            allWords: session.allWords,
+            alignment,
+            readingFluency,
+            shadowing,
+            audioUrl,
+            communication,
+          });
+        } else {
+          // For other modes, run full OpenAI communication analysis
+          socket.emit('session:analyzing', {
+            message: 'Analyzing communication...',
+          });
+
+          try {
+            const communicationResult = await services.communicationAnalyzer.analyze(
+              session.fullTranscript,
+              {
+                mode: session.mode,
+                promptText: session.promptText,
+              }
+            );
+
+            const sessionId = await recordSession(services, session, {
+              duration,
+              pronunciation: pronunciationSummary,
+              communication: communicationResult,
+              audioUrl,
+            });
+
+            // Send final results
+            socket.emit('session:complete', {
+              reason,
+              sessionId,
+              transcript: session.fullTranscript,
+              duration,
+              wordCount: session.wordCount,
+              wpm,
+              speechRate,
+              fillerCount: session.fillerCount,
+              fillerBreakdown: session.fillerBreakdown,
+              communication: communicationResult,
+              pronunciation: pronunciationSummary,
+              allWords: session.allWords,
+              alignment,
+              audioUrl,
+            });
+          } catch (analysisError) {
+            logger.error('Communication analysis failed', {
+              socketId: socket.id,
+              error: analysisError instanceof Error ? analysisError.message : String(analysisError),
+            });
+
+            const sessionId = await recordSession(services, session, {
+              duration,
+              pronunciation: pronunciationSummary,
+              audioUrl,
+            });
+
+            // Send partial results without communication analysis
+            socket.emit('session:complete', {
+              reason,
+              sessionId,
+              transcript: session.fullTranscript,
+              duration,
+              wordCount: session.wordCount,
+              wpm,
+              speechRate,
+              fillerCount: session.fillerCount,
+              fillerBreakdown: session.fillerBreakdown,
+              pronunciation: pronunciationSummary,
+              allWords: session.allWords,
+              alignment,
+              audioUrl,
+            });
+          }
+        }
+      } else {
+        socket.emit('session:complete', {
+          reason,
+          transcript: '',
+          duration,
+          wordCount: 0,
+          wpm: 0,
+          fillerCount: 0,
+          fillerBreakdown: {},
+          error: 'No speech detected',
+        });
+      }
+
+      detach(session);
+      logger.info('Session completed', { socketId: socket.id, sessionId: session.sessionId, duration, reason });
+    } catch (error) {
+      logger.error('Error stopping session', {
+        socketId: socket.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      socket.emit('session:error', { message: 'Error stopping session' });
+      detach(session);
+    }
+  };
+
+  /**
+   * Auto-stop sessions that run too long or go idle; disconnected sessions are left to the resume grace period
+   * A client paused by backpressure is not idle, so the idle timer waits until it is resumed.
+   */
+  const enforceLimits = (session: SessionState): void => {
+    if (session.stopping || session.disconnectedAt !== undefined) return;
+
+    if (activeDuration(session) >= session.limits.maxDurationMs) {
+      void finishSession(session, 'max_duration');
+    } else if (!session.backpressured && Date.now() - session.lastChunkAt >= session.limits.idleTimeoutMs) {
+      void finishSession(session, 'idle_timeout');
+    } else {
+      updateBackpressure(session);
+    }
+  };
 
   io.on('connection', (socket: Socket) => {
     logger.info('Client connected', { socketId: socket.id });
 
     /**
      * Start streaming session
-     * Client sends: { mode: SessionMode, promptText?: string }
+     * Client sends: { mode: SessionMode, promptText?: string, referenceText?: string, articleId?: string }
+     * With a reference text, session:position reports where the speaker is in it; articleId
+     * links a Listen & Read attempt to its article for the model comparison
+     * Shadowing sessions require articleId and follow the article's shadowing script
+     * (GET /api/news/:id/shadowing); its text replaces any referenceText sent
+     * session:nudge carries coaching nudges (pace, fillers, silence, volume) as they happen
+     * session:started carries the mode's limits; exceeding one ends the session with
+     * session:complete { reason }, and session:backpressure { paused } asks the client
+     * to hold audio while the recognizer catches up
      */
-    socket.on('session:start', async (data: { mode: SessionMode; promptText?: string; referenceText?: string }) => {
+    socket.on('session:start', async (data: {
+      mode: SessionMode;
+      promptText?: string;
+      referenceText?: string;
+      articleId?: string;
+    }) => {
       try {
+        const userId = getSocketUser(socket).id;
+
+        // Own keys only: `in` would also accept inherited names such as "toString"
+        if (!data || typeof data.mode !== 'string' || !Object.hasOwn(DEFAULT_STREAMING_LIMITS, data.mode)) {
+          socket.emit('session:error', { code: 'VALIDATION_ERROR', message: 'Invalid session mode' });
+          return;
+        }
+
+        // Streaming time is metered when the session ends; require quota to remain before starting
+        if (services.entitlementService) {
+          const access = await services.entitlementService.authorize(userId, 'analysis_seconds', 0);
+          if (!access.success) {
+            socket.emit('session:error', { code: access.error.code, message: access.error.message });
+            return;
+          }
+        }
+
+        let shadowingScript: ShadowingScript | undefined;
+        if (data.mode === 'shadowing') {
+          if (!data.articleId || !services.shadowingService) {
+            socket.emit('session:error', { code: 'VALIDATION_ERROR', message: 'Shadowing requires a news article' });
+            return;
+          }
+
+          const script = await services.shadowingService.getScript(data.articleId, userId);
+          if (!script.success) {
+            socket.emit('session:error', { code: script.error.code, message: script.error.message });
+            return;
+          }
+          shadowingScript = script.data;
+        }
+        const referenceText = shadowingScript
+          ? shadowingScript.sentences.map(s => s.text).join(' ')
+          : data.referenceText;
+
         // Clean up any existing session
-        if (sessions.has(socket.id)) {
-          const existing = sessions.get(socket.id)!;
-          await existing.analyzer.stop();
-          sessions.delete(socket.id);
+        const existing = sessionFor(socket);
+        if (existing) {
+          await discard(existing);
         }
 
-        const analyzer = new AzureStreamingSpeechAnalyzer({
-          subscriptionKey: config.azureKey,
-          region: config.azureRegion,
-        });
+        const analyzer = services.createStreamingAnalyzer();
 
         const sessionState: SessionState = {
+          sessionId: uuid(),
+          socket,
           analyzer,
+          userId,
           mode: data.mode,
           promptText: data.promptText,
-          referenceText: data.referenceText,
+          referenceText,
+          articleId: data.articleId,
+          shadowingScript,
           fullTranscript: '',
           fillerCount: 0,
           fillerBreakdown: {},
           wordCount: 0,
           startTime: Date.now(),
           lastUpdate: Date.now(),
+          pausedMs: 0,
+          limits: DEFAULT_STREAMING_LIMITS[data.mode],
+          receivedBytes: 0,
+          audioChunks: [],
+          lastChunkAt: Date.now(),
+          backpressured: false,
+          stopping: false,
           allWords: [],
           pronunciationScores: [],
+          positionTracker: referenceText?.trim() ? new ReadingPositionTracker(referenceText) : undefined,
+          nudgeEngine: new NudgeEngine(data.mode),
         };
 
         // Handle streaming results
         analyzer.on('result', (result: StreamingResult) => {
           sessionState.lastUpdate = Date.now();
 
+          // Interim hypotheses move the reading position as words are heard
+          const position = sessionState.positionTracker?.update(result.transcript, result.isFinal);
+          if (position) {
+            sessionState.socket.emit('session:position', {
+              ...position,
+              timestamp: result.timestamp,
+            });
+          }
+
           if (result.isFinal && result.transcript) {
             // Append to full transcript
             sessionState.fullTranscript += (sessionState.fullTranscript ? ' ' : '') + result.transcript;
@@ -132,17 +669,25 @@ export function setupStreamingHandlers(io: Server, config: StreamingConfig): voi
             if (result.pronunciationScore !== undefined) {
               sessionState.pronunciationScores.push(result.pronunciationScore);
             }
+
+            const nudge = sessionState.nudgeEngine.addResult(result, countFillers(result.transcript).total);
+            if (nudge) {
+              sessionState.socket.emit('session:nudge', { ...nudge, timestamp: Date.now() });
+            }
           }
 
           // Calculate current WPM
-          const duration = Date.now() - sessionState.startTime;
-          const wpm = calculateWPM(sessionState.wordCount, duration);
+          const duration = activeDuration(sessionState);
+          const wpm = sessionWPM(sessionState, duration);
 
           // Calculate mispronounced word count (accuracy < 70)
           const mispronounced = sessionState.allWords.filter(w => w.accuracy < 70);
 
+          // Line recognized words up with the text being read (reading still in progress)
+          const alignment = result.isFinal ? sessionAlignment(sessionState, false) : undefined;
+
           // Send update to client
-          socket.emit('session:update', {
+          sessionState.socket.emit('session:update', {
             type: result.isFinal ? 'final' : 'interim',
             transcript: result.isFinal ? sessionState.fullTranscript : result.transcript,
             fillerCount: sessionState.fillerCount,
@@ -155,34 +700,58 @@ export function setupStreamingHandlers(io: Server, config: StreamingConfig): voi
             allWords: sessionState.allWords,
             mispronouncedCount: mispronounced.length,
             mispronouncedWords: mispronounced.map(w => w.word),
+            alignment,
             timestamp: result.timestamp,
           });
         });
 
+        // A recognizer that fails or ends on its own takes no more audio; finish with what it recognized
+        // (a failed start is reported below, and discarded sessions are already unregistered)
+        const recognizerStopped = (): void => {
+          if (sessions.get(sessionState.sessionId) === sessionState) {
+            void finishSession(sessionState, 'error');
+          }
+        };
+
         analyzer.on('error', (error: Error) => {
-          logger.error('Streaming error', { socketId: socket.id, error: error.message });
-          socket.emit('session:error', { message: error.message });
+          logger.error('Streaming error', { sessionId: sessionState.sessionId, error: error.message });
+          sessionState.socket.emit('session:error', { message: error.message });
+          recognizerStopped();
         });
 
         analyzer.on('ended', () => {
-          logger.info('Streaming session ended', { socketId: socket.id });
+          logger.info('Streaming session ended', { sessionId: sessionState.sessionId });
+          recognizerStopped();
         });
 
         // Start the analyzer
         await analyzer.start({
           locale: 'en-US',
           enablePronunciation: true,
+          referenceText,
         });
 
-        sessions.set(socket.id, sessionState);
+        // The client left while the recognizer was starting; nothing would ever stop it
+        if (!socket.connected) {
+          await analyzer.stop();
+          logger.info('Client disconnected during session start', { socketId: socket.id });
+          return;
+        }
+
+        sessions.set(sessionState.sessionId, sessionState);
+        socketSessions.set(socket.id, sessionState.sessionId);
+        sessionState.watchdog = setInterval(() => enforceLimits(sessionState), WATCHDOG_INTERVAL_MS);
 
         socket.emit('session:started', {
+          sessionId: sessionState.sessionId,
+          limits: sessionState.limits,
           message: 'Streaming session started',
           timestamp: sessionState.startTime,
         });
 
         logger.info('Streaming session started', {
           socketId: socket.id,
+          sessionId: sessionState.sessionId,
           mode: data.mode,
         });
       } catch (error) {
@@ -201,16 +770,46 @@ export function setupStreamingHandlers(io: Server, config: StreamingConfig): voi
      * Client sends: ArrayBuffer or Buffer (raw PCM audio)
      */
     socket.on('audio:chunk', (chunk: ArrayBuffer | Buffer) => {
-      const session = sessions.get(socket.id);
+      const session = sessionFor(socket);
       if (!session) {
         socket.emit('session:error', { message: 'No active session' });
         return;
       }
 
+      // Audio still in flight while the session is being finished
+      if (session.stopping) return;
+
+      // The recognizer stopped without reporting it; end the session rather than buffer audio nobody hears
+      if (!session.analyzer.running) {
+        void finishSession(session, 'error');
+        return;
+      }
+
       try {
         // Handle both ArrayBuffer (from browser) and Buffer (from Node.js)
         const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+
+        if (buffer.length > session.limits.maxChunkBytes) {
+          void finishSession(session, 'chunk_too_large');
+          return;
+        }
+        if (session.receivedBytes + buffer.length > session.limits.maxTotalBytes) {
+          void finishSession(session, 'max_bytes');
+          return;
+        }
+
         session.analyzer.writeAudioChunk(buffer);
+        session.receivedBytes += buffer.length;
+        session.audioChunks.push(buffer);
+        // Only audio the recognizer accepted keeps the session from going idle
+        session.lastChunkAt = Date.now();
+        updateBackpressure(session);
+
+        // Silence and volume are judged from the audio itself
+        const nudge = session.nudgeEngine.addAudio(buffer);
+        if (nudge) {
+          socket.emit('session:nudge', { ...nudge, timestamp: Date.now() });
+        }
       } catch (error) {
         logger.error('Error writing audio chunk', {
           socketId: socket.id,
@@ -223,162 +822,89 @@ export function setupStreamingHandlers(io: Server, config: StreamingConfig): voi
      * Stop streaming and get final analysis
      */
     socket.on('session:stop', async () => {
-      const session = sessions.get(socket.id);
+      const session = sessionFor(socket);
       if (!session) {
         socket.emit('session:error', { message: 'No active session' });
         return;
       }
 
+      await finishSession(session, 'client_stop');
+    });
+
+    /**
+     * Reattach to a streaming session after reconnecting
+     * Client sends: { sessionId: string } (from session:started), then continues with audio:chunk
+     */
+    socket.on('session:resume', (data: { sessionId?: string }) => {
       try {
-        // Stop the speech analyzer
-        await session.analyzer.stop();
-
-        const duration = Date.now() - session.startTime;
-
-        // If we have a transcript, run analysis
-        if (session.fullTranscript.trim().length > 0) {
-          // Calculate pronunciation stats from accumulated words
-          const avgPronunciationScore = session.pronunciationScores.length > 0
-            ? Math.round(session.pronunciationScores.reduce((a, b) => a + b, 0) / session.pronunciationScores.length)
-            : 0;
-
-          const mispronounced = session.allWords.filter(w => w.accuracy < 70);
-          const avgWordAccuracy = session.allWords.length > 0
-            ? Math.round(session.allWords.reduce((sum, w) => sum + w.accuracy, 0) / session.allWords.length)
-            : 0;
-
-          // For read_practice mode, skip OpenAI and focus on pronunciation feedback
-          if (session.mode === 'read_practice') {
-            socket.emit('session:analyzing', {
-              message: 'Calculating pronunciation results...',
-            });
+        const userId = getSocketUser(socket).id;
+        const session = data?.sessionId ? sessions.get(data.sessionId) : undefined;
 
-            // Generate feedback based on pronunciation scores
-            const tips: string[] = [];
-            if (mispronounced.length > 0) {
-              const uniqueWords = [...new Set(mispronounced.map(w => w.word))];
-              tips.push(`Focus on these words: ${uniqueWords.slice(0, 5).join(', ')}`);
-            }
-            if (avgWordAccuracy < 70) {
-              tips.push('Try slowing down and pronouncing each syllable clearly');
-            }
-            if (session.wordCount < 100 && duration > 30000) {
-              tips.push('Try to maintain a steady reading pace');
-            }
+        if (!session || session.userId !== userId) {
+          socket.emit('session:error', { code: 'SESSION_NOT_FOUND', message: 'Session not found or expired' });
+          return;
+        }
 
-            socket.emit('session:complete', {
-              transcript: session.fullTranscript,
-              duration,
-              wordCount: session.wordCount,
-              wpm: calculateWPM(session.wordCount, duration),
-              fillerCount: session.fillerCount,
-              fillerBreakdown: session.fillerBreakdown,
-              pronunciation: {
-                overallScore: avgPronunciationScore || avgWordAccuracy,
-                wordAccuracy: avgWordAccuracy,
-                mispronouncedCount: mispronounced.length,
-                mispronouncedWords: mispronounced.map(w => ({ word: w.word, accuracy: w.accuracy })),
-              },
-              allWords: session.allWords,
-              communication: tips.length > 0 ? { coachingTip: tips.join('. ') + '.' } : undefined,
-            });
-          } else {
-            // For other modes, run full OpenAI communication analysis
-            socket.emit('session:analyzing', {
-              message: 'Analyzing communication...',
-            });
+        const current = sessionFor(socket);
+        if (current && current !== session) {
+          socket.emit('session:error', { code: 'SESSION_EXISTS', message: 'Another session is active on this connection' });
+          return;
+        }
 
-            try {
-              const communicationAnalyzer = new OpenAICommunicationAnalyzer({
-                apiKey: config.openaiKey,
-                model: config.openaiModel,
-              });
-
-              const communicationResult = await communicationAnalyzer.analyze(
-                session.fullTranscript,
-                {
-                  mode: session.mode,
-                  promptText: session.promptText,
-                }
-              );
-
-              // Send final results
-              socket.emit('session:complete', {
-                transcript: session.fullTranscript,
-                duration,
-                wordCount: session.wordCount,
-                wpm: calculateWPM(session.wordCount, duration),
-                fillerCount: session.fillerCount,
-                fillerBreakdown: session.fillerBreakdown,
-                communication: communicationResult,
-                pronunciation: {
-                  overallScore: avgPronunciationScore || avgWordAccuracy,
-                  wordAccuracy: avgWordAccuracy,
-                  mispronouncedCount: mispronounced.length,
-                },
-                allWords: session.allWords,
-              });
-            } catch (analysisError) {
-              logger.error('Communication analysis failed', {
-                socketId: socket.id,
-                error: analysisError instanceof Error ? analysisError.message : String(analysisError),
-              });
-
-              // Send partial results without communication analysis
-              socket.emit('session:complete', {
-                transcript: session.fullTranscript,
-                duration,
-                wordCount: session.wordCount,
-                wpm: calculateWPM(session.wordCount, duration),
-                fillerCount: session.fillerCount,
-                fillerBreakdown: session.fillerBreakdown,
-                pronunciation: {
-                  overallScore: avgPronunciationScore || avgWordAccuracy,
-                  wordAccuracy: avgWordAccuracy,
-                  mispronouncedCount: mispronounced.length,
-                },
-                allWords: session.allWords,
-              });
-            }
-          }
-        } else {
-          socket.emit('session:complete', {
-            transcript: '',
-            duration,
-            wordCount: 0,
-            wpm: 0,
-            fillerCount: 0,
-            fillerBreakdown: {},
-            error: 'No speech detected',
-          });
+        if (session.disconnectedAt !== undefined) {
+          clearTimeout(session.graceTimer);
+          session.graceTimer = undefined;
+          session.pausedMs += Date.now() - session.disconnectedAt;
+          session.disconnectedAt = undefined;
+        } else if (session.socket.id !== socket.id) {
+          // Reconnected before the old connection was noticed as dropped - take it over
+          socketSessions.delete(session.socket.id);
         }
 
-        sessions.delete(socket.id);
-        logger.info('Session completed', { socketId: socket.id, duration });
+        session.socket = socket;
+        session.lastChunkAt = Date.now();
+        socketSessions.set(socket.id, session.sessionId);
+
+        const durationMs = activeDuration(session);
+        socket.emit('session:resumed', {
+          sessionId: session.sessionId,
+          transcript: session.fullTranscript,
+          fillerCount: session.fillerCount,
+          fillerBreakdown: session.fillerBreakdown,
+          wordCount: session.wordCount,
+          wpm: sessionWPM(session, durationMs),
+          durationMs,
+          allWords: session.allWords,
+          alignment: sessionAlignment(session, false),
+          timestamp: Date.now(),
+        });
+
+        logger.info('Streaming session resumed', { socketId: socket.id, sessionId: session.sessionId });
       } catch (error) {
-        logger.error('Error stopping session', {
+        logger.error('Failed to resume session', {
           socketId: socket.id,
           error: error instanceof Error ? error.message : String(error),
         });
-        socket.emit('session:error', { message: 'Error stopping session' });
-        sessions.delete(socket.id);
+        socket.emit('session:error', { message: 'Failed to resume streaming session' });
       }
     });
 
     /**
      * Handle disconnect
      */
-    socket.on('disconnect', async () => {
-      const session = sessions.get(socket.id);
+    socket.on('disconnect', () => {
+      const session = sessionFor(socket);
+      socketSessions.delete(socket.id);
+
+      // Keep the session (and its recognizer) for a while so a reconnecting client can resume it
       if (session) {
-        try {
-          await session.analyzer.stop();
-        } catch {
-          // Ignore cleanup errors
-        }
-        sessions.delete(socket.id);
+        session.disconnectedAt = Date.now();
+        session.graceTimer = setTimeout(() => {
+          logger.info('Streaming session not resumed - discarding', { sessionId: session.sessionId });
+          void discard(session);
+        }, services.resumeGraceMs);
       }
-      logger.info('Client disconnected', { socketId: socket.id });
+      logger.info('Client disconnected', { socketId: socket.id, sessionId: session?.sessionId });
     });
   });
 }
@@ -2,18 +2,29 @@ import { Server as HttpServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
 import { setupStreamingHandlers } from './handlers/streaming.js';
 import { setupChatHandlers } from './handlers/chat.js';
+import { createSocketAuthMiddleware } from './auth.js';
 import { ChatService } from '../../services/ChatService.js';
+import type { SessionHistoryService } from '../../services/SessionHistoryService.js';
+import type { EntitlementService } from '../../services/EntitlementService.js';
+import type { ShadowingService } from '../../services/ShadowingService.js';
+import type {
+  IAudioStore,
+  ICommunicationAnalyzer,
+  ITokenVerifier,
+  StreamingSpeechAnalyzerFactory,
+} from '../../domain/interfaces/index.js';
 import { logger } from '../../shared/utils/logger.js';
 
-interface WebSocketConfig {
-  azureKey: string;
-  azureRegion: string;
-  openaiKey: string;
-  openaiModel: string;
-}
-
 interface WebSocketServices {
+  createStreamingAnalyzer: StreamingSpeechAnalyzerFactory;
+  streamingResumeGraceMs: number;
+  communicationAnalyzer: ICommunicationAnalyzer;
   chatService?: ChatService;
+  sessionHistoryService?: SessionHistoryService;
+  entitlementService?: EntitlementService;
+  audioStore?: IAudioStore;
+  shadowingService?: ShadowingService;
+  tokenVerifier?: ITokenVerifier | null;
 }
 
 /**
@@ -21,8 +32,7 @@ interface WebSocketServices {
  */
 export function initializeWebSocket(
   httpServer: HttpServer,
-  config: WebSocketConfig,
-  services?: WebSocketServices
+  services: WebSocketServices
 ): SocketIOServer {
   const io = new SocketIOServer(httpServer, {
     cors: {
@@ -35,11 +45,22 @@ export function initializeWebSocket(
     pingInterval: 25000,
   });
 
+  // Verify the access token on every connection handshake
+  io.use(createSocketAuthMiddleware(services.tokenVerifier ?? null));
+
   // Set up streaming handlers (existing - for 1-min workout)
-  setupStreamingHandlers(io, config);
+  setupStreamingHandlers(io, {
+    createStreamingAnalyzer: services.createStreamingAnalyzer,
+    resumeGraceMs: services.streamingResumeGraceMs,
+    communicationAnalyzer: services.communicationAnalyzer,
+    sessionHistoryService: services.sessionHistoryService,
+    entitlementService: services.entitlementService,
+    audioStore: services.audioStore,
+    shadowingService: services.shadowingService,
+  });
 
   // Set up chat handlers (new - for voice chat)
-  if (services?.chatService) {
+  if (services.chatService) {
     setupChatHandlers(io, services.chatService);
   }
 
@@ -4,17 +4,62 @@ const envSchema = z.object({
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   PORT: z.string().transform(Number).default('3001'),
 
-  // Azure Speech Services
-  AZURE_SPEECH_KEY: z.string().min(1, 'Azure Speech key is required'),
-  AZURE_SPEECH_REGION: z.string().min(1, 'Azure Speech region is required'),
+  // Providers ('mock' runs offline with deterministic results - no cloud credentials needed)
+  SPEECH_PROVIDER: z.enum(['azure', 'mock']).default('azure'),
+  LLM_PROVIDER: z.enum(['openai', 'mock']).default('openai'),
 
-  // OpenAI
-  OPENAI_API_KEY: z.string().min(1, 'OpenAI API key is required'),
+  // Azure Speech Services (required when SPEECH_PROVIDER=azure)
+  AZURE_SPEECH_KEY: z.string().optional(),
+  AZURE_SPEECH_REGION: z.string().optional(),
+
+  // OpenAI or an OpenAI-compatible server (key required when LLM_PROVIDER=openai,
+  // unless OPENAI_BASE_URL points at a server that doesn't check it)
+  OPENAI_API_KEY: z.string().optional(),
+  OPENAI_BASE_URL: z.string().url().optional(),
   OPENAI_MODEL: z.string().default('gpt-4o'),
 
-  // Database (optional for POC)
+  // Per-task models (fall back to OPENAI_MODEL)
+  OPENAI_ANALYSIS_MODEL: z.string().optional(),
+  OPENAI_CHAT_MODEL: z.string().optional(),
+  OPENAI_SUMMARY_MODEL: z.string().optional(),
+  OPENAI_NEWS_MODEL: z.string().optional(),
+
+  // Streaming sessions survive a disconnect this long, waiting for session:resume
+  STREAMING_RESUME_GRACE_SECONDS: z.string().transform(Number).default('30'),
+
+  // Audio decoding (ffmpeg is needed for MP3, M4A/AAC, 3GP and WebM/Opus uploads)
+  FFMPEG_PATH: z.string().default('ffmpeg'),
+
+  // Where users' recordings are kept for playback
+  AUDIO_STORAGE_DIR: z.string().default('data/recordings'),
+
+  // Synthesized speech cache (chat replies and article audio), least recently used evicted first
+  TTS_CACHE_DIR: z.string().default('data/tts-cache'),
+  TTS_CACHE_MAX_MB: z.string().transform(Number).default('500'),
+  TTS_CACHE_MAX_AGE_DAYS: z.string().transform(Number).default('30'),
+
+  // Voice for users who have not chosen one (an Azure neural voice from the catalog)
+  TTS_DEFAULT_VOICE: z.string().default('en-US-JennyNeural'),
+
+  // Supabase auth (JWT secret from Project Settings -> API)
+  SUPABASE_JWT_SECRET: z.string().optional(),
+  SUPABASE_JWT_AUDIENCE: z.string().default('authenticated'),
+
+  // Entitlements (trial length must match check_user_access in Supabase)
+  TRIAL_DURATION_DAYS: z.string().transform(Number).default('7'),
+
+  // Database (optional - conversations are kept in memory when unset)
   DATABASE_URL: z.string().optional(),
-});
+}).refine(
+  (env) => env.NODE_ENV !== 'production' || !!env.SUPABASE_JWT_SECRET,
+  { message: 'SUPABASE_JWT_SECRET is required in production', path: ['SUPABASE_JWT_SECRET'] }
+).refine(
+  (env) => env.SPEECH_PROVIDER !== 'azure' || (!!env.AZURE_SPEECH_KEY && !!env.AZURE_SPEECH_REGION),
+  { message: 'Azure Speech key and region are required (or set SPEECH_PROVIDER=mock)', path: ['AZURE_SPEECH_KEY'] }
+).refine(
+  (env) => env.LLM_PROVIDER !== 'openai' || !!env.OPENAI_API_KEY || !!env.OPENAI_BASE_URL,
+  { message: 'OpenAI API key is required (or set OPENAI_BASE_URL or LLM_PROVIDER=mock)', path: ['OPENAI_API_KEY'] }
+);
 
 export type Env = z.infer<typeof envSchema>;
 
@@ -0,0 +1,13 @@
+import type { AccessStatus } from '../../shared/types/index.js';
+
+/**
+ * Source of a user's entitlement (trial, purchase or subscription state)
+ * Implementations: SupabaseAccessStatusProvider, StaticAccessStatusProvider
+ */
+export interface IAccessStatusProvider {
+  /**
+   * Resolve the access status of a verified user
+   * @param userId Supabase user ID
+   */
+  getAccessStatus(userId: string): Promise<AccessStatus>;
+}
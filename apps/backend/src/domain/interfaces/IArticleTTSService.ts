@@ -0,0 +1,65 @@
+import type { Readable } from 'node:stream';
+import type { AudioByteRange } from './IAudioStore.js';
+import type { TTSCachedAudio } from './ITTSCache.js';
+import type { WordBoundary } from './ITTSService.js';
+
+/**
+ * Synthesized article audio with word timings
+ */
+export interface ArticleTTSResult {
+  audioBuffer: Buffer;
+  wordBoundaries: WordBoundary[];
+  durationMs: number;
+}
+
+/**
+ * Variant of an article's audio
+ */
+export interface ArticleAudioOptions {
+  /**
+   * Playback speed (1 = normal, 0.75 = three quarters speed)
+   */
+  rate?: number;
+
+  /**
+   * Voice ID from the catalog (default voice if omitted)
+   */
+  voiceId?: string;
+}
+
+/**
+ * Text-to-speech for news articles (MP3 audio, cached by content)
+ * Audio is looked up by the text itself, so it survives article ID changes on news refresh.
+ * Slower or faster variants are synthesized at that speech rate (not time-stretched),
+ * and each rate and voice has its own word boundaries.
+ * Implementations: ArticleTTSService (over CachedTTSService)
+ */
+export interface IArticleTTSService {
+  /**
+   * Get cached audio and word boundaries for a text
+   * @returns null if it has not been synthesized yet (or was evicted)
+   */
+  getCached(text: string, options?: ArticleAudioOptions): Promise<ArticleTTSResult | null>;
+
+  /**
+   * Size and type of cached audio, for streaming it from the cache without loading it
+   * @returns null if it has not been synthesized yet (or was evicted)
+   */
+  statCached(text: string, options?: ArticleAudioOptions): Promise<TTSCachedAudio | null>;
+
+  /**
+   * Stream audio found by statCached, or part of it
+   */
+  createAudioStream(key: string, range?: AudioByteRange): Readable;
+
+  /**
+   * Whether a text has been synthesized in a variant, without loading the audio
+   */
+  isCached(text: string, options?: ArticleAudioOptions): Promise<boolean>;
+
+  /**
+   * Synthesize a text, or return it from the cache
+   * @param text Article (or sentence) text
+   */
+  synthesizeAndCache(text: string, options?: ArticleAudioOptions): Promise<ArticleTTSResult>;
+}
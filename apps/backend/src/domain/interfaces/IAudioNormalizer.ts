@@ -0,0 +1,42 @@
+/**
+ * Audio containers recognized from their leading bytes
+ */
+export type AudioContainer = 'wav' | 'mp3' | 'aac' | 'mp4' | 'webm' | 'ogg';
+
+/**
+ * Audio converted to the format the speech analyzers expect
+ */
+export interface NormalizedAudio {
+  /**
+   * Raw 16kHz, 16-bit little-endian, mono PCM (no header)
+   */
+  pcm: Buffer;
+
+  /**
+   * Duration of the PCM in milliseconds
+   */
+  durationMs: number;
+
+  /**
+   * Container the upload arrived in
+   */
+  sourceContainer: AudioContainer;
+}
+
+/**
+ * Audio normalizer interface - converts uploaded recordings to analyzer PCM
+ * Implementations: FfmpegAudioNormalizer
+ */
+export interface IAudioNormalizer {
+  /**
+   * Detect the container/codec, decode, downmix and resample to 16kHz mono PCM
+   * @param audio Uploaded audio file contents
+   * @throws AudioProcessingError if the input is empty, unsupported or undecodable
+   */
+  normalize(audio: Buffer): Promise<NormalizedAudio>;
+
+  /**
+   * Check whether compressed formats can be decoded
+   */
+  isReady(): Promise<boolean>;
+}
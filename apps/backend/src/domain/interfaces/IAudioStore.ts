@@ -0,0 +1,51 @@
+import type { Readable } from 'node:stream';
+
+/**
+ * A stored recording as served back to clients
+ */
+export interface StoredAudio {
+  size: number;
+  contentType: string;
+  modifiedAt: Date;
+}
+
+/**
+ * Inclusive byte range, as in an HTTP Range header
+ */
+export interface AudioByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Audio store interface - keeps users' recordings for playback
+ * Keys are slash-separated paths such as `sessions/<sessionId>` or
+ * `conversations/<conversationId>/<messageId>`.
+ * Implementations: LocalAudioStore
+ */
+export interface IAudioStore {
+  /**
+   * Save a normalized recording (16kHz, 16-bit, mono PCM), replacing any previous one
+   */
+  saveRecording(key: string, pcm: Buffer): Promise<void>;
+
+  /**
+   * Size and type of a stored recording, or null if there is none
+   */
+  stat(key: string): Promise<StoredAudio | null>;
+
+  /**
+   * Stream a stored recording, or part of it
+   */
+  createReadStream(key: string, range?: AudioByteRange): Readable;
+
+  /**
+   * Delete every recording under a key prefix (e.g. a whole conversation)
+   */
+  deleteAll(prefix: string): Promise<void>;
+
+  /**
+   * Check that recordings can be written
+   */
+  isReady(): Promise<boolean>;
+}
@@ -9,6 +9,7 @@ import type {
 /**
  * Interface for managing chat conversations with LLM
  * Handles conversation generation and summary creation
+ * Implementations: ChatConversationManager, MockChatConversationManager
  */
 export interface IChatConversationManager {
   /**
@@ -0,0 +1,73 @@
+import type { PaginatedResponse, PaginationParams } from '../../shared/types/index.js';
+import type {
+  ChatMessage,
+  Conversation,
+  ConversationListItem,
+  ConversationSummary,
+} from '../../shared/types/chat.js';
+
+/**
+ * Repository interface for chat conversation persistence
+ * Implementations: InMemoryConversationRepository, PostgresConversationRepository
+ */
+export interface IConversationRepository {
+  /**
+   * Create or update a conversation record (without touching its messages)
+   * @param conversation Conversation to persist
+   */
+  save(conversation: Conversation): Promise<void>;
+
+  /**
+   * Append messages to a conversation, preserving their order
+   * @param conversationId Conversation the messages belong to
+   * @param messages Messages to append
+   */
+  appendMessages(conversationId: string, messages: ChatMessage[]): Promise<void>;
+
+  /**
+   * Update the running duration of a conversation that has not ended
+   * Touches nothing else, so a turn finishing after the conversation ended
+   * cannot overwrite its end time or summary.
+   * @param conversationId Conversation to update
+   * @param durationSeconds Duration so far
+   */
+  updateDuration(conversationId: string, durationSeconds: number): Promise<void>;
+
+  /**
+   * Store the final summary and mark the conversation as ended
+   * @param conversationId Conversation to update
+   * @param summary Generated summary
+   * @param endedAt End timestamp (ms since epoch)
+   * @param durationSeconds Total conversation duration
+   */
+  saveSummary(
+    conversationId: string,
+    summary: ConversationSummary,
+    endedAt: number,
+    durationSeconds: number
+  ): Promise<void>;
+
+  /**
+   * Load a conversation with all of its messages
+   * @param conversationId Conversation ID
+   * @returns The conversation, or null if it does not exist
+   */
+  findById(conversationId: string): Promise<Conversation | null>;
+
+  /**
+   * List a user's conversations, most recent first
+   * @param userId Owner of the conversations
+   * @param pagination Page (1-based) and page size
+   */
+  findByUserId(
+    userId: string,
+    pagination: PaginationParams
+  ): Promise<PaginatedResponse<ConversationListItem>>;
+
+  /**
+   * Delete a conversation and all of its messages
+   * @param conversationId Conversation ID
+   * @returns true if a conversation was deleted
+   */
+  delete(conversationId: string): Promise<boolean>;
+}
@@ -0,0 +1,59 @@
+/**
+ * A chat message sent to the LLM
+ */
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Request for a JSON-mode chat completion
+ */
+export interface LLMJsonCompletionRequest {
+  /**
+   * Model name as known to the provider (e.g., 'gpt-4o')
+   */
+  model: string;
+
+  messages: LLMMessage[];
+
+  temperature?: number;
+
+  maxTokens?: number;
+}
+
+/**
+ * Request for a free-text answer grounded in a web search
+ */
+export interface LLMWebSearchRequest {
+  model: string;
+
+  /**
+   * Instructions and question for the model
+   */
+  input: string;
+}
+
+/**
+ * LLM client interface - abstraction over the completion API
+ * Lets analyzers run against OpenAI or any OpenAI-compatible server.
+ * Implementations: OpenAICompatibleLLMClient
+ */
+export interface ILLMClient {
+  /**
+   * Request a completion constrained to a JSON object
+   * @returns Raw JSON text, or null if the model returned no content
+   */
+  completeJson(request: LLMJsonCompletionRequest): Promise<string | null>;
+
+  /**
+   * Answer a prompt using the provider's web search tool
+   * @returns Concatenated output text (empty if none)
+   */
+  searchWeb(request: LLMWebSearchRequest): Promise<string>;
+
+  /**
+   * Check if the client is properly configured and ready
+   */
+  isReady(): Promise<boolean>;
+}
@@ -0,0 +1,13 @@
+import type { NewsArticle } from '../../shared/types/index.js';
+
+/**
+ * Source of the daily news articles
+ * Implementations: OpenAINewsProvider, MockNewsProvider
+ */
+export interface INewsProvider {
+  /**
+   * Fetch and summarize today's articles
+   * @returns Articles ready for read-aloud practice
+   */
+  fetchArticles(): Promise<NewsArticle[]>;
+}
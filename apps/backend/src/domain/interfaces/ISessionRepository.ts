@@ -0,0 +1,38 @@
+import type {
+  PaginatedResponse,
+  PaginationParams,
+  SessionListItem,
+  SessionMode,
+  SessionRecord,
+} from '../../shared/types/index.js';
+
+/**
+ * Repository interface for completed practice sessions
+ * Implementations: InMemorySessionRepository, PostgresSessionRepository
+ */
+export interface ISessionRepository {
+  /**
+   * Persist a completed session
+   * @param session Session to store
+   */
+  save(session: SessionRecord): Promise<void>;
+
+  /**
+   * Load a single session with transcript and word details
+   * @param sessionId Session ID
+   * @returns The session, or null if it does not exist
+   */
+  findById(sessionId: string): Promise<SessionRecord | null>;
+
+  /**
+   * List a user's sessions, most recent first
+   * @param userId Owner of the sessions
+   * @param pagination Page (1-based) and page size
+   * @param mode Optional mode filter
+   */
+  findByUserId(
+    userId: string,
+    pagination: PaginationParams,
+    mode?: SessionMode
+  ): Promise<PaginatedResponse<SessionListItem>>;
+}
@@ -36,8 +36,8 @@ export interface AssessmentOptions {
  */
 export interface ISpeechAnalyzer {
   /**
-   * Analyze pronunciation from audio buffer
-   * @param audio Audio buffer (WAV format recommended)
+   * Analyze pronunciation of a whole recording (every utterance, not just the first)
+   * @param audio Audio buffer (16kHz mono PCM or WAV)
    * @param options Assessment options
    * @returns Pronunciation analysis result
    */
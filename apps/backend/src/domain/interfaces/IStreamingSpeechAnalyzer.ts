@@ -0,0 +1,72 @@
+/**
+ * Interim or final recognition result of a streaming session
+ */
+export interface StreamingResult {
+  type: 'recognizing' | 'recognized' | 'pronunciation';
+  transcript: string;
+  isFinal: boolean;
+  timestamp: number;
+  pronunciationScore?: number;
+  words?: Array<{
+    word: string;
+    accuracy: number;
+    // Position from the start of the session audio
+    offsetMs?: number;
+    durationMs?: number;
+  }>;
+}
+
+/**
+ * Options for starting a streaming session
+ */
+export interface StreamingStartOptions {
+  locale?: string;
+  enablePronunciation?: boolean;
+
+  /**
+   * Text being read aloud - switches pronunciation assessment to scripted mode
+   */
+  referenceText?: string;
+}
+
+/**
+ * Real-time speech recognition over pushed PCM audio (16kHz, 16-bit, mono)
+ * Emits 'result', 'error' and 'ended' events.
+ * Implementations: AzureStreamingSpeechAnalyzer, MockStreamingSpeechAnalyzer
+ */
+export interface IStreamingSpeechAnalyzer {
+  /**
+   * Start a recognition session
+   */
+  start(options?: StreamingStartOptions): Promise<void>;
+
+  /**
+   * Push a chunk of raw PCM audio
+   */
+  writeAudioChunk(chunk: Buffer): void;
+
+  /**
+   * Stop recognition and flush pending results
+   */
+  stop(): Promise<void>;
+
+  /**
+   * Whether a session is currently running
+   */
+  readonly running: boolean;
+
+  /**
+   * Audio pushed but not yet processed by the recognizer, in ms
+   * Grows when the recognizer falls behind the incoming stream.
+   */
+  readonly backlogMs: number;
+
+  on(event: 'result', listener: (result: StreamingResult) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+  on(event: 'ended', listener: () => void): this;
+}
+
+/**
+ * Creates one analyzer per streaming session
+ */
+export type StreamingSpeechAnalyzerFactory = () => IStreamingSpeechAnalyzer;
@@ -0,0 +1,83 @@
+import type { Readable } from 'node:stream';
+import type { AudioByteRange, StoredAudio } from './IAudioStore.js';
+import type { TTSSynthesizeResult } from './ITTSService.js';
+
+/**
+ * A cache entry's audio, to be streamed without loading it
+ */
+export interface TTSCachedAudio extends StoredAudio {
+  /**
+   * Cache key, for createReadStream
+   */
+  key: string;
+}
+
+/**
+ * Size and housekeeping counters of a TTS cache
+ */
+export interface TTSCacheStats {
+  entries: number;
+  totalBytes: number;
+  maxBytes: number;
+
+  /**
+   * Entries removed to stay under maxBytes (least recently used first)
+   */
+  evictions: number;
+
+  /**
+   * Entries removed for going unused longer than the maximum age
+   */
+  expirations: number;
+}
+
+/**
+ * Cache statistics with the synthesis requests it served and missed
+ */
+export interface TTSCacheMetrics extends TTSCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+/**
+ * Content-addressed store of synthesized speech (audio and word boundaries together)
+ * Keys are hashes of everything that determines the audio - see CachedTTSService.
+ * Implementations: FileTTSCache
+ */
+export interface ITTSCache {
+  /**
+   * Get an entry and mark it as recently used
+   * @returns null if there is no entry, or it expired
+   */
+  get(key: string): Promise<TTSSynthesizeResult | null>;
+
+  /**
+   * Whether an unexpired entry exists, without reading it or changing its recency
+   */
+  has(key: string): Promise<boolean>;
+
+  /**
+   * Size, type and write time of an entry's audio, and mark it as recently used
+   * @returns null if there is no entry, or it expired
+   */
+  stat(key: string): Promise<TTSCachedAudio | null>;
+
+  /**
+   * Stream an entry's audio, or part of it
+   */
+  createReadStream(key: string, range?: AudioByteRange): Readable;
+
+  /**
+   * Store an entry, evicting least recently used entries beyond the size limit
+   */
+  set(key: string, value: TTSSynthesizeResult): Promise<void>;
+
+  /**
+   * Remove entries unused for longer than the maximum age
+   * @returns Number of entries removed
+   */
+  cleanup(): Promise<number>;
+
+  getStats(): TTSCacheStats;
+}
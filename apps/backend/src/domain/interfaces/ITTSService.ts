@@ -1,5 +1,20 @@
 import type { Result } from '../../shared/types/index.js';
 
+/**
+ * Timing of a single spoken word, for read-along highlighting
+ */
+export interface WordBoundary {
+  word: string;
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * Encoding of synthesized audio
+ * mp3: 16kHz mono 128kbps MP3; wav: 16kHz mono 16-bit PCM WAV
+ */
+export type TTSOutputFormat = 'mp3' | 'wav';
+
 /**
  * Options for text-to-speech synthesis
  */
@@ -18,16 +33,28 @@ export interface TTSSynthesizeOptions {
    * Pitch adjustment (-100% to 100%)
    */
   pitch?: number;
+
+  /**
+   * Audio encoding (default: mp3)
+   */
+  format?: TTSOutputFormat;
 }
 
 /**
  * Result of TTS synthesis
  */
 export interface TTSSynthesizeResult {
+  audio: Buffer;
+
+  /**
+   * MIME type of the audio (matches the requested format)
+   */
+  contentType: string;
+
   /**
-   * Base64 encoded audio
+   * Timing of each spoken word (and punctuation mark) in the audio
    */
-  audioBase64: string;
+  wordBoundaries: WordBoundary[];
 
   /**
    * Duration of audio in milliseconds
@@ -37,13 +64,14 @@ export interface TTSSynthesizeResult {
 
 /**
  * Interface for Text-to-Speech service
+ * Implementations: AzureTTSService, MockTTSService
  */
 export interface ITTSService {
   /**
    * Synthesize text to speech
    * @param text Text to synthesize
    * @param options Synthesis options
-   * @returns Audio buffer as base64 and duration
+   * @returns Audio with word boundaries and duration
    */
   synthesize(
     text: string,
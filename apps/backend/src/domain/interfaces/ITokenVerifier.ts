@@ -0,0 +1,15 @@
+import type { AuthenticatedUser } from '../../shared/types/index.js';
+
+/**
+ * Access token verifier interface - abstraction for the auth provider
+ * Implementations: SupabaseTokenVerifier
+ */
+export interface ITokenVerifier {
+  /**
+   * Verify an access token and extract the caller's identity
+   * @param token Raw bearer token
+   * @returns The verified user
+   * @throws AuthenticationError if the token is missing, invalid or expired
+   */
+  verify(token: string): Promise<AuthenticatedUser>;
+}
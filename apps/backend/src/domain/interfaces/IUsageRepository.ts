@@ -0,0 +1,25 @@
+import type { UsageMetric } from '../../shared/types/index.js';
+
+/**
+ * Repository interface for daily usage counters
+ * Implementations: InMemoryUsageRepository, PostgresUsageRepository
+ */
+export interface IUsageRepository {
+  /**
+   * Get a user's usage for one day
+   * @param userId Owner of the usage
+   * @param day UTC day (YYYY-MM-DD)
+   * @returns Amount used per metric (0 for metrics with no usage)
+   */
+  getDailyUsage(userId: string, day: string): Promise<Record<UsageMetric, number>>;
+
+  /**
+   * Add to a user's usage counter for one day
+   * @param userId Owner of the usage
+   * @param day UTC day (YYYY-MM-DD)
+   * @param metric Metered resource
+   * @param amount Amount to add
+   * @returns The new total for the day
+   */
+  increment(userId: string, day: string, metric: UsageMetric, amount: number): Promise<number>;
+}
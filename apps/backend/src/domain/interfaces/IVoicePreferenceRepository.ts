@@ -0,0 +1,20 @@
+/**
+ * Repository interface for a user's chosen TTS voice
+ * Implementations: InMemoryVoicePreferenceRepository, PostgresVoicePreferenceRepository
+ */
+export interface IVoicePreferenceRepository {
+  /**
+   * Get a user's preferred voice
+   * @param userId Supabase user ID
+   * @returns Voice ID, or null if the user has not chosen one
+   */
+  getPreferredVoice(userId: string): Promise<string | null>;
+
+  /**
+   * Save a user's preferred voice
+   * @param userId Supabase user ID
+   * @param voiceId Voice ID from the catalog
+   * @returns false if the user has no profile to save it on
+   */
+  setPreferredVoice(userId: string, voiceId: string): Promise<boolean>;
+}
@@ -3,6 +3,32 @@ export type {
   AssessmentOptions,
 } from './ISpeechAnalyzer.js';
 
+export type {
+  IAudioNormalizer,
+  AudioContainer,
+  NormalizedAudio,
+} from './IAudioNormalizer.js';
+
+export type {
+  IAudioStore,
+  StoredAudio,
+  AudioByteRange,
+} from './IAudioStore.js';
+
+export type {
+  IStreamingSpeechAnalyzer,
+  StreamingResult,
+  StreamingStartOptions,
+  StreamingSpeechAnalyzerFactory,
+} from './IStreamingSpeechAnalyzer.js';
+
+export type {
+  ILLMClient,
+  LLMMessage,
+  LLMJsonCompletionRequest,
+  LLMWebSearchRequest,
+} from './ILLMClient.js';
+
 export type {
   ICommunicationAnalyzer,
   AnalysisContext,
@@ -14,6 +40,49 @@ export type {
 
 export type {
   ITTSService,
+  TTSOutputFormat,
   TTSSynthesizeOptions,
   TTSSynthesizeResult,
+  WordBoundary,
 } from './ITTSService.js';
+
+export type {
+  ITTSCache,
+  TTSCachedAudio,
+  TTSCacheStats,
+  TTSCacheMetrics,
+} from './ITTSCache.js';
+
+export type {
+  IArticleTTSService,
+  ArticleAudioOptions,
+  ArticleTTSResult,
+} from './IArticleTTSService.js';
+
+export type {
+  INewsProvider,
+} from './INewsProvider.js';
+
+export type {
+  IConversationRepository,
+} from './IConversationRepository.js';
+
+export type {
+  ISessionRepository,
+} from './ISessionRepository.js';
+
+export type {
+  ITokenVerifier,
+} from './ITokenVerifier.js';
+
+export type {
+  IAccessStatusProvider,
+} from './IAccessStatusProvider.js';
+
+export type {
+  IUsageRepository,
+} from './IUsageRepository.js';
+
+export type {
+  IVoicePreferenceRepository,
+} from './IVoicePreferenceRepository.js';
@@ -10,13 +10,75 @@ const __dirname = path.dirname(__filename);
 
 import { loadEnv } from './config/index.js';
 import { createApiRouter } from './api/routes/index.js';
-import { errorHandler } from './api/middleware/index.js';
+import { errorHandler, createAuthMiddleware } from './api/middleware/index.js';
 import { initializeWebSocket } from './api/websocket/index.js';
-import { AnalysisService, NewsService, ChatService } from './services/index.js';
-import { AzureSpeechAnalyzer, AzureTTSService, AzureChatTTSService } from './infrastructure/speech/index.js';
-import { OpenAICommunicationAnalyzer, ChatConversationManager } from './infrastructure/llm/index.js';
+import {
+  AnalysisService,
+  NewsService,
+  CachedTTSService,
+  ArticleTTSService,
+  ChatService,
+  SessionHistoryService,
+  EntitlementService,
+  ReadingComparisonService,
+  ShadowingService,
+  VoiceService,
+} from './services/index.js';
+import {
+  AzureSpeechAnalyzer,
+  AzureStreamingSpeechAnalyzer,
+  AzureTTSService,
+} from './infrastructure/speech/index.js';
+import {
+  OpenAICompatibleLLMClient,
+  OpenAICommunicationAnalyzer,
+  ChatConversationManager,
+  OpenAINewsProvider,
+} from './infrastructure/llm/index.js';
+import {
+  MockSpeechAnalyzer,
+  MockStreamingSpeechAnalyzer,
+  MockCommunicationAnalyzer,
+  MockChatConversationManager,
+  MockTTSService,
+  MockNewsProvider,
+} from './infrastructure/mock/index.js';
+import { FfmpegAudioNormalizer } from './infrastructure/audio/index.js';
+import { LocalAudioStore, FileTTSCache } from './infrastructure/storage/index.js';
+import {
+  createPostgresPool,
+  InMemoryConversationRepository,
+  PostgresConversationRepository,
+  InMemorySessionRepository,
+  PostgresSessionRepository,
+  InMemoryUsageRepository,
+  PostgresUsageRepository,
+  InMemoryVoicePreferenceRepository,
+  PostgresVoicePreferenceRepository,
+} from './infrastructure/database/index.js';
+import {
+  SupabaseTokenVerifier,
+  SupabaseAccessStatusProvider,
+  StaticAccessStatusProvider,
+} from './infrastructure/auth/index.js';
+import type {
+  IAccessStatusProvider,
+  IChatConversationManager,
+  ICommunicationAnalyzer,
+  IConversationRepository,
+  INewsProvider,
+  ISessionRepository,
+  ISpeechAnalyzer,
+  ITTSService,
+  ITokenVerifier,
+  IUsageRepository,
+  IVoicePreferenceRepository,
+  StreamingSpeechAnalyzerFactory,
+} from './domain/interfaces/index.js';
 import { logger } from './shared/utils/logger.js';
 
+const TTS_CACHE_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
 async function main() {
   // Load and validate environment
   const env = loadEnv();
@@ -26,71 +88,193 @@ async function main() {
     port: env.PORT,
   });
 
-  // Initialize infrastructure
-  const speechAnalyzer = new AzureSpeechAnalyzer({
-    subscriptionKey: env.AZURE_SPEECH_KEY,
-    region: env.AZURE_SPEECH_REGION,
+  // Initialize authentication (disabled in development when no JWT secret is set)
+  let tokenVerifier: ITokenVerifier | null = null;
+
+  if (env.SUPABASE_JWT_SECRET) {
+    tokenVerifier = new SupabaseTokenVerifier({
+      jwtSecret: env.SUPABASE_JWT_SECRET,
+      audience: env.SUPABASE_JWT_AUDIENCE,
+    });
+  } else {
+    logger.warn('SUPABASE_JWT_SECRET not set - authentication is disabled, all requests run as anonymous');
+  }
+
+  // Initialize persistence (Postgres when DATABASE_URL is set, in-memory otherwise)
+  let conversationRepository: IConversationRepository;
+  let sessionRepository: ISessionRepository;
+  let usageRepository: IUsageRepository;
+  let accessStatusProvider: IAccessStatusProvider;
+  let voicePreferenceRepository: IVoicePreferenceRepository;
+
+  if (env.DATABASE_URL) {
+    const pool = createPostgresPool(env.DATABASE_URL);
+    const postgresConversations = new PostgresConversationRepository(pool);
+    const postgresSessions = new PostgresSessionRepository(pool);
+    const postgresUsage = new PostgresUsageRepository(pool);
+    await postgresConversations.initialize();
+    await postgresSessions.initialize();
+    await postgresUsage.initialize();
+    conversationRepository = postgresConversations;
+    sessionRepository = postgresSessions;
+    usageRepository = postgresUsage;
+    accessStatusProvider = new SupabaseAccessStatusProvider(pool, { trialDays: env.TRIAL_DURATION_DAYS });
+    voicePreferenceRepository = new PostgresVoicePreferenceRepository(pool);
+    logger.info('Using Postgres persistence');
+  } else {
+    conversationRepository = new InMemoryConversationRepository();
+    sessionRepository = new InMemorySessionRepository();
+    usageRepository = new InMemoryUsageRepository();
+    accessStatusProvider = new StaticAccessStatusProvider();
+    voicePreferenceRepository = new InMemoryVoicePreferenceRepository();
+    logger.warn('DATABASE_URL not set - conversations and sessions are stored in memory only');
+  }
+
+  // Entitlements need a real identity - without auth every caller would share one quota
+  let entitlementService: EntitlementService | undefined;
+
+  if (tokenVerifier) {
+    entitlementService = new EntitlementService(accessStatusProvider, usageRepository);
+  } else {
+    logger.warn('Authentication disabled - access checks and usage quotas are not enforced');
+  }
+
+  // Initialize speech providers (Azure, or deterministic mocks for offline development)
+  let speechAnalyzer: ISpeechAnalyzer;
+  let createStreamingAnalyzer: StreamingSpeechAnalyzerFactory;
+  let ttsService: ITTSService;
+
+  if (env.SPEECH_PROVIDER === 'azure') {
+    // Key and region are guaranteed by env validation for the azure provider
+    const azureConfig = {
+      subscriptionKey: env.AZURE_SPEECH_KEY!,
+      region: env.AZURE_SPEECH_REGION!,
+    };
+    speechAnalyzer = new AzureSpeechAnalyzer(azureConfig);
+    createStreamingAnalyzer = () => new AzureStreamingSpeechAnalyzer(azureConfig);
+    ttsService = new AzureTTSService({ ...azureConfig, defaultVoice: env.TTS_DEFAULT_VOICE });
+  } else {
+    speechAnalyzer = new MockSpeechAnalyzer();
+    createStreamingAnalyzer = () => new MockStreamingSpeechAnalyzer();
+    ttsService = new MockTTSService();
+    logger.warn('SPEECH_PROVIDER=mock - pronunciation scores and TTS audio are simulated');
+  }
+
+  // Initialize LLM providers (OpenAI-compatible API, or deterministic mocks for offline development)
+  let communicationAnalyzer: ICommunicationAnalyzer;
+  let chatConversationManager: IChatConversationManager;
+  let newsProvider: INewsProvider;
+
+  if (env.LLM_PROVIDER === 'openai') {
+    const llmClient = new OpenAICompatibleLLMClient({
+      // The SDK requires a key even for servers that ignore it
+      apiKey: env.OPENAI_API_KEY || 'unused',
+      baseURL: env.OPENAI_BASE_URL,
+    });
+    communicationAnalyzer = new OpenAICommunicationAnalyzer(llmClient, {
+      model: env.OPENAI_ANALYSIS_MODEL ?? env.OPENAI_MODEL,
+    });
+    chatConversationManager = new ChatConversationManager(llmClient, {
+      chatModel: env.OPENAI_CHAT_MODEL ?? env.OPENAI_MODEL,
+      summaryModel: env.OPENAI_SUMMARY_MODEL ?? env.OPENAI_MODEL,
+    });
+    newsProvider = new OpenAINewsProvider(llmClient, {
+      model: env.OPENAI_NEWS_MODEL ?? env.OPENAI_MODEL,
+    });
+    if (env.OPENAI_BASE_URL) {
+      logger.info('Using OpenAI-compatible API', { baseURL: env.OPENAI_BASE_URL });
+    }
+  } else {
+    communicationAnalyzer = new MockCommunicationAnalyzer();
+    chatConversationManager = new MockChatConversationManager();
+    newsProvider = new MockNewsProvider();
+    logger.warn('LLM_PROVIDER=mock - feedback, chat replies and news are simulated');
+  }
+
+  // Initialize services
+  const audioNormalizer = new FfmpegAudioNormalizer({ ffmpegPath: env.FFMPEG_PATH });
+  const audioStore = new LocalAudioStore({ baseDir: env.AUDIO_STORAGE_DIR });
+
+  // Chat replies and article audio share one content-addressed TTS cache
+  const ttsCache = new FileTTSCache({
+    baseDir: env.TTS_CACHE_DIR,
+    maxBytes: env.TTS_CACHE_MAX_MB * 1024 * 1024,
+    maxAgeMs: env.TTS_CACHE_MAX_AGE_DAYS * 24 * 60 * 60 * 1000,
   });
+  const cachedTTSService = new CachedTTSService(ttsService, ttsCache);
 
-  const communicationAnalyzer = new OpenAICommunicationAnalyzer({
-    apiKey: env.OPENAI_API_KEY,
-    model: env.OPENAI_MODEL,
+  // Voice catalog and each user's voice choice (Supabase profiles.preferred_voice)
+  const voiceService = new VoiceService(cachedTTSService, voicePreferenceRepository, {
+    defaultVoiceId: env.TTS_DEFAULT_VOICE,
   });
 
-  // Initialize services
   const analysisService = new AnalysisService(
     speechAnalyzer,
-    communicationAnalyzer
+    communicationAnalyzer,
+    audioNormalizer,
+    entitlementService,
+    audioStore
   );
 
-  // Initialize News and TTS services
-  const newsService = new NewsService({
-    openaiApiKey: env.OPENAI_API_KEY,
-    openaiModel: env.OPENAI_MODEL,
-  });
+  const sessionHistoryService = new SessionHistoryService(sessionRepository);
 
-  const ttsService = new AzureTTSService({
-    subscriptionKey: env.AZURE_SPEECH_KEY,
-    region: env.AZURE_SPEECH_REGION,
-  });
+  // Initialize News service (article audio shares the chat TTS provider and cache)
+  const newsService = new NewsService(newsProvider);
+  const articleTTSService = new ArticleTTSService(cachedTTSService, voiceService.getDefaultVoiceId());
 
-  // Initialize Chat feature services
-  const chatTTSService = new AzureChatTTSService({
-    subscriptionKey: env.AZURE_SPEECH_KEY,
-    region: env.AZURE_SPEECH_REGION,
-  });
+  // Model vs. learner comparison of Listen & Read attempts
+  const readingComparisonService = new ReadingComparisonService(
+    sessionHistoryService,
+    newsService,
+    articleTTSService,
+    entitlementService,
+    voiceService
+  );
 
-  const chatConversationManager = new ChatConversationManager({
-    apiKey: env.OPENAI_API_KEY,
-    model: env.OPENAI_MODEL,
-  });
+  // Sentence-by-sentence model audio for shadowing practice
+  const shadowingService = new ShadowingService(newsService, articleTTSService, entitlementService, voiceService);
 
+  // Initialize Chat feature services
   const chatService = new ChatService(
     speechAnalyzer,
-    chatTTSService,
+    cachedTTSService,
     chatConversationManager,
+    conversationRepository,
+    audioNormalizer,
     {
       maxDurationSeconds: 120, // 2 minutes
       maxTurns: 10,
-      voiceId: 'en-US-JennyNeural',
-    }
+      voiceId: voiceService.getDefaultVoiceId(),
+    },
+    entitlementService,
+    audioStore,
+    voiceService
   );
 
   // Check service health
   const health = await analysisService.healthCheck();
   const chatHealth = await chatService.healthCheck();
+  const audioStoreReady = await audioStore.isReady();
 
   logger.info('Service health check', {
     speech: health.speech ? 'ready' : 'not ready',
     communication: health.communication ? 'ready' : 'not ready',
+    audioDecoder: health.audioDecoder ? 'ready' : 'not ready',
     chat: chatHealth.healthy ? 'ready' : 'not ready',
+    audioStore: audioStoreReady ? 'ready' : 'not ready',
   });
 
   if (!health.speech) {
     logger.warn('Azure Speech service not ready - check AZURE_SPEECH_KEY and AZURE_SPEECH_REGION');
   }
   if (!health.communication) {
-    logger.warn('OpenAI service not ready - check OPENAI_API_KEY');
+    logger.warn('OpenAI service not ready - check OPENAI_API_KEY and OPENAI_BASE_URL');
+  }
+  if (!health.audioDecoder) {
+    logger.warn('ffmpeg not found - only WAV uploads can be analyzed (check FFMPEG_PATH)');
+  }
+  if (!audioStoreReady) {
+    logger.warn('Recordings directory not writable - playback will be unavailable (check AUDIO_STORAGE_DIR)');
   }
   if (!chatHealth.healthy) {
     logger.warn('Chat service not ready', { services: chatHealth.services });
@@ -106,11 +290,21 @@ async function main() {
   // Serve static files (test UI)
   app.use(express.static(path.join(__dirname, '../public')));
 
+  const authenticate = createAuthMiddleware(tokenVerifier);
+
   // API routes
   app.use('/api', createApiRouter({
     analysisService,
+    authenticate,
     newsService,
-    ttsService,
+    ttsService: articleTTSService,
+    chatService,
+    sessionHistoryService,
+    entitlementService,
+    audioStore,
+    readingComparisonService,
+    shadowingService,
+    voiceService,
   }));
 
   // Health check endpoint (outside /api)
@@ -118,17 +312,25 @@ async function main() {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
   });
 
-  // Debug endpoint to check config (remove in production)
-  app.get('/debug/config', (_req, res) => {
-    res.json({
-      hasOpenAIKey: !!env.OPENAI_API_KEY,
-      openAIKeyLength: env.OPENAI_API_KEY?.length || 0,
-      openAIKeyPrefix: env.OPENAI_API_KEY?.substring(0, 10) || 'none',
-      hasAzureKey: !!env.AZURE_SPEECH_KEY,
-      azureRegion: env.AZURE_SPEECH_REGION,
-      model: env.OPENAI_MODEL,
+  // Debug endpoints, for signed-in developers outside production
+  if (env.NODE_ENV !== 'production') {
+    // Which providers are configured (never any part of a key)
+    app.get('/debug/config', authenticate, (_req, res) => {
+      res.json({
+        hasOpenAIKey: !!env.OPENAI_API_KEY,
+        speechProvider: env.SPEECH_PROVIDER,
+        llmProvider: env.LLM_PROVIDER,
+        hasAzureKey: !!env.AZURE_SPEECH_KEY,
+        azureRegion: env.AZURE_SPEECH_REGION,
+        model: env.OPENAI_MODEL,
+      });
     });
-  });
+
+    // TTS cache hit rate and size
+    app.get('/debug/tts-cache', authenticate, (_req, res) => {
+      res.json(cachedTTSService.getMetrics());
+    });
+  }
 
   // Error handler (must be last)
   app.use(errorHandler);
@@ -137,18 +339,28 @@ async function main() {
   const httpServer = createServer(app);
 
   // Initialize WebSocket server
-  initializeWebSocket(
-    httpServer,
-    {
-      azureKey: env.AZURE_SPEECH_KEY,
-      azureRegion: env.AZURE_SPEECH_REGION,
-      openaiKey: env.OPENAI_API_KEY,
-      openaiModel: env.OPENAI_MODEL,
-    },
-    {
-      chatService,
-    }
-  );
+  initializeWebSocket(httpServer, {
+    createStreamingAnalyzer,
+    streamingResumeGraceMs: env.STREAMING_RESUME_GRACE_SECONDS * 1000,
+    communicationAnalyzer,
+    chatService,
+    sessionHistoryService,
+    entitlementService,
+    audioStore,
+    shadowingService,
+    tokenVerifier,
+  });
+
+  // Expire unused TTS audio at startup and then hourly
+  const cleanupTTSCache = () => {
+    ttsCache.cleanup().catch((error) => {
+      logger.error('TTS cache cleanup failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  };
+  cleanupTTSCache();
+  setInterval(cleanupTTSCache, TTS_CACHE_CLEANUP_INTERVAL_MS).unref();
 
   // Start server
   httpServer.listen(env.PORT, () => {
@@ -156,13 +368,27 @@ async function main() {
     logger.info('Available endpoints:');
     logger.info('  GET  /health');
     logger.info('  GET  /api');
+    logger.info('  GET  /api/sessions');
+    logger.info('  GET  /api/sessions/:id');
+    logger.info('  GET  /api/sessions/:id/audio');
+    logger.info('  GET  /api/sessions/:id/comparison');
     logger.info('  GET  /api/sessions/health');
     logger.info('  POST /api/sessions/analyze');
     logger.info('  POST /api/sessions/analyze-transcript');
     logger.info('  GET  /api/news');
     logger.info('  GET  /api/news/:id');
     logger.info('  GET  /api/news/:id/audio');
+    logger.info('  GET  /api/news/:id/audio/variants');
+    logger.info('  GET  /api/news/:id/shadowing');
+    logger.info('  GET  /api/news/:id/shadowing/:index/audio');
     logger.info('  POST /api/news/refresh');
+    logger.info('  GET  /api/voices');
+    logger.info('  PUT  /api/voices/preference');
+    logger.info('  GET  /api/voices/:id/sample');
+    logger.info('  GET  /api/conversations');
+    logger.info('  GET  /api/conversations/:id');
+    logger.info('  GET  /api/conversations/:id/messages/:messageId/audio');
+    logger.info('  DELETE /api/conversations/:id');
     logger.info('  WS   / (WebSocket for real-time streaming)');
     logger.info('  WS   chat:start, chat:audio, chat:end (Chat feature)');
   });
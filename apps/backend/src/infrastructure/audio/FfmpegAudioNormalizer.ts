@@ -0,0 +1,177 @@
+import { spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type {
+  AudioContainer,
+  IAudioNormalizer,
+  NormalizedAudio,
+} from '../../domain/interfaces/index.js';
+import { AudioProcessingError, ExternalServiceError } from '../../shared/errors/index.js';
+import { logger } from '../../shared/utils/logger.js';
+import { detectContainer, parseWav } from './formats.js';
+import { decodeToMono, pcm16DurationMs, resample, toPcm16, TARGET_SAMPLE_RATE } from './pcm.js';
+
+interface FfmpegAudioNormalizerConfig {
+  /**
+   * ffmpeg executable (default: 'ffmpeg' on PATH)
+   */
+  ffmpegPath: string;
+
+  /**
+   * Upper bound for one decode
+   */
+  timeoutMs: number;
+}
+
+const DEFAULT_CONFIG: FfmpegAudioNormalizerConfig = {
+  ffmpegPath: 'ffmpeg',
+  timeoutMs: 30 * 1000,
+};
+
+const SUPPORTED_FORMATS = 'WAV, MP3, M4A/AAC, 3GP or WebM/Opus';
+
+/**
+ * Audio normalizer for uploaded recordings
+ * Uncompressed WAV (any rate, bit depth and channel count) is converted in-process;
+ * compressed formats are decoded with ffmpeg.
+ */
+export class FfmpegAudioNormalizer implements IAudioNormalizer {
+  private config: FfmpegAudioNormalizerConfig;
+
+  constructor(config: Partial<FfmpegAudioNormalizerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async normalize(audio: Buffer): Promise<NormalizedAudio> {
+    if (!audio || audio.length === 0) {
+      throw new AudioProcessingError('Audio is empty');
+    }
+
+    const container = detectContainer(audio);
+    if (!container) {
+      throw new AudioProcessingError(`Unsupported audio format. Please send ${SUPPORTED_FORMATS} audio.`);
+    }
+
+    const pcm = (container === 'wav' && this.convertWav(audio)) || (await this.decodeWithFfmpeg(audio, container));
+    if (pcm.length === 0) {
+      throw new AudioProcessingError('Audio contains no samples');
+    }
+
+    const durationMs = pcm16DurationMs(pcm);
+    logger.debug('Audio normalized', { container, inputBytes: audio.length, durationMs });
+
+    return { pcm, durationMs, sourceContainer: container };
+  }
+
+  async isReady(): Promise<boolean> {
+    return new Promise((resolve) => {
+      const child = spawn(this.config.ffmpegPath, ['-version'], { stdio: 'ignore' });
+      child.on('error', () => resolve(false));
+      child.on('close', (code) => resolve(code === 0));
+    });
+  }
+
+  /**
+   * Convert uncompressed WAV without spawning a process
+   * @returns null if the WAV needs ffmpeg (compressed codec or unusual bit depth)
+   */
+  private convertWav(audio: Buffer): Buffer | null {
+    const wav = parseWav(audio);
+    if (!wav) {
+      return null;
+    }
+
+    // Already in the target format - just drop the header
+    if (
+      wav.encoding === 'pcm' &&
+      wav.sampleRate === TARGET_SAMPLE_RATE &&
+      wav.bitsPerSample === 16 &&
+      wav.channels === 1
+    ) {
+      return Buffer.from(wav.data.subarray(0, wav.data.length - (wav.data.length % 2)));
+    }
+
+    const mono = decodeToMono(wav);
+    if (!mono || wav.sampleRate <= 0) {
+      return null;
+    }
+
+    return toPcm16(resample(mono, wav.sampleRate));
+  }
+
+  /**
+   * Decode any container/codec ffmpeg understands to 16kHz mono PCM
+   * Input goes through a temp file because MP4/M4A can't be demuxed from a pipe
+   * when the index (moov atom) is at the end.
+   */
+  private async decodeWithFfmpeg(audio: Buffer, container: AudioContainer): Promise<Buffer> {
+    const inputPath = join(tmpdir(), `prospeaker-${randomUUID()}.${container}`);
+    await writeFile(inputPath, audio);
+
+    try {
+      return await this.runFfmpeg(inputPath, container);
+    } finally {
+      await unlink(inputPath).catch(() => undefined);
+    }
+  }
+
+  private runFfmpeg(inputPath: string, container: AudioContainer): Promise<Buffer> {
+    const args = [
+      '-hide_banner',
+      '-loglevel', 'error',
+      '-i', inputPath,
+      '-vn',
+      '-f', 's16le',
+      '-acodec', 'pcm_s16le',
+      '-ac', '1',
+      '-ar', String(TARGET_SAMPLE_RATE),
+      'pipe:1',
+    ];
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.config.ffmpegPath, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+      const chunks: Buffer[] = [];
+      let stderr = '';
+      let timedOut = false;
+      let failedToStart = false;
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGKILL');
+      }, this.config.timeoutMs);
+
+      child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        failedToStart = true;
+        // ffmpeg missing or not executable - a server problem, not a bad upload
+        reject(new ExternalServiceError('ffmpeg', error));
+      });
+
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        if (failedToStart) {
+          return;
+        }
+
+        if (timedOut) {
+          reject(new AudioProcessingError('Audio decoding timed out'));
+          return;
+        }
+        if (code !== 0) {
+          logger.warn('ffmpeg failed to decode audio', { container, code, stderr: stderr.substring(0, 500) });
+          reject(new AudioProcessingError(`Could not decode ${container.toUpperCase()} audio. The file may be corrupt.`));
+          return;
+        }
+
+        resolve(Buffer.concat(chunks));
+      });
+    });
+  }
+}
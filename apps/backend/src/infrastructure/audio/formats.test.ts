@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { detectContainer, encodeWav, parseWav } from './formats.js';
+
+/**
+ * RIFF/WAVE file from raw chunks
+ */
+function riff(...chunks: Array<[string, Buffer]>): Buffer {
+  const parts = chunks.flatMap(([id, body]) => {
+    const header = Buffer.alloc(8);
+    header.write(id, 0, 'ascii');
+    header.writeUInt32LE(body.length, 4);
+    // Chunks are padded to an even length
+    return body.length % 2 ? [header, body, Buffer.alloc(1)] : [header, body];
+  });
+  const head = Buffer.from('RIFF\0\0\0\0WAVE', 'ascii');
+  return Buffer.concat([head, ...parts]);
+}
+
+function fmt(formatTag: number, channels: number, sampleRate: number, bitsPerSample: number, subFormat?: number): Buffer {
+  const body = Buffer.alloc(subFormat === undefined ? 16 : 40);
+  body.writeUInt16LE(formatTag, 0);
+  body.writeUInt16LE(channels, 2);
+  body.writeUInt32LE(sampleRate, 4);
+  body.writeUInt16LE(bitsPerSample, 14);
+  if (subFormat !== undefined) {
+    body.writeUInt16LE(subFormat, 24);
+  }
+  return body;
+}
+
+describe('detectContainer', () => {
+  const withMagic = (magic: Buffer) => Buffer.concat([magic, Buffer.alloc(16)]);
+
+  it('recognizes containers by their magic bytes', () => {
+    expect(detectContainer(encodeWav(Buffer.alloc(4), 16000))).toBe('wav');
+    expect(detectContainer(withMagic(Buffer.from('\0\0\0\x20ftypM4A ', 'latin1')))).toBe('mp4');
+    expect(detectContainer(withMagic(Buffer.from([0x1a, 0x45, 0xdf, 0xa3])))).toBe('webm');
+    expect(detectContainer(withMagic(Buffer.from('OggS', 'ascii')))).toBe('ogg');
+    expect(detectContainer(withMagic(Buffer.from('ID3', 'ascii')))).toBe('mp3');
+  });
+
+  it('tells MP3 frames apart from ADTS AAC', () => {
+    expect(detectContainer(withMagic(Buffer.from([0xff, 0xfb])))).toBe('mp3');
+    expect(detectContainer(withMagic(Buffer.from([0xff, 0xf1])))).toBe('aac');
+  });
+
+  it('returns null for unknown or short input', () => {
+    expect(detectContainer(Buffer.from('RIFF', 'ascii'))).toBeNull();
+    expect(detectContainer(Buffer.alloc(32))).toBeNull();
+  });
+});
+
+describe('parseWav', () => {
+  it('reads what encodeWav writes', () => {
+    const pcm = Buffer.from([1, 2, 3, 4, 5, 6]);
+    expect(parseWav(encodeWav(pcm, 22050, 1))).toEqual({
+      encoding: 'pcm',
+      sampleRate: 22050,
+      channels: 1,
+      bitsPerSample: 16,
+      data: pcm,
+    });
+  });
+
+  it('skips unknown chunks, including odd-sized ones', () => {
+    const data = Buffer.from([9, 9, 9, 9]);
+    const wav = riff(['fmt ', fmt(1, 2, 44100, 16)], ['LIST', Buffer.from('abc')], ['data', data]);
+    expect(parseWav(wav)).toMatchObject({ channels: 2, sampleRate: 44100, data });
+  });
+
+  it('reads float and extensible formats', () => {
+    const data = Buffer.alloc(8);
+    expect(parseWav(riff(['fmt ', fmt(3, 1, 48000, 32)], ['data', data]))?.encoding).toBe('float');
+    expect(parseWav(riff(['fmt ', fmt(0xfffe, 1, 48000, 24, 1)], ['data', data]))).toMatchObject({
+      encoding: 'pcm',
+      bitsPerSample: 24,
+    });
+  });
+
+  it('rejects compressed codecs and data before fmt', () => {
+    const data = Buffer.alloc(8);
+    expect(parseWav(riff(['fmt ', fmt(0x11, 1, 8000, 4)], ['data', data]))).toBeNull(); // IMA ADPCM
+    expect(parseWav(riff(['data', data], ['fmt ', fmt(1, 1, 8000, 16)]))).toBeNull();
+  });
+
+  it('reads to the end when the data size was never filled in', () => {
+    const wav = encodeWav(Buffer.alloc(100), 16000);
+    wav.writeUInt32LE(0xffffffff, 40);
+    expect(parseWav(wav)?.data.length).toBe(100);
+
+    wav.writeUInt32LE(0, 40);
+    expect(parseWav(wav)?.data.length).toBe(100);
+  });
+});
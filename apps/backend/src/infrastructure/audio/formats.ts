@@ -0,0 +1,124 @@
+import type { AudioContainer } from '../../domain/interfaces/index.js';
+
+// WAVE_FORMAT_* codes that can be decoded without ffmpeg
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * Sample layout and data of an uncompressed WAV file
+ */
+export interface WavInfo {
+  encoding: 'pcm' | 'float';
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  data: Buffer;
+}
+
+/**
+ * Identify the container from its magic bytes
+ * @returns null if the input is not a recognized audio container
+ */
+export function detectContainer(audio: Buffer): AudioContainer | null {
+  if (audio.length < 12) {
+    return null;
+  }
+
+  const ascii = (start: number, end: number) => audio.toString('ascii', start, end);
+
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') {
+    return 'wav';
+  }
+  // ISO base media (M4A/MP4, and 3GP from Android's default recorder)
+  if (ascii(4, 8) === 'ftyp') {
+    return 'mp4';
+  }
+  // EBML header (WebM/Matroska)
+  if (audio.readUInt32BE(0) === 0x1a45dfa3) {
+    return 'webm';
+  }
+  if (ascii(0, 4) === 'OggS') {
+    return 'ogg';
+  }
+  if (ascii(0, 3) === 'ID3') {
+    return 'mp3';
+  }
+  // MPEG audio frame sync: layer bits 00 mark an ADTS (AAC) header, anything else MP3
+  if (audio[0] === 0xff && (audio[1] & 0xe0) === 0xe0) {
+    return (audio[1] & 0x06) === 0 ? 'aac' : 'mp3';
+  }
+
+  return null;
+}
+
+/**
+ * Read the format and data chunks of a WAV file
+ * @returns null if the WAV uses a compressed codec (ADPCM, mu-law, ...) or is malformed
+ */
+export function parseWav(audio: Buffer): WavInfo | null {
+  let format: Omit<WavInfo, 'data'> | null = null;
+  let offset = 12; // Skip RIFF header
+
+  while (offset + 8 <= audio.length) {
+    const chunkId = audio.toString('ascii', offset, offset + 4);
+    const chunkSize = audio.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ' && body + 16 <= audio.length) {
+      let formatTag = audio.readUInt16LE(body);
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE && body + 26 <= audio.length) {
+        // The sub-format GUID starts with the real format tag
+        formatTag = audio.readUInt16LE(body + 24);
+      }
+      if (formatTag !== WAVE_FORMAT_PCM && formatTag !== WAVE_FORMAT_IEEE_FLOAT) {
+        return null;
+      }
+
+      format = {
+        encoding: formatTag === WAVE_FORMAT_PCM ? 'pcm' : 'float',
+        channels: audio.readUInt16LE(body + 2),
+        sampleRate: audio.readUInt32LE(body + 4),
+        bitsPerSample: audio.readUInt16LE(body + 14),
+      };
+    }
+
+    if (chunkId === 'data') {
+      if (!format) {
+        return null;
+      }
+      // Recorders that stream to disk may leave the size at 0 or 0xFFFFFFFF
+      const end = chunkSize === 0 || body + chunkSize > audio.length ? audio.length : body + chunkSize;
+      return { ...format, data: audio.subarray(body, end) };
+    }
+
+    // Chunks are word-aligned
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+}
+
+/**
+ * Wrap 16-bit little-endian PCM in a WAV header (canonical 44-byte layout)
+ */
+export function encodeWav(pcm: Buffer, sampleRate: number, channels = 1): Buffer {
+  const header = Buffer.alloc(44);
+  const blockAlign = channels * 2;
+
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(WAVE_FORMAT_PCM, 20);
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(pcm.length, 40);
+
+  return Buffer.concat([header, pcm]);
+}
@@ -0,0 +1 @@
+export { FfmpegAudioNormalizer } from './FfmpegAudioNormalizer.js';
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { WavInfo } from './formats.js';
+import { decodeToMono, pcm16DurationMs, resample, toPcm16 } from './pcm.js';
+
+function wav(data: Buffer, bitsPerSample: number, channels = 1, encoding: WavInfo['encoding'] = 'pcm'): WavInfo {
+  return { encoding, sampleRate: 16000, channels, bitsPerSample, data };
+}
+
+describe('decodeToMono', () => {
+  it('scales integer samples to [-1, 1]', () => {
+    const data = Buffer.alloc(6);
+    data.writeInt16LE(16384, 0);
+    data.writeInt16LE(-32768, 2);
+    data.writeInt16LE(0, 4);
+    expect(Array.from(decodeToMono(wav(data, 16))!)).toEqual([0.5, -1, 0]);
+  });
+
+  it('treats 8-bit samples as unsigned', () => {
+    expect(Array.from(decodeToMono(wav(Buffer.from([128, 0, 192]), 8))!)).toEqual([0, -1, 0.5]);
+  });
+
+  it('decodes 24-bit and float samples', () => {
+    const pcm24 = Buffer.alloc(3);
+    pcm24.writeIntLE(-4194304, 0, 3);
+    expect(Array.from(decodeToMono(wav(pcm24, 24))!)).toEqual([-0.5]);
+
+    const float = Buffer.alloc(4);
+    float.writeFloatLE(0.25, 0);
+    expect(Array.from(decodeToMono(wav(float, 32, 1, 'float'))!)).toEqual([0.25]);
+  });
+
+  it('averages channels', () => {
+    const data = Buffer.alloc(4);
+    data.writeInt16LE(16384, 0); // Left
+    data.writeInt16LE(0, 2); // Right
+    expect(Array.from(decodeToMono(wav(data, 16, 2))!)).toEqual([0.25]);
+  });
+
+  it('returns null for bit depths it cannot decode', () => {
+    expect(decodeToMono(wav(Buffer.alloc(4), 12))).toBeNull();
+    expect(decodeToMono(wav(Buffer.alloc(4), 16, 1, 'float'))).toBeNull();
+  });
+});
+
+describe('resample', () => {
+  it('returns the input at the target rate', () => {
+    const samples = new Float32Array([0.1, 0.2]);
+    expect(resample(samples, 16000)).toBe(samples);
+  });
+
+  it('averages windows when downsampling', () => {
+    const samples = new Float32Array([0, 1, 1, 0.5, 0.5, 0.5]);
+    const output = resample(samples, 48000);
+    expect(output).toHaveLength(2);
+    expect(output[0]).toBeCloseTo(2 / 3);
+    expect(output[1]).toBe(0.5);
+  });
+
+  it('interpolates when upsampling', () => {
+    const samples = new Float32Array([0, 1]);
+    expect(Array.from(resample(samples, 8000))).toEqual([0, 0.5, 1, 1]);
+  });
+});
+
+describe('toPcm16', () => {
+  it('clamps and encodes samples', () => {
+    const pcm = toPcm16(new Float32Array([1, -1, 2, 0]));
+    expect([0, 2, 4, 6].map((offset) => pcm.readInt16LE(offset))).toEqual([32767, -32768, 32767, 0]);
+  });
+});
+
+describe('pcm16DurationMs', () => {
+  it('measures 16kHz mono PCM', () => {
+    expect(pcm16DurationMs(Buffer.alloc(32000))).toBe(1000);
+  });
+});
@@ -0,0 +1,105 @@
+import type { WavInfo } from './formats.js';
+
+export const TARGET_SAMPLE_RATE = 16000;
+
+/**
+ * Decode interleaved WAV samples and mix all channels down to mono in [-1, 1]
+ * @returns null for bit depths we don't decode
+ */
+export function decodeToMono(wav: WavInfo): Float32Array | null {
+  const bytesPerSample = wav.bitsPerSample / 8;
+  const readSample = getSampleReader(wav.encoding, wav.bitsPerSample);
+  if (!readSample || wav.channels < 1) {
+    return null;
+  }
+
+  const frameBytes = bytesPerSample * wav.channels;
+  const frameCount = Math.floor(wav.data.length / frameBytes);
+  const mono = new Float32Array(frameCount);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < wav.channels; channel++) {
+      sum += readSample(wav.data, frame * frameBytes + channel * bytesPerSample);
+    }
+    mono[frame] = sum / wav.channels;
+  }
+
+  return mono;
+}
+
+function getSampleReader(
+  encoding: WavInfo['encoding'],
+  bitsPerSample: number
+): ((data: Buffer, offset: number) => number) | null {
+  if (encoding === 'float') {
+    if (bitsPerSample === 32) return (data, offset) => data.readFloatLE(offset);
+    if (bitsPerSample === 64) return (data, offset) => data.readDoubleLE(offset);
+    return null;
+  }
+
+  switch (bitsPerSample) {
+    case 8:
+      // 8-bit WAV is unsigned
+      return (data, offset) => (data[offset] - 128) / 128;
+    case 16:
+      return (data, offset) => data.readInt16LE(offset) / 32768;
+    case 24:
+      return (data, offset) => data.readIntLE(offset, 3) / 8388608;
+    case 32:
+      return (data, offset) => data.readInt32LE(offset) / 2147483648;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resample mono audio to the target rate
+ * Downsampling averages each output window (a simple anti-aliasing filter);
+ * upsampling interpolates linearly.
+ */
+export function resample(samples: Float32Array, fromRate: number, toRate = TARGET_SAMPLE_RATE): Float32Array {
+  if (fromRate === toRate) {
+    return samples;
+  }
+
+  const ratio = fromRate / toRate;
+  const output = new Float32Array(Math.floor(samples.length / ratio));
+
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+
+    if (ratio > 1) {
+      const start = Math.floor(position);
+      const end = Math.min(samples.length, Math.floor(position + ratio));
+      let sum = 0;
+      for (let j = start; j < end; j++) {
+        sum += samples[j];
+      }
+      output[i] = sum / Math.max(1, end - start);
+    } else {
+      const index = Math.floor(position);
+      const next = Math.min(index + 1, samples.length - 1);
+      const fraction = position - index;
+      output[i] = samples[index] * (1 - fraction) + samples[next] * fraction;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Encode [-1, 1] samples as 16-bit little-endian PCM
+ */
+export function toPcm16(samples: Float32Array): Buffer {
+  const pcm = Buffer.alloc(samples.length * 2);
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]));
+    pcm.writeInt16LE(Math.round(clamped < 0 ? clamped * 32768 : clamped * 32767), i * 2);
+  }
+  return pcm;
+}
+
+export function pcm16DurationMs(pcm: Buffer, sampleRate = TARGET_SAMPLE_RATE): number {
+  return Math.round((pcm.length / 2 / sampleRate) * 1000);
+}
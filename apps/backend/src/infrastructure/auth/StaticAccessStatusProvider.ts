@@ -0,0 +1,14 @@
+import type { IAccessStatusProvider } from '../../domain/interfaces/index.js';
+import type { AccessStatus } from '../../shared/types/index.js';
+
+/**
+ * Grants every user the same access status
+ * Used when there is no Supabase database to read profiles from (local development).
+ */
+export class StaticAccessStatusProvider implements IAccessStatusProvider {
+  constructor(private status: AccessStatus = { hasAccess: true, accessType: 'trial' }) {}
+
+  async getAccessStatus(_userId: string): Promise<AccessStatus> {
+    return { ...this.status };
+  }
+}
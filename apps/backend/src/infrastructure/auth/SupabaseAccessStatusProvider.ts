@@ -0,0 +1,65 @@
+import type pg from 'pg';
+import type { IAccessStatusProvider } from '../../domain/interfaces/index.js';
+import type { AccessStatus } from '../../shared/types/index.js';
+
+interface ProfileAccessRow {
+  trial_started_at: Date | null;
+  purchased_at: Date | null;
+  subscription_expires_at: Date | null;
+}
+
+interface SupabaseAccessConfig {
+  trialDays?: number;
+}
+
+const DEFAULT_TRIAL_DAYS = 7;
+
+/**
+ * Resolves access from the Supabase `profiles` table
+ * Mirrors the check_user_access RPC the mobile app calls: a purchase grants
+ * lifetime access, an unexpired subscription grants access, otherwise the
+ * trial runs for trialDays from trial_started_at.
+ */
+export class SupabaseAccessStatusProvider implements IAccessStatusProvider {
+  private trialDays: number;
+
+  constructor(private pool: pg.Pool, config: SupabaseAccessConfig = {}) {
+    this.trialDays = config.trialDays ?? DEFAULT_TRIAL_DAYS;
+  }
+
+  async getAccessStatus(userId: string): Promise<AccessStatus> {
+    const { rows } = await this.pool.query<ProfileAccessRow>(
+      'SELECT trial_started_at, purchased_at, subscription_expires_at FROM profiles WHERE id = $1',
+      [userId]
+    );
+
+    // Profiles are created on sign-up; without one there is no trial to honour
+    const profile = rows[0];
+    if (!profile) {
+      return { hasAccess: false, accessType: 'trial_expired' };
+    }
+
+    if (profile.purchased_at) {
+      return { hasAccess: true, accessType: 'purchased' };
+    }
+
+    const now = Date.now();
+
+    if (profile.subscription_expires_at && profile.subscription_expires_at.getTime() > now) {
+      return {
+        hasAccess: true,
+        accessType: 'subscription',
+        expiresAt: profile.subscription_expires_at.getTime(),
+      };
+    }
+
+    const trialStartedAt = profile.trial_started_at?.getTime() ?? now;
+    const trialEndsAt = trialStartedAt + this.trialDays * 24 * 60 * 60 * 1000;
+
+    return {
+      hasAccess: trialEndsAt > now,
+      accessType: trialEndsAt > now ? 'trial' : 'trial_expired',
+      trialEndsAt,
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { AuthenticationError } from '../../shared/errors/index.js';
+import { signHS256 } from '../../shared/utils/jwt.js';
+import { SupabaseTokenVerifier } from './SupabaseTokenVerifier.js';
+
+const SECRET = 'test-secret';
+const verifier = new SupabaseTokenVerifier({ jwtSecret: SECRET });
+
+/**
+ * Unexpired access token with the given claims
+ */
+function token(claims: Record<string, unknown>): string {
+  return signHS256({ aud: 'authenticated', exp: Math.floor(Date.now() / 1000) + 60, ...claims }, SECRET);
+}
+
+describe('SupabaseTokenVerifier', () => {
+  it('returns the user of a valid access token', async () => {
+    await expect(verifier.verify(token({ sub: 'user-1', email: 'a@example.com', role: 'authenticated' })))
+      .resolves.toEqual({ id: 'user-1', email: 'a@example.com', role: 'authenticated' });
+  });
+
+  it('rejects tokens for another audience', async () => {
+    await expect(verifier.verify(token({ sub: 'user-1', aud: 'anon' }))).rejects.toThrow('Invalid token audience');
+  });
+
+  it('rejects tokens without a string subject', async () => {
+    await expect(verifier.verify(token({}))).rejects.toThrow(AuthenticationError);
+    await expect(verifier.verify(token({ sub: 42 }))).rejects.toThrow('Token has no subject');
+    await expect(verifier.verify(token({ sub: { id: 'user-1' } }))).rejects.toThrow('Token has no subject');
+  });
+});
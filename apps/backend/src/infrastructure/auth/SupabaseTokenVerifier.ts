@@ -0,0 +1,54 @@
+import type { ITokenVerifier } from '../../domain/interfaces/index.js';
+import type { AuthenticatedUser } from '../../shared/types/index.js';
+import { AuthenticationError } from '../../shared/errors/index.js';
+import { verifyHS256, JwtVerificationError } from '../../shared/utils/jwt.js';
+
+interface SupabaseAuthConfig {
+  jwtSecret: string;
+  audience?: string;
+}
+
+/**
+ * Verifies Supabase access tokens (HS256, signed with the project JWT secret)
+ */
+export class SupabaseTokenVerifier implements ITokenVerifier {
+  private config: SupabaseAuthConfig;
+
+  constructor(config: SupabaseAuthConfig) {
+    this.config = {
+      ...config,
+      audience: config.audience || 'authenticated',
+    };
+  }
+
+  async verify(token: string): Promise<AuthenticatedUser> {
+    if (!token) {
+      throw new AuthenticationError();
+    }
+
+    try {
+      const payload = verifyHS256(token, this.config.jwtSecret);
+
+      const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+      if (!audiences.includes(this.config.audience)) {
+        throw new AuthenticationError('Invalid token audience');
+      }
+
+      // The anon key is signed with the same secret but has no subject; claims are unchecked JSON
+      if (typeof payload.sub !== 'string' || !payload.sub) {
+        throw new AuthenticationError('Token has no subject');
+      }
+
+      return {
+        id: payload.sub,
+        email: payload.email,
+        role: payload.role,
+      };
+    } catch (error) {
+      if (error instanceof JwtVerificationError) {
+        throw new AuthenticationError(`Invalid access token: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,3 @@
+export { SupabaseTokenVerifier } from './SupabaseTokenVerifier.js';
+export { SupabaseAccessStatusProvider } from './SupabaseAccessStatusProvider.js';
+export { StaticAccessStatusProvider } from './StaticAccessStatusProvider.js';
@@ -0,0 +1,100 @@
+import type { IConversationRepository } from '../../domain/interfaces/index.js';
+import type { PaginatedResponse, PaginationParams } from '../../shared/types/index.js';
+import type {
+  ChatMessage,
+  Conversation,
+  ConversationListItem,
+  ConversationSummary,
+} from '../../shared/types/chat.js';
+import { NotFoundError } from '../../shared/errors/index.js';
+
+/**
+ * In-memory conversation repository
+ * Used when DATABASE_URL is not configured (local development, POC deployments).
+ * Data is lost on restart.
+ */
+export class InMemoryConversationRepository implements IConversationRepository {
+  private conversations: Map<string, Conversation> = new Map();
+
+  async save(conversation: Conversation): Promise<void> {
+    const existing = this.conversations.get(conversation.id);
+
+    // Messages are only ever added through appendMessages
+    this.conversations.set(conversation.id, {
+      ...structuredClone(conversation),
+      messages: existing ? existing.messages : [],
+    });
+  }
+
+  async appendMessages(conversationId: string, messages: ChatMessage[]): Promise<void> {
+    const conversation = this.getOrThrow(conversationId);
+    conversation.messages.push(...structuredClone(messages));
+  }
+
+  async updateDuration(conversationId: string, durationSeconds: number): Promise<void> {
+    const conversation = this.getOrThrow(conversationId);
+    if (conversation.endedAt === undefined) {
+      conversation.durationSeconds = durationSeconds;
+    }
+  }
+
+  async saveSummary(
+    conversationId: string,
+    summary: ConversationSummary,
+    endedAt: number,
+    durationSeconds: number
+  ): Promise<void> {
+    const conversation = this.getOrThrow(conversationId);
+    conversation.summary = structuredClone(summary);
+    conversation.endedAt = endedAt;
+    conversation.durationSeconds = durationSeconds;
+  }
+
+  async findById(conversationId: string): Promise<Conversation | null> {
+    const conversation = this.conversations.get(conversationId);
+    return conversation ? structuredClone(conversation) : null;
+  }
+
+  async findByUserId(
+    userId: string,
+    pagination: PaginationParams
+  ): Promise<PaginatedResponse<ConversationListItem>> {
+    const owned = [...this.conversations.values()]
+      .filter((c) => c.userId === userId)
+      .sort((a, b) => b.startedAt - a.startedAt);
+
+    const start = (pagination.page - 1) * pagination.pageSize;
+    const items = owned.slice(start, start + pagination.pageSize).map((c) => ({
+      id: c.id,
+      userId: c.userId,
+      mode: c.mode,
+      startedAt: c.startedAt,
+      endedAt: c.endedAt,
+      durationSeconds: c.durationSeconds,
+      messageCount: c.messages.length,
+      overallScore: c.summary?.overallScore,
+    }));
+
+    return {
+      items,
+      pagination: {
+        page: pagination.page,
+        pageSize: pagination.pageSize,
+        total: owned.length,
+        hasMore: start + items.length < owned.length,
+      },
+    };
+  }
+
+  async delete(conversationId: string): Promise<boolean> {
+    return this.conversations.delete(conversationId);
+  }
+
+  private getOrThrow(conversationId: string): Conversation {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      throw new NotFoundError('Conversation', conversationId);
+    }
+    return conversation;
+  }
+}
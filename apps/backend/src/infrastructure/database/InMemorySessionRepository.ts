@@ -0,0 +1,59 @@
+import type { ISessionRepository } from '../../domain/interfaces/index.js';
+import type {
+  PaginatedResponse,
+  PaginationParams,
+  SessionListItem,
+  SessionMode,
+  SessionRecord,
+} from '../../shared/types/index.js';
+
+/**
+ * In-memory session repository
+ * Used when DATABASE_URL is not configured. Data is lost on restart.
+ */
+export class InMemorySessionRepository implements ISessionRepository {
+  private sessions: Map<string, SessionRecord> = new Map();
+
+  async save(session: SessionRecord): Promise<void> {
+    this.sessions.set(session.id, structuredClone(session));
+  }
+
+  async findById(sessionId: string): Promise<SessionRecord | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? structuredClone(session) : null;
+  }
+
+  async findByUserId(
+    userId: string,
+    pagination: PaginationParams,
+    mode?: SessionMode
+  ): Promise<PaginatedResponse<SessionListItem>> {
+    const owned = [...this.sessions.values()]
+      .filter((s) => s.userId === userId && (!mode || s.mode === mode))
+      .sort((a, b) => b.createdAt - a.createdAt);
+
+    const start = (pagination.page - 1) * pagination.pageSize;
+    const items = owned.slice(start, start + pagination.pageSize).map((s) => ({
+      id: s.id,
+      userId: s.userId,
+      source: s.source,
+      mode: s.mode,
+      promptText: s.promptText,
+      durationMs: s.durationMs,
+      wordCount: s.wordCount,
+      wpm: s.wpm,
+      overallScore: s.overallScore,
+      createdAt: s.createdAt,
+    }));
+
+    return {
+      items,
+      pagination: {
+        page: pagination.page,
+        pageSize: pagination.pageSize,
+        total: owned.length,
+        hasMore: start + items.length < owned.length,
+      },
+    };
+  }
+}
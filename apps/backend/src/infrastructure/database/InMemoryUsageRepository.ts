@@ -0,0 +1,29 @@
+import type { IUsageRepository } from '../../domain/interfaces/index.js';
+import type { UsageMetric } from '../../shared/types/index.js';
+
+/**
+ * In-memory usage repository
+ * Used when DATABASE_URL is not configured. Counters reset on restart.
+ */
+export class InMemoryUsageRepository implements IUsageRepository {
+  private counters: Map<string, number> = new Map();
+
+  async getDailyUsage(userId: string, day: string): Promise<Record<UsageMetric, number>> {
+    return {
+      analysis_seconds: this.counters.get(this.key(userId, day, 'analysis_seconds')) ?? 0,
+      chat_turns: this.counters.get(this.key(userId, day, 'chat_turns')) ?? 0,
+      tts_generations: this.counters.get(this.key(userId, day, 'tts_generations')) ?? 0,
+    };
+  }
+
+  async increment(userId: string, day: string, metric: UsageMetric, amount: number): Promise<number> {
+    const key = this.key(userId, day, metric);
+    const total = (this.counters.get(key) ?? 0) + amount;
+    this.counters.set(key, total);
+    return total;
+  }
+
+  private key(userId: string, day: string, metric: UsageMetric): string {
+    return `${userId}:${day}:${metric}`;
+  }
+}
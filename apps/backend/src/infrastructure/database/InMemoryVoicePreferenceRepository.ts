@@ -0,0 +1,18 @@
+import type { IVoicePreferenceRepository } from '../../domain/interfaces/index.js';
+
+/**
+ * In-memory voice preference repository
+ * Used when DATABASE_URL is not configured. Preferences reset on restart.
+ */
+export class InMemoryVoicePreferenceRepository implements IVoicePreferenceRepository {
+  private preferences: Map<string, string> = new Map();
+
+  async getPreferredVoice(userId: string): Promise<string | null> {
+    return this.preferences.get(userId) ?? null;
+  }
+
+  async setPreferredVoice(userId: string, voiceId: string): Promise<boolean> {
+    this.preferences.set(userId, voiceId);
+    return true;
+  }
+}
@@ -0,0 +1,296 @@
+import type pg from 'pg';
+import type { IConversationRepository } from '../../domain/interfaces/index.js';
+import type { PaginatedResponse, PaginationParams } from '../../shared/types/index.js';
+import type {
+  ChatMessage,
+  ChatMode,
+  Conversation,
+  ConversationListItem,
+  ConversationSummary,
+  InlineCoaching,
+  MessageRole,
+  PronunciationFeedback,
+} from '../../shared/types/chat.js';
+import { NotFoundError } from '../../shared/errors/index.js';
+import { logger } from '../../shared/utils/logger.js';
+import { withTransaction } from './postgres.js';
+
+interface ConversationRow {
+  id: string;
+  user_id: string;
+  mode: ChatMode;
+  started_at: Date;
+  ended_at: Date | null;
+  duration_seconds: number;
+  summary: ConversationSummary | null;
+}
+
+interface ConversationListRow {
+  id: string;
+  user_id: string;
+  mode: ChatMode;
+  started_at: Date;
+  ended_at: Date | null;
+  duration_seconds: number;
+  overall_score: string | null;
+  message_count: string;
+}
+
+interface MessageRow {
+  id: string;
+  conversation_id: string;
+  role: MessageRole;
+  content: string;
+  audio_url: string | null;
+  pronunciation: PronunciationFeedback | null;
+  duration_ms: number | null;
+  inline_coaching: InlineCoaching | null;
+  timestamp: Date;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS conversations (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    mode VARCHAR(50) NOT NULL DEFAULT 'free_talk',
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    ended_at TIMESTAMPTZ,
+    duration_seconds INTEGER NOT NULL DEFAULT 0,
+    overall_score DECIMAL(5,2),
+    summary JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  );
+
+  CREATE TABLE IF NOT EXISTS conversation_messages (
+    id TEXT PRIMARY KEY,
+    conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL,
+    content TEXT NOT NULL,
+    audio_url TEXT,
+    pronunciation JSONB,
+    duration_ms INTEGER,
+    inline_coaching JSONB,
+    sequence_number INTEGER NOT NULL,
+    timestamp TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_conversations_user_date
+    ON conversations(user_id, started_at DESC);
+  CREATE INDEX IF NOT EXISTS idx_messages_sequence
+    ON conversation_messages(conversation_id, sequence_number);
+`;
+
+/**
+ * Postgres conversation repository
+ * Stores conversations and their messages in two tables (see SCHEMA)
+ */
+export class PostgresConversationRepository implements IConversationRepository {
+  constructor(private pool: pg.Pool) {}
+
+  /**
+   * Create tables and indexes if they do not exist yet
+   */
+  async initialize(): Promise<void> {
+    await this.pool.query(SCHEMA);
+    logger.info('Conversation tables ready');
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO conversations (id, user_id, mode, started_at, ended_at, duration_seconds, overall_score, summary)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (id) DO UPDATE SET
+         mode = EXCLUDED.mode,
+         ended_at = EXCLUDED.ended_at,
+         duration_seconds = EXCLUDED.duration_seconds,
+         overall_score = EXCLUDED.overall_score,
+         summary = EXCLUDED.summary`,
+      [
+        conversation.id,
+        conversation.userId,
+        conversation.mode,
+        new Date(conversation.startedAt),
+        conversation.endedAt ? new Date(conversation.endedAt) : null,
+        conversation.durationSeconds,
+        conversation.summary?.overallScore ?? null,
+        conversation.summary ? JSON.stringify(conversation.summary) : null,
+      ]
+    );
+  }
+
+  async appendMessages(conversationId: string, messages: ChatMessage[]): Promise<void> {
+    if (messages.length === 0) return;
+
+    await withTransaction(this.pool, async (client) => {
+      // Lock the conversation row so concurrent appends get distinct sequence numbers
+      const locked = await client.query(
+        'SELECT id FROM conversations WHERE id = $1 FOR UPDATE',
+        [conversationId]
+      );
+      if (locked.rowCount === 0) {
+        throw new NotFoundError('Conversation', conversationId);
+      }
+
+      const { rows } = await client.query<{ next: number }>(
+        `SELECT COALESCE(MAX(sequence_number), -1) + 1 AS next
+         FROM conversation_messages WHERE conversation_id = $1`,
+        [conversationId]
+      );
+      let sequence = Number(rows[0].next);
+
+      for (const message of messages) {
+        await client.query(
+          `INSERT INTO conversation_messages
+             (id, conversation_id, role, content, audio_url, pronunciation, duration_ms, inline_coaching, sequence_number, timestamp)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+          [
+            message.id,
+            conversationId,
+            message.role,
+            message.content,
+            message.audioUrl ?? null,
+            message.pronunciation ? JSON.stringify(message.pronunciation) : null,
+            message.durationMs ?? null,
+            message.inlineCoaching ? JSON.stringify(message.inlineCoaching) : null,
+            sequence++,
+            new Date(message.timestamp),
+          ]
+        );
+      }
+    });
+  }
+
+  async updateDuration(conversationId: string, durationSeconds: number): Promise<void> {
+    await this.pool.query(
+      'UPDATE conversations SET duration_seconds = $2 WHERE id = $1 AND ended_at IS NULL',
+      [conversationId, durationSeconds]
+    );
+  }
+
+  async saveSummary(
+    conversationId: string,
+    summary: ConversationSummary,
+    endedAt: number,
+    durationSeconds: number
+  ): Promise<void> {
+    const result = await this.pool.query(
+      `UPDATE conversations
+       SET summary = $2, overall_score = $3, ended_at = $4, duration_seconds = $5
+       WHERE id = $1`,
+      [
+        conversationId,
+        JSON.stringify(summary),
+        summary.overallScore,
+        new Date(endedAt),
+        durationSeconds,
+      ]
+    );
+
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Conversation', conversationId);
+    }
+  }
+
+  async findById(conversationId: string): Promise<Conversation | null> {
+    const conversationResult = await this.pool.query<ConversationRow>(
+      `SELECT id, user_id, mode, started_at, ended_at, duration_seconds, summary
+       FROM conversations WHERE id = $1`,
+      [conversationId]
+    );
+
+    const row = conversationResult.rows[0];
+    if (!row) return null;
+
+    const messagesResult = await this.pool.query<MessageRow>(
+      `SELECT id, conversation_id, role, content, audio_url, pronunciation, duration_ms, inline_coaching, timestamp
+       FROM conversation_messages
+       WHERE conversation_id = $1
+       ORDER BY sequence_number ASC`,
+      [conversationId]
+    );
+
+    return {
+      ...this.mapConversationRow(row),
+      messages: messagesResult.rows.map((m) => this.mapMessageRow(m)),
+    };
+  }
+
+  async findByUserId(
+    userId: string,
+    pagination: PaginationParams
+  ): Promise<PaginatedResponse<ConversationListItem>> {
+    const offset = (pagination.page - 1) * pagination.pageSize;
+
+    const [listResult, countResult] = await Promise.all([
+      this.pool.query<ConversationListRow>(
+        `SELECT c.id, c.user_id, c.mode, c.started_at, c.ended_at, c.duration_seconds, c.overall_score,
+                (SELECT COUNT(*) FROM conversation_messages m WHERE m.conversation_id = c.id) AS message_count
+         FROM conversations c
+         WHERE c.user_id = $1
+         ORDER BY c.started_at DESC
+         LIMIT $2 OFFSET $3`,
+        [userId, pagination.pageSize, offset]
+      ),
+      this.pool.query<{ total: string }>(
+        'SELECT COUNT(*) AS total FROM conversations WHERE user_id = $1',
+        [userId]
+      ),
+    ]);
+
+    // COUNT and DECIMAL columns come back from pg as strings
+    const total = Number(countResult.rows[0].total);
+    const items = listResult.rows.map((row): ConversationListItem => ({
+      id: row.id,
+      userId: row.user_id,
+      mode: row.mode,
+      startedAt: row.started_at.getTime(),
+      endedAt: row.ended_at ? row.ended_at.getTime() : undefined,
+      durationSeconds: row.duration_seconds,
+      messageCount: Number(row.message_count),
+      overallScore: row.overall_score !== null ? Number(row.overall_score) : undefined,
+    }));
+
+    return {
+      items,
+      pagination: {
+        page: pagination.page,
+        pageSize: pagination.pageSize,
+        total,
+        hasMore: offset + items.length < total,
+      },
+    };
+  }
+
+  async delete(conversationId: string): Promise<boolean> {
+    // Messages are removed by ON DELETE CASCADE
+    const result = await this.pool.query('DELETE FROM conversations WHERE id = $1', [conversationId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  private mapConversationRow(row: ConversationRow): Conversation {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      mode: row.mode,
+      startedAt: row.started_at.getTime(),
+      endedAt: row.ended_at ? row.ended_at.getTime() : undefined,
+      durationSeconds: row.duration_seconds,
+      messages: [],
+      summary: row.summary ?? undefined,
+    };
+  }
+
+  private mapMessageRow(row: MessageRow): ChatMessage {
+    return {
+      id: row.id,
+      conversationId: row.conversation_id,
+      role: row.role,
+      content: row.content,
+      audioUrl: row.audio_url ?? undefined,
+      timestamp: row.timestamp.getTime(),
+      pronunciation: row.pronunciation ?? undefined,
+      durationMs: row.duration_ms ?? undefined,
+      inlineCoaching: row.inline_coaching ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,207 @@
+import type pg from 'pg';
+import type { ISessionRepository } from '../../domain/interfaces/index.js';
+import type {
+  CommunicationResult,
+  PaginatedResponse,
+  ReadingFluencyReport,
+  PaginationParams,
+  SessionListItem,
+  SessionMode,
+  SessionPronunciationSummary,
+  SessionRecord,
+  SessionWord,
+  ShadowingReport,
+} from '../../shared/types/index.js';
+import { logger } from '../../shared/utils/logger.js';
+
+interface SessionRow {
+  id: string;
+  user_id: string;
+  source: SessionRecord['source'];
+  mode: SessionMode;
+  prompt_text: string | null;
+  reference_text: string | null;
+  article_id: string | null;
+  transcript: string;
+  all_words: SessionWord[];
+  pronunciation: SessionPronunciationSummary;
+  communication: Partial<CommunicationResult> | null;
+  duration_ms: number;
+  word_count: number;
+  wpm: number;
+  filler_count: number;
+  filler_breakdown: Record<string, number>;
+  reading_fluency: ReadingFluencyReport | null;
+  shadowing: ShadowingReport | null;
+  audio_url: string | null;
+  overall_score: string;
+  created_at: Date;
+}
+
+type SessionListRow = Pick<
+  SessionRow,
+  'id' | 'user_id' | 'source' | 'mode' | 'prompt_text' | 'duration_ms' | 'word_count' | 'wpm' | 'overall_score' | 'created_at'
+>;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS practice_sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    source VARCHAR(20) NOT NULL,
+    mode VARCHAR(50) NOT NULL,
+    prompt_text TEXT,
+    reference_text TEXT,
+    article_id TEXT,
+    transcript TEXT NOT NULL,
+    all_words JSONB NOT NULL DEFAULT '[]',
+    pronunciation JSONB NOT NULL,
+    communication JSONB,
+    duration_ms INTEGER NOT NULL DEFAULT 0,
+    word_count INTEGER NOT NULL DEFAULT 0,
+    wpm INTEGER NOT NULL DEFAULT 0,
+    filler_count INTEGER NOT NULL DEFAULT 0,
+    filler_breakdown JSONB NOT NULL DEFAULT '{}',
+    reading_fluency JSONB,
+    shadowing JSONB,
+    audio_url TEXT,
+    overall_score DECIMAL(5,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  );
+
+  -- Added after the table was first created
+  ALTER TABLE practice_sessions ADD COLUMN IF NOT EXISTS reading_fluency JSONB;
+  ALTER TABLE practice_sessions ADD COLUMN IF NOT EXISTS audio_url TEXT;
+  ALTER TABLE practice_sessions ADD COLUMN IF NOT EXISTS article_id TEXT;
+  ALTER TABLE practice_sessions ADD COLUMN IF NOT EXISTS shadowing JSONB;
+
+  CREATE INDEX IF NOT EXISTS idx_practice_sessions_user_date
+    ON practice_sessions(user_id, created_at DESC);
+`;
+
+/**
+ * Postgres session repository
+ * Stores completed practice sessions in a single table (see SCHEMA)
+ */
+export class PostgresSessionRepository implements ISessionRepository {
+  constructor(private pool: pg.Pool) {}
+
+  /**
+   * Create table and indexes if they do not exist yet
+   */
+  async initialize(): Promise<void> {
+    await this.pool.query(SCHEMA);
+    logger.info('Session tables ready');
+  }
+
+  async save(session: SessionRecord): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO practice_sessions
+         (id, user_id, source, mode, prompt_text, reference_text, article_id, transcript, all_words,
+          pronunciation, communication, duration_ms, word_count, wpm, filler_count, filler_breakdown,
+          reading_fluency, shadowing, audio_url, overall_score, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)`,
+      [
+        session.id,
+        session.userId,
+        session.source,
+        session.mode,
+        session.promptText ?? null,
+        session.referenceText ?? null,
+        session.articleId ?? null,
+        session.transcript,
+        JSON.stringify(session.allWords),
+        JSON.stringify(session.pronunciation),
+        session.communication ? JSON.stringify(session.communication) : null,
+        Math.round(session.durationMs),
+        session.wordCount,
+        session.wpm,
+        session.fillerCount,
+        JSON.stringify(session.fillerBreakdown),
+        session.readingFluency ? JSON.stringify(session.readingFluency) : null,
+        session.shadowing ? JSON.stringify(session.shadowing) : null,
+        session.audioUrl ?? null,
+        session.overallScore,
+        new Date(session.createdAt),
+      ]
+    );
+  }
+
+  async findById(sessionId: string): Promise<SessionRecord | null> {
+    const { rows } = await this.pool.query<SessionRow>(
+      'SELECT * FROM practice_sessions WHERE id = $1',
+      [sessionId]
+    );
+
+    const row = rows[0];
+    if (!row) return null;
+
+    return {
+      ...this.mapListRow(row),
+      referenceText: row.reference_text ?? undefined,
+      articleId: row.article_id ?? undefined,
+      transcript: row.transcript,
+      allWords: row.all_words,
+      pronunciation: row.pronunciation,
+      communication: row.communication ?? undefined,
+      fillerCount: row.filler_count,
+      fillerBreakdown: row.filler_breakdown,
+      readingFluency: row.reading_fluency ?? undefined,
+      shadowing: row.shadowing ?? undefined,
+      audioUrl: row.audio_url ?? undefined,
+    };
+  }
+
+  async findByUserId(
+    userId: string,
+    pagination: PaginationParams,
+    mode?: SessionMode
+  ): Promise<PaginatedResponse<SessionListItem>> {
+    const offset = (pagination.page - 1) * pagination.pageSize;
+
+    // $2 is NULL when no mode filter is requested
+    const [listResult, countResult] = await Promise.all([
+      this.pool.query<SessionListRow>(
+        `SELECT id, user_id, source, mode, prompt_text, duration_ms, word_count, wpm, overall_score, created_at
+         FROM practice_sessions
+         WHERE user_id = $1 AND ($2::text IS NULL OR mode = $2)
+         ORDER BY created_at DESC
+         LIMIT $3 OFFSET $4`,
+        [userId, mode ?? null, pagination.pageSize, offset]
+      ),
+      this.pool.query<{ total: string }>(
+        `SELECT COUNT(*) AS total FROM practice_sessions
+         WHERE user_id = $1 AND ($2::text IS NULL OR mode = $2)`,
+        [userId, mode ?? null]
+      ),
+    ]);
+
+    const total = Number(countResult.rows[0].total);
+    const items = listResult.rows.map((row) => this.mapListRow(row));
+
+    return {
+      items,
+      pagination: {
+        page: pagination.page,
+        pageSize: pagination.pageSize,
+        total,
+        hasMore: offset + items.length < total,
+      },
+    };
+  }
+
+  private mapListRow(row: SessionListRow): SessionListItem {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      source: row.source,
+      mode: row.mode,
+      promptText: row.prompt_text ?? undefined,
+      durationMs: row.duration_ms,
+      wordCount: row.word_count,
+      wpm: row.wpm,
+      // DECIMAL columns come back from pg as strings
+      overallScore: Number(row.overall_score),
+      createdAt: row.created_at.getTime(),
+    };
+  }
+}
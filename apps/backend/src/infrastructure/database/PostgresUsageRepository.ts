@@ -0,0 +1,60 @@
+import type pg from 'pg';
+import type { IUsageRepository } from '../../domain/interfaces/index.js';
+import type { UsageMetric } from '../../shared/types/index.js';
+import { logger } from '../../shared/utils/logger.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS usage_counters (
+    user_id TEXT NOT NULL,
+    usage_date DATE NOT NULL,
+    metric VARCHAR(50) NOT NULL,
+    amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, usage_date, metric)
+  );
+`;
+
+/**
+ * Postgres usage repository
+ * One row per user, day and metric; increments are atomic upserts.
+ */
+export class PostgresUsageRepository implements IUsageRepository {
+  constructor(private pool: pg.Pool) {}
+
+  /**
+   * Create table if it does not exist yet
+   */
+  async initialize(): Promise<void> {
+    await this.pool.query(SCHEMA);
+    logger.info('Usage tables ready');
+  }
+
+  async getDailyUsage(userId: string, day: string): Promise<Record<UsageMetric, number>> {
+    const { rows } = await this.pool.query<{ metric: UsageMetric; amount: string }>(
+      'SELECT metric, amount FROM usage_counters WHERE user_id = $1 AND usage_date = $2',
+      [userId, day]
+    );
+
+    const usage: Record<UsageMetric, number> = {
+      analysis_seconds: 0,
+      chat_turns: 0,
+      tts_generations: 0,
+    };
+    for (const row of rows) {
+      usage[row.metric] = Number(row.amount);
+    }
+    return usage;
+  }
+
+  async increment(userId: string, day: string, metric: UsageMetric, amount: number): Promise<number> {
+    const { rows } = await this.pool.query<{ amount: string }>(
+      `INSERT INTO usage_counters (user_id, usage_date, metric, amount)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (user_id, usage_date, metric)
+       DO UPDATE SET amount = usage_counters.amount + EXCLUDED.amount, updated_at = NOW()
+       RETURNING amount`,
+      [userId, day, metric, amount]
+    );
+    return Number(rows[0].amount);
+  }
+}
@@ -0,0 +1,26 @@
+import type pg from 'pg';
+import type { IVoicePreferenceRepository } from '../../domain/interfaces/index.js';
+
+/**
+ * Voice preference stored on the Supabase `profiles` table
+ * The mobile app reads and writes the same preferred_voice column.
+ */
+export class PostgresVoicePreferenceRepository implements IVoicePreferenceRepository {
+  constructor(private pool: pg.Pool) {}
+
+  async getPreferredVoice(userId: string): Promise<string | null> {
+    const { rows } = await this.pool.query<{ preferred_voice: string | null }>(
+      'SELECT preferred_voice FROM profiles WHERE id = $1',
+      [userId]
+    );
+    return rows[0]?.preferred_voice || null;
+  }
+
+  async setPreferredVoice(userId: string, voiceId: string): Promise<boolean> {
+    const { rowCount } = await this.pool.query(
+      'UPDATE profiles SET preferred_voice = $2, updated_at = NOW() WHERE id = $1',
+      [userId, voiceId]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,9 @@
+export { createPostgresPool, withTransaction } from './postgres.js';
+export { InMemoryConversationRepository } from './InMemoryConversationRepository.js';
+export { PostgresConversationRepository } from './PostgresConversationRepository.js';
+export { InMemorySessionRepository } from './InMemorySessionRepository.js';
+export { PostgresSessionRepository } from './PostgresSessionRepository.js';
+export { InMemoryUsageRepository } from './InMemoryUsageRepository.js';
+export { PostgresUsageRepository } from './PostgresUsageRepository.js';
+export { InMemoryVoicePreferenceRepository } from './InMemoryVoicePreferenceRepository.js';
+export { PostgresVoicePreferenceRepository } from './PostgresVoicePreferenceRepository.js';
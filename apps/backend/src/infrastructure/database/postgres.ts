@@ -0,0 +1,42 @@
+import pg from 'pg';
+import { logger } from '../../shared/utils/logger.js';
+
+/**
+ * Create a shared Postgres connection pool
+ * One pool is created per process and injected into every Postgres repository.
+ */
+export function createPostgresPool(connectionString: string): pg.Pool {
+  const pool = new pg.Pool({
+    connectionString,
+    max: 10,
+    idleTimeoutMillis: 30000,
+  });
+
+  pool.on('error', (error) => {
+    logger.error('Postgres pool error', { error: error.message });
+  });
+
+  return pool;
+}
+
+/**
+ * Run a set of statements inside a single transaction
+ */
+export async function withTransaction<T>(
+  pool: pg.Pool,
+  fn: (client: pg.PoolClient) => Promise<T>
+): Promise<T> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
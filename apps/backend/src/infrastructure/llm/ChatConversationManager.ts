@@ -1,6 +1,5 @@
-import OpenAI from 'openai';
 import type { Result } from '../../shared/types/index.js';
-import type { IChatConversationManager } from '../../domain/interfaces/index.js';
+import type { IChatConversationManager, ILLMClient } from '../../domain/interfaces/index.js';
 import type {
   ChatMessage,
   ChatMode,
@@ -11,52 +10,43 @@ import type {
 } from '../../shared/types/chat.js';
 import { ExternalServiceError } from '../../shared/errors/index.js';
 import { logger } from '../../shared/utils/logger.js';
+import {
+  conversationResponseSchema,
+  summaryResponseSchema,
+  type SummaryResponse,
+} from './schemas.js';
+import { createStructuredCompletion, LLMOutputValidationError } from './structuredCompletion.js';
 
 interface ChatConversationManagerConfig {
-  apiKey: string;
-  model?: string;
-}
-
-interface ConversationLLMResponse {
-  response: string;
-  coaching_tip?: string;
-  coaching_type?: 'pronunciation' | 'communication' | 'encouragement';
-}
-
-interface SummaryLLMResponse {
-  clarity_score: number;
-  fluency_score: number;
-  structure_score: number;
-  structure_feedback: string;
-  filler_suggestion: string;
-  pace_suggestion: string;
-  communication_observation: string;
-  style_indicator?: string;
-  communication_suggestion: string;
-  coaching_tip: string;
-  strengths: string[];
+  /**
+   * Model for conversational replies
+   */
+  chatModel?: string;
+
+  /**
+   * Model for end-of-conversation summaries
+   */
+  summaryModel?: string;
 }
 
 /**
- * GPT-4o based conversation manager for chat feature
+ * LLM-based conversation manager for chat feature
  * Handles both conversational responses and summary generation
  */
 export class ChatConversationManager implements IChatConversationManager {
-  private client: OpenAI;
-  private model: string;
-
-  constructor(config: ChatConversationManagerConfig) {
-    this.client = new OpenAI({ apiKey: config.apiKey });
-    this.model = config.model || 'gpt-4o';
+  private chatModel: string;
+  private summaryModel: string;
+
+  constructor(
+    private llmClient: ILLMClient,
+    config: ChatConversationManagerConfig = {}
+  ) {
+    this.chatModel = config.chatModel || 'gpt-4o';
+    this.summaryModel = config.summaryModel || this.chatModel;
   }
 
   async isReady(): Promise<boolean> {
-    try {
-      await this.client.models.list();
-      return true;
-    } catch {
-      return false;
-    }
+    return this.llmClient.isReady();
   }
 
   // ============================================================
@@ -72,27 +62,20 @@ export class ChatConversationManager implements IChatConversationManager {
       const systemPrompt = this.buildSystemPrompt(input.mode);
       const messages = this.buildMessages(input);
 
-      const response = await this.client.chat.completions.create({
-        model: this.model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          ...messages,
-        ],
-        response_format: { type: 'json_object' },
-        temperature: 0.8,
-        max_tokens: 500,
-      });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        endTimer();
-        return {
-          success: false,
-          error: new ExternalServiceError('OpenAI', new Error('Empty response from GPT-4o')),
-        };
-      }
-
-      const parsed = this.parseConversationResponse(content);
+      const { data: parsed } = await createStructuredCompletion(
+        this.llmClient,
+        {
+          model: this.chatModel,
+          messages: [
+            { role: 'system', content: systemPrompt },
+            ...messages,
+          ],
+          temperature: 0.8,
+          maxTokens: 500,
+        },
+        conversationResponseSchema,
+        { label: 'conversation response' }
+      );
       endTimer();
 
       return {
@@ -109,6 +92,18 @@ export class ChatConversationManager implements IChatConversationManager {
       };
     } catch (error) {
       endTimer();
+
+      if (error instanceof LLMOutputValidationError) {
+        // Keep the conversation going, but flag that this reply is not a real answer
+        return {
+          success: true,
+          data: {
+            response: 'I understand. Could you tell me more about that?',
+            usedDefaults: true,
+          },
+        };
+      }
+
       logger.error('Failed to generate response', { error });
       return {
         success: false,
@@ -136,10 +131,11 @@ export class ChatConversationManager implements IChatConversationManager {
         .map((m) => m.pronunciation?.overallScore || 0)
         .filter((s) => s > 0);
 
+      // Undefined when no turn was scored
       const avgPronunciation =
         allPronunciationScores.length > 0
           ? allPronunciationScores.reduce((a, b) => a + b, 0) / allPronunciationScores.length
-          : 75; // Default if no pronunciation data
+          : undefined;
 
       // Aggregate filler words
       const totalFillers = userMessages.reduce(
@@ -178,67 +174,45 @@ export class ChatConversationManager implements IChatConversationManager {
       const avgWpm =
         allWpm.length > 0
           ? Math.round(allWpm.reduce((a, b) => a + b, 0) / allWpm.length)
-          : 140; // Default
+          : undefined;
 
-      // Generate communication analysis via GPT-4o
+      // Generate communication analysis via the LLM
       const analysisPrompt = this.buildSummaryPrompt(conversation, allText);
 
-      const response = await this.client.chat.completions.create({
-        model: this.model,
-        messages: [
-          { role: 'system', content: analysisPrompt.system },
-          { role: 'user', content: analysisPrompt.user },
-        ],
-        response_format: { type: 'json_object' },
-        temperature: 0.7,
-        max_tokens: 1500,
-      });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        endTimer();
-        return {
-          success: false,
-          error: new ExternalServiceError('OpenAI', new Error('Empty summary from GPT-4o')),
-        };
-      }
-
-      const analysis = this.parseSummaryResponse(content);
+      const analysis = await this.requestSummaryAnalysis(analysisPrompt);
       endTimer();
 
       const summary: ConversationSummary = {
-        pronunciationScore: Math.round(avgPronunciation),
-        clarityScore: analysis.clarity_score || 75,
-        fluencyScore: analysis.fluency_score || 75,
-        overallScore: Math.round(
-          avgPronunciation * 0.3 +
-            (analysis.clarity_score || 75) * 0.35 +
-            (analysis.fluency_score || 75) * 0.35
-        ),
+        pronunciationScore: avgPronunciation !== undefined ? Math.round(avgPronunciation) : undefined,
+        clarityScore: analysis?.clarity_score,
+        fluencyScore: analysis?.fluency_score,
+        // Only measured scores count towards the overall score
+        overallScore: this.overallScore(avgPronunciation, analysis),
         pronunciationNotes,
         communicationAnalysis: {
           fillerWords: {
             total: totalFillers,
             breakdown: this.aggregateFillerBreakdown(userMessages),
-            suggestion: analysis.filler_suggestion || 'Try pausing instead of using filler words.',
+            suggestion: analysis?.filler_suggestion || 'Try pausing instead of using filler words.',
           },
           pace: {
             averageWpm: avgWpm,
-            assessment: this.assessPaceText(avgWpm),
-            suggestion: analysis.pace_suggestion || '',
+            assessment: avgWpm !== undefined ? this.assessPaceText(avgWpm) : '',
+            suggestion: analysis?.pace_suggestion ?? '',
           },
           structure: {
-            score: analysis.structure_score || 70,
-            feedback: analysis.structure_feedback || '',
+            score: analysis?.structure_score,
+            feedback: analysis?.structure_feedback ?? '',
           },
         },
         communicationStyle: {
-          observation: analysis.communication_observation || '',
-          styleIndicator: analysis.style_indicator,
-          suggestion: analysis.communication_suggestion || '',
+          observation: analysis?.communication_observation ?? '',
+          styleIndicator: analysis?.style_indicator,
+          suggestion: analysis?.communication_suggestion ?? '',
         },
-        coachingTip: analysis.coaching_tip || '',
-        strengths: analysis.strengths || [],
+        coachingTip: analysis?.coaching_tip ?? 'Keep practicing natural conversation!',
+        strengths: analysis?.strengths ?? [],
+        usedDefaults: analysis && avgPronunciation !== undefined && avgWpm !== undefined ? undefined : true,
       };
 
       return { success: true, data: summary };
@@ -370,70 +344,38 @@ Please provide your analysis focusing on their communication effectiveness and s
   }
 
   // ============================================================
-  // RESPONSE PARSERS
+  // SUMMARY ANALYSIS
   // ============================================================
 
-  private parseConversationResponse(content: string): ConversationLLMResponse {
-    try {
-      const parsed = JSON.parse(content);
-
-      if (!parsed.response || typeof parsed.response !== 'string') {
-        throw new Error('Missing or invalid response field');
-      }
-
-      return {
-        response: parsed.response,
-        coaching_tip: parsed.coaching_tip || undefined,
-        coaching_type: parsed.coaching_type || undefined,
-      };
-    } catch (error) {
-      logger.error('Failed to parse conversation response', {
-        error: error instanceof Error ? error.message : String(error),
-        content: content.substring(0, 500),
-      });
-      // Return a fallback response
-      return {
-        response: "I understand. Could you tell me more about that?",
-      };
-    }
-  }
-
-  private parseSummaryResponse(content: string): SummaryLLMResponse {
+  /**
+   * Request the LLM part of the summary
+   * @returns null if the model never produced a valid analysis
+   */
+  private async requestSummaryAnalysis(prompt: {
+    system: string;
+    user: string;
+  }): Promise<SummaryResponse | null> {
     try {
-      const parsed = JSON.parse(content);
-
-      // Provide defaults for any missing fields
-      return {
-        clarity_score: parsed.clarity_score ?? 75,
-        fluency_score: parsed.fluency_score ?? 75,
-        structure_score: parsed.structure_score ?? 70,
-        structure_feedback: parsed.structure_feedback ?? 'Good effort expressing your thoughts.',
-        filler_suggestion: parsed.filler_suggestion ?? 'Try pausing instead of using filler words.',
-        pace_suggestion: parsed.pace_suggestion ?? '',
-        communication_observation: parsed.communication_observation ?? 'You communicated your ideas clearly.',
-        style_indicator: parsed.style_indicator,
-        communication_suggestion: parsed.communication_suggestion ?? '',
-        coaching_tip: parsed.coaching_tip ?? 'Keep practicing natural conversation!',
-        strengths: Array.isArray(parsed.strengths) ? parsed.strengths : ['Good effort', 'Clear communication'],
-      };
+      const { data } = await createStructuredCompletion(
+        this.llmClient,
+        {
+          model: this.summaryModel,
+          messages: [
+            { role: 'system', content: prompt.system },
+            { role: 'user', content: prompt.user },
+          ],
+          temperature: 0.7,
+          maxTokens: 1500,
+        },
+        summaryResponseSchema,
+        { label: 'conversation summary' }
+      );
+      return data;
     } catch (error) {
-      logger.error('Failed to parse summary response', {
-        error: error instanceof Error ? error.message : String(error),
-        content: content.substring(0, 500),
-      });
-      // Return defaults
-      return {
-        clarity_score: 75,
-        fluency_score: 75,
-        structure_score: 70,
-        structure_feedback: 'Good effort expressing your thoughts.',
-        filler_suggestion: 'Try pausing instead of using filler words.',
-        pace_suggestion: '',
-        communication_observation: 'You communicated your ideas during the conversation.',
-        communication_suggestion: '',
-        coaching_tip: 'Keep practicing natural conversation!',
-        strengths: ['Engaged in conversation', 'Expressed thoughts clearly'],
-      };
+      if (error instanceof LLMOutputValidationError) {
+        return null;
+      }
+      throw error;
     }
   }
 
@@ -452,6 +394,16 @@ Please provide your analysis focusing on their communication effectiveness and s
     return result;
   }
 
+  private overallScore(
+    pronunciation: number | undefined,
+    analysis: { clarity_score: number; fluency_score: number } | null
+  ): number {
+    if (!analysis) return Math.round(pronunciation ?? 0);
+    const communication = (analysis.clarity_score + analysis.fluency_score) / 2;
+    if (pronunciation === undefined) return Math.round(communication);
+    return Math.round(pronunciation * 0.3 + communication * 0.7);
+  }
+
   private assessPaceText(wpm: number): string {
     if (wpm < 100) return 'A bit slow - try speaking with more energy';
     if (wpm <= 150) return 'Good pace - clear and easy to follow';
@@ -1,62 +1,37 @@
-import OpenAI from 'openai';
-import type { ICommunicationAnalyzer, AnalysisContext } from '../../domain/interfaces/index.js';
+import type {
+  ICommunicationAnalyzer,
+  AnalysisContext,
+  ILLMClient,
+} from '../../domain/interfaces/index.js';
 import type { CommunicationResult, GrammarIssue } from '../../shared/types/index.js';
 import { ExternalServiceError, ValidationError } from '../../shared/errors/index.js';
 import { logger } from '../../shared/utils/logger.js';
 import { getCommunicationAnalysisPrompt, getAnalysisUserPrompt } from './prompts.js';
+import {
+  communicationAnalysisResponseSchema,
+  type CommunicationAnalysisResponse,
+} from './schemas.js';
+import { createStructuredCompletion, LLMOutputValidationError } from './structuredCompletion.js';
 
-interface OpenAIConfig {
-  apiKey: string;
+interface CommunicationAnalyzerConfig {
   model?: string;
 }
 
-interface LLMResponse {
-  filler_words: {
-    total: number;
-    breakdown: Record<string, number>;
-  };
-  pace: {
-    wpm: number;
-    assessment: 'too_slow' | 'good' | 'slightly_fast' | 'too_fast';
-    suggestion?: string;
-  };
-  grammar_issues: Array<{
-    original: string;
-    corrected: string;
-    type?: string;
-    explanation?: string;
-  }>;
-  structure: {
-    score: number;
-    feedback: string;
-  };
-  polished_version: string;
-  coaching_tip: string;
-  strengths: string[];
-}
-
 /**
- * OpenAI-based communication analyzer
+ * Communication analyzer backed by an OpenAI(-compatible) LLM
  */
 export class OpenAICommunicationAnalyzer implements ICommunicationAnalyzer {
-  private client: OpenAI;
   private model: string;
 
-  constructor(config: OpenAIConfig) {
-    this.client = new OpenAI({
-      apiKey: config.apiKey,
-    });
+  constructor(
+    private llmClient: ILLMClient,
+    config: CommunicationAnalyzerConfig = {}
+  ) {
     this.model = config.model || 'gpt-4o';
   }
 
   async isReady(): Promise<boolean> {
-    try {
-      // Simple check - list models to verify API key works
-      await this.client.models.list();
-      return true;
-    } catch {
-      return false;
-    }
+    return this.llmClient.isReady();
   }
 
   async analyze(
@@ -78,26 +53,23 @@ export class OpenAICommunicationAnalyzer implements ICommunicationAnalyzer {
         profession: context.profession,
       });
 
-      const response = await this.client.chat.completions.create({
-        model: this.model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        response_format: { type: 'json_object' },
-        temperature: 0.7,
-        max_tokens: 1500,
-      });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('Empty response from OpenAI');
-      }
-
-      const parsed = this.parseResponse(content);
+      const { data } = await createStructuredCompletion(
+        this.llmClient,
+        {
+          model: this.model,
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userPrompt },
+          ],
+          temperature: 0.7,
+          maxTokens: 1500,
+        },
+        communicationAnalysisResponseSchema,
+        { label: 'communication analysis' }
+      );
       endTimer();
 
-      return this.mapToResult(parsed);
+      return this.mapToResult(data);
     } catch (error) {
       endTimer();
 
@@ -105,6 +77,10 @@ export class OpenAICommunicationAnalyzer implements ICommunicationAnalyzer {
         throw error;
       }
 
+      if (error instanceof LLMOutputValidationError) {
+        return this.createFallbackResult(transcript);
+      }
+
       throw new ExternalServiceError(
         'OpenAI',
         error instanceof Error ? error : new Error(String(error))
@@ -112,44 +88,7 @@ export class OpenAICommunicationAnalyzer implements ICommunicationAnalyzer {
     }
   }
 
-  private parseResponse(content: string): LLMResponse {
-    try {
-      const parsed = JSON.parse(content) as LLMResponse;
-
-      // Validate required fields
-      if (!parsed.filler_words || typeof parsed.filler_words.total !== 'number') {
-        throw new Error('Missing or invalid filler_words');
-      }
-      if (!parsed.pace || typeof parsed.pace.wpm !== 'number') {
-        throw new Error('Missing or invalid pace');
-      }
-      if (!Array.isArray(parsed.grammar_issues)) {
-        throw new Error('Missing or invalid grammar_issues');
-      }
-      if (!parsed.structure || typeof parsed.structure.score !== 'number') {
-        throw new Error('Missing or invalid structure');
-      }
-      if (typeof parsed.polished_version !== 'string') {
-        throw new Error('Missing polished_version');
-      }
-      if (typeof parsed.coaching_tip !== 'string') {
-        throw new Error('Missing coaching_tip');
-      }
-      if (!Array.isArray(parsed.strengths)) {
-        throw new Error('Missing strengths');
-      }
-
-      return parsed;
-    } catch (error) {
-      logger.error('Failed to parse OpenAI response', {
-        error: error instanceof Error ? error.message : String(error),
-        content: content.substring(0, 500),
-      });
-      throw new Error(`Invalid response format: ${error instanceof Error ? error.message : String(error)}`);
-    }
-  }
-
-  private mapToResult(parsed: LLMResponse): CommunicationResult {
+  private mapToResult(parsed: CommunicationAnalysisResponse): CommunicationResult {
     return {
       fillerWords: {
         total: parsed.filler_words.total,
@@ -175,4 +114,30 @@ export class OpenAICommunicationAnalyzer implements ICommunicationAnalyzer {
       strengths: parsed.strengths,
     };
   }
+
+  /**
+   * Result used when the model never produced a valid analysis
+   * Carries no LLM-derived scores; usedDefaults tells consumers not to present it as measured.
+   */
+  private createFallbackResult(transcript: string): CommunicationResult {
+    return {
+      fillerWords: {
+        total: 0,
+        breakdown: {},
+      },
+      pace: {
+        wpm: 0,
+        assessment: 'good',
+      },
+      grammarIssues: [],
+      structure: {
+        score: 0,
+        feedback: 'Detailed feedback is not available for this session.',
+      },
+      polishedVersion: transcript,
+      coachingTip: 'Keep practicing - detailed feedback could not be generated this time.',
+      strengths: [],
+      usedDefaults: true,
+    };
+  }
 }
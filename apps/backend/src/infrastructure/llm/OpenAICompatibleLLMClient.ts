@@ -0,0 +1,75 @@
+import OpenAI from 'openai';
+import type {
+  ILLMClient,
+  LLMJsonCompletionRequest,
+  LLMWebSearchRequest,
+} from '../../domain/interfaces/index.js';
+
+interface OpenAICompatibleConfig {
+  apiKey: string;
+
+  /**
+   * API root of an OpenAI-compatible server (e.g., 'http://localhost:8080/v1')
+   * Defaults to the OpenAI API.
+   */
+  baseURL?: string;
+}
+
+/**
+ * LLM client for OpenAI and OpenAI-compatible servers
+ * JSON completions use the Chat Completions API; web search uses the
+ * Responses API, which self-hosted servers may not implement.
+ */
+export class OpenAICompatibleLLMClient implements ILLMClient {
+  private client: OpenAI;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL,
+    });
+  }
+
+  async completeJson(request: LLMJsonCompletionRequest): Promise<string | null> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      response_format: { type: 'json_object' },
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    });
+
+    return response.choices[0]?.message?.content ?? null;
+  }
+
+  async searchWeb(request: LLMWebSearchRequest): Promise<string> {
+    const response = await this.client.responses.create({
+      model: request.model,
+      tools: [{ type: 'web_search_preview' }],
+      input: request.input,
+    });
+
+    // Extract text content from the response
+    let content = '';
+    for (const item of response.output) {
+      if (item.type === 'message') {
+        for (const block of item.content) {
+          if (block.type === 'output_text') {
+            content += block.text;
+          }
+        }
+      }
+    }
+    return content;
+  }
+
+  async isReady(): Promise<boolean> {
+    try {
+      // Simple check - list models to verify the key and endpoint work
+      await this.client.models.list();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import type { ILLMClient, INewsProvider } from '../../domain/interfaces/index.js';
+import type { NewsArticle } from '../../shared/types/index.js';
+import { logger } from '../../shared/utils/logger.js';
+
+interface OpenAINewsConfig {
+  model?: string;
+}
+
+/**
+ * News provider backed by OpenAI web search
+ * Finds the day's AI/tech news and summarizes each article for a 1-minute read
+ */
+export class OpenAINewsProvider implements INewsProvider {
+  private model: string;
+
+  constructor(
+    private llmClient: ILLMClient,
+    config: OpenAINewsConfig = {}
+  ) {
+    // Web search needs a model that supports the web_search_preview tool
+    this.model = config.model || 'gpt-4o';
+  }
+
+  /**
+   * Fetch news using OpenAI's capabilities with web search
+   */
+  async fetchArticles(): Promise<NewsArticle[]> {
+    const today = new Date().toISOString().split('T')[0];
+
+    const userPrompt = `Search for the latest AI and technology news from the LAST 24 HOURS (today is ${today}).
+
+Find 10 real news articles from these sources:
+- Tech news: TechCrunch, The Verge, Wired, Ars Technica, CNET
+- Business/Tech: Bloomberg Technology, Reuters Tech, CNBC Tech
+- Social media announcements: Twitter/X, LinkedIn, YouTube official blogs
+- Big tech companies: OpenAI, Anthropic, Google, Meta, Microsoft, Apple, Amazon, Tesla, NVIDIA
+- AI researchers and influencers on Twitter/X
+
+For EACH news item found, provide:
+1. The actual headline from the source
+2. A summary of exactly 140-160 words (optimized for 1-minute reading at ~150 WPM)
+3. The real source name and actual URL
+4. Category: ai, tech, startup, or influencer
+
+Return as JSON with this exact structure:
+{
+  "articles": [
+    {
+      "title": "Actual Headline from Source",
+      "summary": "140-160 word summary written for 1-minute read-aloud practice. Clear sentences, good for pronunciation practice.",
+      "source": "Actual Source Name",
+      "sourceUrl": "https://actual-url.com/article",
+      "category": "ai|tech|startup|influencer"
+    }
+  ]
+}
+
+IMPORTANT:
+- Only include REAL news from the last 24 hours
+- Use actual URLs that exist
+- Make summaries engaging and suitable for English learners to read aloud
+- Use clear, professional language without jargon`;
+
+    try {
+      // Use web search enabled model for real-time news
+      const content = await this.llmClient.searchWeb({
+        model: this.model,
+        input: userPrompt,
+      });
+
+      if (!content) {
+        throw new Error('Empty response from OpenAI');
+      }
+
+      logger.info('OpenAI web search response received', { contentLength: content.length });
+
+      // Extract JSON from the response (may be wrapped in markdown code blocks)
+      const jsonMatch = content.match(/\{[\s\S]*"articles"[\s\S]*\}/);
+      if (!jsonMatch) {
+        logger.error('No JSON found in OpenAI response', { content: content.substring(0, 500) });
+        throw new Error('No JSON found in response');
+      }
+
+      const parsed = JSON.parse(jsonMatch[0]);
+      const articles: NewsArticle[] = (parsed.articles || []).map((article: {
+        title: string;
+        summary: string;
+        source: string;
+        sourceUrl: string;
+        category: string;
+      }, index: number) => {
+        const wordCount = article.summary.split(/\s+/).length;
+        return {
+          id: `news-${Date.now()}-${index}`,
+          title: article.title,
+          summary: article.summary,
+          fullContent: article.summary, // Same as summary for now
+          source: article.source,
+          sourceUrl: article.sourceUrl,
+          category: article.category as NewsArticle['category'],
+          publishedAt: new Date().toISOString(),
+          estimatedReadTime: 60, // 1 minute
+          wordCount,
+          audioGenerated: false,
+        };
+      });
+
+      logger.info('Fetched and summarized news articles', { count: articles.length });
+      return articles;
+    } catch (error) {
+      logger.error('Failed to fetch news from OpenAI', {
+        message: error instanceof Error ? error.message : String(error),
+        name: error instanceof Error ? error.name : 'Unknown',
+      });
+      throw error;
+    }
+  }
+}
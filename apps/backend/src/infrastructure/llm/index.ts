@@ -1,3 +1,6 @@
 export { OpenAICommunicationAnalyzer } from './OpenAICommunicationAnalyzer.js';
 export { getCommunicationAnalysisPrompt, getAnalysisUserPrompt } from './prompts.js';
 export { ChatConversationManager } from './ChatConversationManager.js';
+export { OpenAINewsProvider } from './OpenAINewsProvider.js';
+export { createStructuredCompletion, LLMOutputValidationError } from './structuredCompletion.js';
+export { OpenAICompatibleLLMClient } from './OpenAICompatibleLLMClient.js';
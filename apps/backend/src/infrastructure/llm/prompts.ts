@@ -61,6 +61,14 @@ For READ PRACTICE mode:
 - Note any mispronounced words
 - Comment on clarity and articulation
 - Skip OpenAI analysis - handled by pronunciation scoring`,
+
+    shadowing: `${basePrompt}
+
+For SHADOWING practice (repeating model sentences right after hearing them):
+- Focus on rhythm, stress and intonation compared to a native model
+- Note any mispronounced words
+- Less focus on content/structure (they're repeating given sentences)
+- Skip OpenAI analysis - handled by shadowing scoring`,
   };
 
   return modeSpecificPrompts[mode];
@@ -135,54 +143,3 @@ Important:
 - The coaching_tip should be specific (not generic advice)
 - Identify at least 1-2 strengths to build confidence`;
 }
-
-/**
- * Response schema for validation
- */
-export const communicationAnalysisSchema = {
-  type: 'object',
-  properties: {
-    filler_words: {
-      type: 'object',
-      properties: {
-        total: { type: 'number' },
-        breakdown: { type: 'object' },
-      },
-      required: ['total', 'breakdown'],
-    },
-    pace: {
-      type: 'object',
-      properties: {
-        wpm: { type: 'number' },
-        assessment: { type: 'string', enum: ['too_slow', 'good', 'slightly_fast', 'too_fast'] },
-        suggestion: { type: 'string' },
-      },
-      required: ['wpm', 'assessment'],
-    },
-    grammar_issues: {
-      type: 'array',
-      items: {
-        type: 'object',
-        properties: {
-          original: { type: 'string' },
-          corrected: { type: 'string' },
-          type: { type: 'string' },
-          explanation: { type: 'string' },
-        },
-        required: ['original', 'corrected'],
-      },
-    },
-    structure: {
-      type: 'object',
-      properties: {
-        score: { type: 'number' },
-        feedback: { type: 'string' },
-      },
-      required: ['score', 'feedback'],
-    },
-    polished_version: { type: 'string' },
-    coaching_tip: { type: 'string' },
-    strengths: { type: 'array', items: { type: 'string' } },
-  },
-  required: ['filler_words', 'pace', 'grammar_issues', 'structure', 'polished_version', 'coaching_tip', 'strengths'],
-};
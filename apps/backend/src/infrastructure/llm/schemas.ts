@@ -0,0 +1,77 @@
+import { z } from 'zod';
+
+/**
+ * Zod schemas for every JSON shape we ask the LLM to produce
+ * Responses are validated against these before use; validation messages are
+ * sent back to the model on a repair attempt.
+ */
+
+// Models often send null for "no value" even when asked to omit the field
+const optionalText = z.string().nullish().transform((value) => value || undefined);
+
+const score = z.number().min(0).max(100);
+
+/**
+ * Communication analysis (OpenAICommunicationAnalyzer)
+ */
+export const communicationAnalysisResponseSchema = z.object({
+  filler_words: z.object({
+    total: z.number().int().min(0),
+    breakdown: z.record(z.number().int().min(0)),
+  }),
+  pace: z.object({
+    wpm: z.number().min(0),
+    assessment: z.enum(['too_slow', 'good', 'slightly_fast', 'too_fast']),
+    suggestion: optionalText,
+  }),
+  grammar_issues: z.array(
+    z.object({
+      original: z.string(),
+      corrected: z.string(),
+      type: optionalText,
+      explanation: optionalText,
+    })
+  ),
+  structure: z.object({
+    score,
+    feedback: z.string(),
+  }),
+  polished_version: z.string(),
+  coaching_tip: z.string().min(1),
+  strengths: z.array(z.string()),
+});
+
+export type CommunicationAnalysisResponse = z.infer<typeof communicationAnalysisResponseSchema>;
+
+/**
+ * Conversational reply (ChatConversationManager.generateResponse)
+ */
+export const conversationResponseSchema = z.object({
+  response: z.string().min(1),
+  coaching_tip: optionalText,
+  coaching_type: z
+    .enum(['pronunciation', 'communication', 'encouragement'])
+    .nullish()
+    .transform((value) => value || undefined),
+});
+
+export type ConversationResponse = z.infer<typeof conversationResponseSchema>;
+
+/**
+ * Conversation summary (ChatConversationManager.generateSummary)
+ */
+export const summaryResponseSchema = z.object({
+  clarity_score: score,
+  fluency_score: score,
+  structure_score: score,
+  structure_feedback: z.string(),
+  filler_suggestion: z.string(),
+  pace_suggestion: z.string(),
+  communication_observation: z.string(),
+  style_indicator: optionalText,
+  communication_suggestion: z.string(),
+  coaching_tip: z.string().min(1),
+  strengths: z.array(z.string()),
+});
+
+export type SummaryResponse = z.infer<typeof summaryResponseSchema>;
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import type { ILLMClient, LLMJsonCompletionRequest } from '../../domain/interfaces/index.js';
+import { createStructuredCompletion, LLMOutputValidationError } from './structuredCompletion.js';
+
+const schema = z.object({
+  score: z.number().min(0).max(100),
+  tip: z.string(),
+});
+
+const request: LLMJsonCompletionRequest = {
+  model: 'test-model',
+  messages: [{ role: 'user', content: 'Score this' }],
+};
+
+/**
+ * Client that returns the given completions in order
+ */
+function clientReturning(...completions: Array<string | null>) {
+  const completeJson = vi.fn<[LLMJsonCompletionRequest], Promise<string | null>>();
+  for (const completion of completions) {
+    completeJson.mockResolvedValueOnce(completion);
+  }
+  const client: ILLMClient = {
+    completeJson,
+    searchWeb: async () => '',
+    isReady: async () => true,
+  };
+  return { client, completeJson };
+}
+
+describe('createStructuredCompletion', () => {
+  it('returns valid output from the first attempt', async () => {
+    const { client, completeJson } = clientReturning('{"score":80,"tip":"Slow down"}');
+    const result = await createStructuredCompletion(client, request, schema, { label: 'test' });
+
+    expect(result).toEqual({ data: { score: 80, tip: 'Slow down' }, attempts: 1 });
+    expect(completeJson).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends validation errors back to the model and accepts the repaired output', async () => {
+    const { client, completeJson } = clientReturning('{"score":180}', '{"score":90,"tip":"Pause more"}');
+    const result = await createStructuredCompletion(client, request, schema, { label: 'test' });
+
+    expect(result).toEqual({ data: { score: 90, tip: 'Pause more' }, attempts: 2 });
+
+    const repair = completeJson.mock.calls[1][0].messages;
+    expect(repair).toHaveLength(3);
+    expect(repair[1]).toEqual({ role: 'assistant', content: '{"score":180}' });
+    expect(repair[2].content).toContain('score:');
+    expect(repair[2].content).toContain('tip: Required');
+  });
+
+  it('repairs responses that are not JSON or empty', async () => {
+    const { client } = clientReturning('Sure! Here it is', null, '{"score":1,"tip":""}');
+    const result = await createStructuredCompletion(client, request, schema, { label: 'test', maxRepairAttempts: 2 });
+    expect(result.attempts).toBe(3);
+  });
+
+  it('gives up after the allowed repair attempts', async () => {
+    const { client, completeJson } = clientReturning('{}', '{"score":"high"}');
+    const completion = createStructuredCompletion(client, request, schema, { label: 'test' });
+
+    await expect(completion).rejects.toBeInstanceOf(LLMOutputValidationError);
+    await expect(completion).rejects.toThrow('Invalid test response: score: Expected number, received string');
+    expect(completeJson).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry API errors', async () => {
+    const { client, completeJson } = clientReturning();
+    completeJson.mockRejectedValueOnce(new Error('rate limited'));
+
+    await expect(createStructuredCompletion(client, request, schema, { label: 'test' })).rejects.toThrow('rate limited');
+    expect(completeJson).toHaveBeenCalledTimes(1);
+  });
+});
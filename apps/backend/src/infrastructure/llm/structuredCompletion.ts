@@ -0,0 +1,112 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+import type { ILLMClient, LLMJsonCompletionRequest } from '../../domain/interfaces/index.js';
+import { logger } from '../../shared/utils/logger.js';
+
+interface StructuredCompletionOptions {
+  /**
+   * Name of the response shape, for logs
+   */
+  label: string;
+
+  /**
+   * Round-trips that send validation errors back to the model (default 1)
+   */
+  maxRepairAttempts?: number;
+}
+
+export interface StructuredCompletionResult<T> {
+  data: T;
+  attempts: number;
+}
+
+/**
+ * The model did not produce a valid response within the allowed repair attempts
+ */
+export class LLMOutputValidationError extends Error {
+  constructor(
+    label: string,
+    public readonly issues: string[]
+  ) {
+    super(`Invalid ${label} response: ${issues.join('; ')}`);
+    this.name = 'LLMOutputValidationError';
+  }
+}
+
+/**
+ * Parse and validate a raw completion against a schema
+ * @returns The validated data, or the list of problems to send back to the model
+ */
+function validateContent<T>(
+  content: string | null | undefined,
+  schema: ZodType<T, ZodTypeDef, unknown>
+): { data: T } | { issues: string[] } {
+  if (!content) {
+    return { issues: ['Response was empty'] };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    return { issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return {
+      issues: result.error.issues.map((issue) =>
+        issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      ),
+    };
+  }
+
+  return { data: result.data };
+}
+
+/**
+ * Request a JSON completion and validate it against a zod schema
+ * On invalid output the validation errors are sent back to the model for a
+ * bounded number of repair attempts. API errors are not retried here.
+ * @throws LLMOutputValidationError if the output is still invalid after all attempts
+ */
+export async function createStructuredCompletion<T>(
+  client: ILLMClient,
+  request: LLMJsonCompletionRequest,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  options: StructuredCompletionOptions
+): Promise<StructuredCompletionResult<T>> {
+  const maxRepairAttempts = options.maxRepairAttempts ?? 1;
+  const messages = [...request.messages];
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= maxRepairAttempts + 1; attempt++) {
+    const content = await client.completeJson({ ...request, messages });
+    const validation = validateContent(content, schema);
+
+    if ('data' in validation) {
+      if (attempt > 1) {
+        logger.info('LLM response repaired', { label: options.label, attempts: attempt });
+      }
+      return { data: validation.data, attempts: attempt };
+    }
+
+    issues = validation.issues;
+    logger.warn('LLM response failed validation', {
+      label: options.label,
+      attempt,
+      issues,
+      content: content?.substring(0, 500),
+    });
+
+    // Show the model its own output and what was wrong with it
+    messages.push(
+      { role: 'assistant', content: content || '' },
+      {
+        role: 'user',
+        content: `Your previous response did not match the required JSON format:\n- ${issues.join('\n- ')}\n\nRespond again with only the corrected JSON object, keeping every required field.`,
+      }
+    );
+  }
+
+  throw new LLMOutputValidationError(options.label, issues);
+}
@@ -0,0 +1,135 @@
+import type { IChatConversationManager } from '../../domain/interfaces/IChatConversationManager.js';
+import type { Result } from '../../shared/types/index.js';
+import type {
+  ChatMode,
+  Conversation,
+  ConversationSummary,
+  GenerateResponseInput,
+  GenerateResponseOutput,
+} from '../../shared/types/chat.js';
+import { normalizeWord, splitWords } from './fixtures.js';
+
+const FOLLOW_UP_QUESTIONS: Record<ChatMode, string[]> = {
+  free_talk: [
+    'What made that stand out for you?',
+    'How did that change the way you think about it?',
+    'What would you do differently next time?',
+  ],
+  reflective: [
+    'How did that make you feel at the time?',
+    'What did you learn about yourself from it?',
+    'What would you tell a friend in the same situation?',
+  ],
+  professional: [
+    'What was the business impact of that decision?',
+    'How did you get your stakeholders on board?',
+    'Which metric would show that it worked?',
+  ],
+};
+
+/**
+ * Scripted conversation partner for offline development
+ * Acknowledges the user's message and cycles through follow-up questions per mode.
+ */
+export class MockChatConversationManager implements IChatConversationManager {
+  async isReady(): Promise<boolean> {
+    return true;
+  }
+
+  async generateResponse(input: GenerateResponseInput): Promise<Result<GenerateResponseOutput>> {
+    const questions = FOLLOW_UP_QUESTIONS[input.mode];
+    const turn = input.conversationHistory.filter((m) => m.role === 'user').length;
+
+    // Echo the longest word so responses visibly relate to what was said
+    const keyword = splitWords(input.userMessage)
+      .map(normalizeWord)
+      .reduce((longest, word) => (word.length > longest.length ? word : longest), '');
+
+    const response = keyword
+      ? `Thanks for sharing that - you mentioned "${keyword}". ${questions[turn % questions.length]}`
+      : questions[turn % questions.length];
+
+    const mispronounced = input.pronunciationContext?.mispronounced?.[0];
+    const fillerCount = input.pronunciationContext?.fillerCount ?? 0;
+
+    let inlineCoaching: GenerateResponseOutput['inlineCoaching'];
+    if (mispronounced) {
+      inlineCoaching = {
+        type: 'pronunciation',
+        tip: `Try saying "${mispronounced.word}" slowly, one syllable at a time.`,
+      };
+    } else if (fillerCount >= 2) {
+      inlineCoaching = {
+        type: 'communication',
+        tip: 'Try a short pause instead of filler words.',
+      };
+    }
+
+    return { success: true, data: { response, inlineCoaching } };
+  }
+
+  async generateSummary(conversation: Conversation): Promise<Result<ConversationSummary>> {
+    const userMessages = conversation.messages.filter((m) => m.role === 'user');
+
+    const scores = userMessages
+      .map((m) => m.pronunciation?.overallScore || 0)
+      .filter((s) => s > 0);
+    const pronunciationScore = scores.length > 0
+      ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length)
+      : 75;
+
+    const totalFillers = userMessages.reduce((sum, m) => sum + (m.pronunciation?.fillerWords.count || 0), 0);
+    const fillerBreakdown: Record<string, number> = {};
+    for (const message of userMessages) {
+      for (const [word, count] of Object.entries(message.pronunciation?.fillerWords.breakdown || {})) {
+        fillerBreakdown[word] = (fillerBreakdown[word] || 0) + count;
+      }
+    }
+
+    const wpms = userMessages
+      .map((m) => m.pronunciation?.pace.wpm || 0)
+      .filter((w) => w > 0);
+    const averageWpm = wpms.length > 0 ? Math.round(wpms.reduce((a, b) => a + b, 0) / wpms.length) : 140;
+
+    const pronunciationNotes = userMessages
+      .flatMap((m) => m.pronunciation?.mispronounced || [])
+      .slice(0, 5)
+      .map((item) => ({ word: item.word, suggestion: item.suggestion, occurrences: 1 }));
+
+    const clarityScore = Math.max(50, 85 - totalFillers * 3);
+    const fluencyScore = Math.max(50, 85 - Math.abs(averageWpm - 140) / 2);
+
+    return {
+      success: true,
+      data: {
+        pronunciationScore,
+        clarityScore,
+        fluencyScore: Math.round(fluencyScore),
+        overallScore: Math.round(pronunciationScore * 0.3 + clarityScore * 0.35 + fluencyScore * 0.35),
+        pronunciationNotes,
+        communicationAnalysis: {
+          fillerWords: {
+            total: totalFillers,
+            breakdown: fillerBreakdown,
+            suggestion: 'Try pausing instead of using filler words.',
+          },
+          pace: {
+            averageWpm,
+            assessment: averageWpm < 120 ? 'A little slow' : averageWpm > 170 ? 'A little fast' : 'Comfortable pace',
+            suggestion: 'Keep a steady pace and slow down for key points.',
+          },
+          structure: {
+            score: 75,
+            feedback: 'Your answers were easy to follow.',
+          },
+        },
+        communicationStyle: {
+          observation: 'You answer directly and build on the question you were asked.',
+          suggestion: 'Add one concrete example to make your points memorable.',
+        },
+        coachingTip: 'Lead with your main point, then support it with an example.',
+        strengths: ['Stayed on topic', 'Answered every question'],
+      },
+    };
+  }
+}
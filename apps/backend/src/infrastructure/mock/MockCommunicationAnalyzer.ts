@@ -0,0 +1,64 @@
+import type { ICommunicationAnalyzer, AnalysisContext } from '../../domain/interfaces/index.js';
+import type { CommunicationResult } from '../../shared/types/index.js';
+import { ValidationError } from '../../shared/errors/index.js';
+import { FILLER_WORDS, MOCK_WORDS_PER_MINUTE, countFillers, scoreFor } from './fixtures.js';
+
+const COACHING_TIPS: Record<AnalysisContext['mode'], string> = {
+  free_talk: 'Open with your main point, then give one concrete example.',
+  professional: 'State the outcome first, then explain how you got there.',
+  casual: 'Relax your pace and let your sentences breathe between ideas.',
+  read_aloud: 'Pause briefly at commas and full stops to sound more natural.',
+  read_practice: 'Slow down on longer words and stress the key syllable.',
+  shadowing: 'Copy the rhythm first - hold the stressed words a little longer.',
+};
+
+/**
+ * Deterministic communication feedback for offline development
+ * Fillers are counted for real; scores and wording are derived from the transcript.
+ */
+export class MockCommunicationAnalyzer implements ICommunicationAnalyzer {
+  async isReady(): Promise<boolean> {
+    return true;
+  }
+
+  async analyze(
+    transcript: string,
+    context: AnalysisContext
+  ): Promise<CommunicationResult> {
+    if (!transcript || transcript.trim().length === 0) {
+      throw new ValidationError('Transcript is empty');
+    }
+
+    const fillers = countFillers(transcript);
+    const sentences = transcript.split(/[.!?]+/).filter((s) => s.trim().length > 0);
+
+    return {
+      fillerWords: fillers,
+      pace: {
+        wpm: MOCK_WORDS_PER_MINUTE,
+        assessment: 'good',
+      },
+      grammarIssues: [],
+      structure: {
+        score: Math.min(95, scoreFor(`structure:${transcript}`, 60, 85) + sentences.length * 2),
+        feedback: sentences.length > 1
+          ? 'Your ideas follow a clear order. A short closing sentence would round it off.'
+          : 'Try splitting your answer into a main point and a supporting detail.',
+      },
+      polishedVersion: this.removeFillers(transcript),
+      coachingTip: fillers.total > 0
+        ? `Replace filler words like "${Object.keys(fillers.breakdown)[0]}" with a short pause.`
+        : COACHING_TIPS[context.mode],
+      strengths: ['Clear main idea', 'Steady speaking pace'],
+    };
+  }
+
+  private removeFillers(transcript: string): string {
+    let polished = transcript;
+    for (const filler of FILLER_WORDS) {
+      polished = polished.replace(new RegExp(`\\b${filler}\\b,?\\s*`, 'gi'), '');
+    }
+    polished = polished.replace(/\s+/g, ' ').trim();
+    return polished.charAt(0).toUpperCase() + polished.slice(1);
+  }
+}
@@ -0,0 +1,42 @@
+import type { INewsProvider } from '../../domain/interfaces/index.js';
+import type { NewsArticle } from '../../shared/types/index.js';
+import { splitWords } from './fixtures.js';
+
+const SAMPLE_ARTICLES: Array<Pick<NewsArticle, 'id' | 'title' | 'summary' | 'category'>> = [
+  {
+    id: 'sample-news-1',
+    title: 'Researchers Train Smaller Language Models That Run on Phones',
+    category: 'ai',
+    summary: 'A research team has shown that compact language models can run entirely on a modern smartphone without a network connection. By carefully selecting training data and compressing the model weights, the team reduced memory use by more than half while keeping most of the accuracy of larger systems. The researchers say on-device models protect privacy, because personal messages and recordings never leave the phone. They also respond faster, since there is no round trip to a data center. Critics point out that small models still struggle with long documents and complex reasoning. However, the team believes that a mix of local and cloud models will become the normal approach for consumer apps. Several phone makers are already testing similar features for dictation, translation and writing help, and the first products could reach customers later this year.',
+  },
+  {
+    id: 'sample-news-2',
+    title: 'Startup Raises Funding to Build Quieter Electric Delivery Vans',
+    category: 'startup',
+    summary: 'A young electric vehicle company announced a new funding round to build delivery vans designed for busy city streets. The vans use a low floor, sliding doors on both sides and a battery sized for a single day of urban routes. The founders explained that most delivery trips are short and predictable, so a smaller battery keeps the price down without hurting range in practice. The company plans to start production with a contract manufacturer rather than building its own factory, which lowers early costs. Several logistics firms have agreed to run pilot fleets next spring. Analysts note that the market is crowded and that established carmakers are launching competing models. Still, investors appear confident that lower running costs and quieter operation will attract cities that want cleaner air and less noise at night.',
+  },
+  {
+    id: 'sample-news-3',
+    title: 'New Browser Feature Summarizes Long Web Pages Automatically',
+    category: 'tech',
+    summary: 'A popular web browser is adding a feature that summarizes long articles with a single click. The summary appears in a side panel and highlights the main points, key numbers and any dates mentioned in the text. Users can ask follow-up questions about the page, and the browser shows which paragraph each answer comes from. The company says the feature is designed for people who read a lot of reports and news at work. Privacy advocates have asked how page content is processed, and the company replied that summaries are generated on secure servers and are not stored. Publishers have mixed feelings, since readers may skip the full article. The feature will roll out gradually over the next few weeks, starting with desktop users, and a mobile version is expected before the end of the year.',
+  },
+];
+
+/**
+ * Fixed set of sample articles for offline development
+ */
+export class MockNewsProvider implements INewsProvider {
+  async fetchArticles(): Promise<NewsArticle[]> {
+    return SAMPLE_ARTICLES.map((article) => ({
+      ...article,
+      fullContent: article.summary,
+      source: 'ProSpeaker Samples',
+      sourceUrl: 'https://example.com/news',
+      publishedAt: new Date().toISOString(),
+      estimatedReadTime: 60,
+      wordCount: splitWords(article.summary).length,
+      audioGenerated: false,
+    }));
+  }
+}
@@ -0,0 +1,82 @@
+import type { ISpeechAnalyzer, AssessmentOptions } from '../../domain/interfaces/index.js';
+import type { PronunciationResult, WordAnalysis } from '../../shared/types/index.js';
+import { AudioProcessingError } from '../../shared/errors/index.js';
+import {
+  PCM_BYTES_PER_SECOND,
+  isSilent,
+  normalizeWord,
+  scoreFor,
+  splitWords,
+  timeWords,
+  transcriptForDuration,
+} from './fixtures.js';
+
+/**
+ * Deterministic pronunciation assessment for offline development
+ * Scripted audio "reads" the reference text; free speech yields a sample
+ * transcript sized to the audio length. Silent audio yields no transcript.
+ */
+export class MockSpeechAnalyzer implements ISpeechAnalyzer {
+  async isReady(): Promise<boolean> {
+    return true;
+  }
+
+  async assessPronunciation(
+    audio: Buffer,
+    options: AssessmentOptions = {}
+  ): Promise<PronunciationResult> {
+    if (!audio || audio.length === 0) {
+      throw new AudioProcessingError('Audio buffer is empty');
+    }
+
+    if (isSilent(audio)) {
+      return {
+        overallScore: 0,
+        accuracyScore: 0,
+        fluencyScore: 0,
+        prosodyScore: 0,
+        completenessScore: 0,
+        transcript: '',
+        words: [],
+        problemSounds: [],
+      };
+    }
+
+    const durationSeconds = audio.length / PCM_BYTES_PER_SECOND;
+    const transcript = options.referenceText
+      ? options.referenceText.trim()
+      : transcriptForDuration(durationSeconds, audio.length);
+
+    const rawWords = splitWords(transcript);
+    const timings = timeWords(rawWords, 300);
+    const words: WordAnalysis[] = rawWords.map((raw, i) => {
+      const word = normalizeWord(raw);
+      const accuracyScore = scoreFor(word);
+      return {
+        word,
+        accuracyScore,
+        errorType: accuracyScore < 60 ? 'mispronunciation' : 'none',
+        phonemes: [],
+        ...timings[i],
+      };
+    });
+
+    const accuracyScore = words.length > 0
+      ? Math.round(words.reduce((sum, w) => sum + w.accuracyScore, 0) / words.length)
+      : 0;
+    const fluencyScore = scoreFor(`fluency:${transcript}`, 65, 95);
+    const prosodyScore = options.enableProsody === false ? 0 : scoreFor(`prosody:${transcript}`, 60, 92);
+    const completenessScore = 100;
+
+    return {
+      overallScore: Math.round(accuracyScore * 0.5 + fluencyScore * 0.3 + (prosodyScore || fluencyScore) * 0.2),
+      accuracyScore,
+      fluencyScore,
+      prosodyScore,
+      completenessScore,
+      transcript,
+      words,
+      problemSounds: [],
+    };
+  }
+}
@@ -0,0 +1,157 @@
+import { EventEmitter } from 'events';
+import type {
+  IStreamingSpeechAnalyzer,
+  StreamingResult,
+  StreamingStartOptions,
+} from '../../domain/interfaces/index.js';
+import {
+  PCM_BYTES_PER_SECOND,
+  SAMPLE_TRANSCRIPTS,
+  hashString,
+  isSilent,
+  normalizeWord,
+  scoreFor,
+  splitWords,
+  timeWords,
+} from './fixtures.js';
+
+// Audio per recognized phrase (~2 seconds of speech)
+const PHRASE_BYTES = PCM_BYTES_PER_SECOND * 2;
+const WORDS_PER_PHRASE = 5;
+
+/**
+ * Deterministic streaming recognition for offline development
+ * Every ~2 seconds of non-silent audio emits an interim and a final result
+ * with the next words of a sample script; silence yields empty finals.
+ * Given a reference text, it reads that text once instead, skipping and
+ * re-reading a few words (chosen by hash) so alignment has misreads to find.
+ */
+export class MockStreamingSpeechAnalyzer extends EventEmitter implements IStreamingSpeechAnalyzer {
+  private isRunning = false;
+  private pending: Buffer[] = [];
+  private pendingBytes = 0;
+  private script: string[] = [];
+  private position = 0;
+  private scripted = false;
+  // Audio received before the pending phrase, for word offsets
+  private streamMs = 0;
+
+  async start(options: StreamingStartOptions = {}): Promise<void> {
+    if (this.isRunning) {
+      throw new Error('Streaming session already running');
+    }
+
+    const reference = splitWords(options.referenceText ?? '');
+    this.scripted = reference.length > 0;
+    this.script = this.scripted
+      ? readWithMistakes(reference)
+      : splitWords(SAMPLE_TRANSCRIPTS.join(' '));
+    this.position = 0;
+    this.streamMs = 0;
+    this.isRunning = true;
+  }
+
+  writeAudioChunk(chunk: Buffer): void {
+    if (!this.isRunning) {
+      throw new Error('Streaming session not running');
+    }
+
+    this.pending.push(chunk);
+    this.pendingBytes += chunk.length;
+
+    if (this.pendingBytes >= PHRASE_BYTES) {
+      this.flush();
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    // Recognize whatever is left if it is long enough to contain a word
+    if (this.pendingBytes >= PCM_BYTES_PER_SECOND / 2) {
+      this.flush();
+    }
+
+    this.isRunning = false;
+    this.pending = [];
+    this.pendingBytes = 0;
+    this.emit('ended');
+  }
+
+  get running(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Audio waiting for the next phrase (recognition itself never lags)
+   */
+  get backlogMs(): number {
+    return (this.pendingBytes / PCM_BYTES_PER_SECOND) * 1000;
+  }
+
+  private flush(): void {
+    const audio = Buffer.concat(this.pending);
+    const phraseStartMs = this.streamMs;
+    this.streamMs += (audio.length / PCM_BYTES_PER_SECOND) * 1000;
+    this.pending = [];
+    this.pendingBytes = 0;
+
+    // Silence, or a reference text that has been read to the end
+    if (isSilent(audio) || (this.scripted && this.position >= this.script.length)) {
+      this.emit('result', {
+        type: 'recognized',
+        transcript: '',
+        isFinal: true,
+        timestamp: Date.now(),
+      } satisfies StreamingResult);
+      return;
+    }
+
+    const phrase: string[] = [];
+    for (let i = 0; i < WORDS_PER_PHRASE; i++) {
+      if (this.scripted && this.position >= this.script.length) break;
+      phrase.push(this.script[this.position % this.script.length]);
+      this.position++;
+    }
+    const transcript = phrase.join(' ');
+
+    this.emit('result', {
+      type: 'recognizing',
+      transcript: phrase.slice(0, 2).join(' '),
+      isFinal: false,
+      timestamp: Date.now(),
+    } satisfies StreamingResult);
+
+    const timings = timeWords(phrase, Math.round(phraseStartMs) + 200);
+    const words = phrase.map((raw, i) => {
+      const word = normalizeWord(raw);
+      return { word, accuracy: scoreFor(word), ...timings[i] };
+    });
+
+    this.emit('result', {
+      type: 'pronunciation',
+      transcript,
+      isFinal: true,
+      timestamp: Date.now(),
+      pronunciationScore: Math.round(words.reduce((sum, w) => sum + w.accuracy, 0) / words.length),
+      words,
+    } satisfies StreamingResult);
+  }
+}
+
+/**
+ * Reference words as a learner might read them: about one word in 15 is
+ * skipped and one in 20 is read twice
+ */
+function readWithMistakes(reference: string[]): string[] {
+  const read: string[] = [];
+  reference.forEach((word, i) => {
+    const hash = hashString(`${i}:${word}`);
+    if (hash % 15 === 0 && i > 0) return;
+    read.push(word);
+    if (hash % 20 === 1) read.push(word);
+  });
+  return read;
+}
@@ -0,0 +1,53 @@
+import type {
+  ITTSService,
+  TTSSynthesizeOptions,
+  TTSSynthesizeResult,
+  WordBoundary,
+} from '../../domain/interfaces/ITTSService.js';
+import type { Result } from '../../shared/types/index.js';
+import { encodeWav } from '../audio/formats.js';
+import { MOCK_WORDS_PER_MINUTE, createSilentMp3, splitWords } from './fixtures.js';
+
+// Output sample rate of the wav format (16-bit mono)
+const WAV_SAMPLE_RATE = 16000;
+
+/**
+ * TTS for offline development
+ * Returns silent audio as long as the text would take to speak, with evenly
+ * paced word boundaries so read-along highlighting works without Azure.
+ * The rate option speeds the pacing up or down like SSML prosody.
+ */
+export class MockTTSService implements ITTSService {
+  async isReady(): Promise<boolean> {
+    return true;
+  }
+
+  async synthesize(
+    text: string,
+    options: TTSSynthesizeOptions = {}
+  ): Promise<Result<TTSSynthesizeResult>> {
+    const wordsPerMinute = MOCK_WORDS_PER_MINUTE * (1 + (options.rate ?? 0) / 100);
+    const msPerWord = 60000 / Math.max(1, wordsPerMinute);
+
+    const wordBoundaries: WordBoundary[] = splitWords(text).map((word, index) => ({
+      word,
+      startMs: Math.round(index * msPerWord),
+      endMs: Math.round((index + 1) * msPerWord - msPerWord / 5),
+    }));
+    const durationMs = Math.max(1000, Math.round(wordBoundaries.length * msPerWord));
+
+    const audio = options.format === 'wav'
+      ? encodeWav(Buffer.alloc(Math.round((durationMs / 1000) * WAV_SAMPLE_RATE) * 2), WAV_SAMPLE_RATE)
+      : createSilentMp3(durationMs);
+
+    return {
+      success: true,
+      data: {
+        audio,
+        contentType: options.format === 'wav' ? 'audio/wav' : 'audio/mpeg',
+        wordBoundaries,
+        durationMs,
+      },
+    };
+  }
+}
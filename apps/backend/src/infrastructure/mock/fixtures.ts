@@ -0,0 +1,135 @@
+/**
+ * Deterministic fixtures shared by the mock adapters
+ * Everything here is derived from its input, so the same audio or text
+ * always produces the same transcript, scores and timings.
+ */
+
+// Speaking rate used to turn audio length into words and text into audio length
+export const MOCK_WORDS_PER_MINUTE = 150;
+
+// PCM format pushed by clients (16kHz, 16-bit, mono)
+export const PCM_BYTES_PER_SECOND = 16000 * 2;
+
+export const SAMPLE_TRANSCRIPTS = [
+  'Today I want to talk about a project I led last quarter. We had a tight deadline, so I organized the team into small groups and we delivered on time.',
+  'Um, I think the most important skill for an engineer is communication. You know, explaining your ideas clearly saves a lot of time for everyone.',
+  'My favorite way to relax on the weekend is hiking with friends. We usually pick a trail near the city and have lunch at the top.',
+  'In my opinion, remote work has both advantages and challenges. It gives people flexibility, but it requires more deliberate collaboration.',
+];
+
+export const FILLER_WORDS = [
+  'um', 'uh', 'er', 'ah',
+  'like', 'you know', 'i mean',
+  'so', 'basically', 'actually',
+  'kind of', 'sort of',
+  'right', 'okay',
+];
+
+/**
+ * Stable 32-bit FNV-1a hash
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic score in [min, max] for a word or phrase
+ */
+export function scoreFor(seed: string, min = 55, max = 98): number {
+  return min + (hashString(seed.toLowerCase()) % (max - min + 1));
+}
+
+export function splitWords(text: string): string[] {
+  return text.split(/\s+/).filter((w) => w.length > 0);
+}
+
+/**
+ * Strip punctuation so words match their spoken form
+ */
+export function normalizeWord(word: string): string {
+  return word.replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+/**
+ * Whether 16-bit PCM audio (raw or WAV) is effectively silent
+ */
+export function isSilent(audio: Buffer, threshold = 500): boolean {
+  const start = audio.subarray(0, 4).toString('ascii') === 'RIFF' ? 44 : 0;
+  for (let i = start; i + 1 < audio.length; i += 2) {
+    if (Math.abs(audio.readInt16LE(i)) > threshold) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Pick a sample transcript and trim it to what fits in the audio duration
+ */
+export function transcriptForDuration(durationSeconds: number, seed: number): string {
+  const words = splitWords(SAMPLE_TRANSCRIPTS[seed % SAMPLE_TRANSCRIPTS.length]);
+  const count = Math.max(5, Math.round((durationSeconds * MOCK_WORDS_PER_MINUTE) / 60));
+  return words.slice(0, count).join(' ');
+}
+
+/**
+ * Count filler words in a transcript
+ */
+export function countFillers(transcript: string): { total: number; breakdown: Record<string, number> } {
+  const lower = transcript.toLowerCase();
+  const breakdown: Record<string, number> = {};
+  let total = 0;
+
+  for (const filler of FILLER_WORDS) {
+    const matches = lower.match(new RegExp(`\\b${filler}\\b`, 'g'));
+    if (matches) {
+      breakdown[filler] = matches.length;
+      total += matches.length;
+    }
+  }
+
+  return { total, breakdown };
+}
+
+/**
+ * Deterministic word timings starting at startMs
+ * Word length sets its duration; commas and sentence ends add pauses,
+ * so rate and pause metrics have something realistic to measure.
+ */
+export function timeWords(words: string[], startMs: number): Array<{ offsetMs: number; durationMs: number }> {
+  let cursor = startMs;
+  return words.map((raw) => {
+    const timing = { offsetMs: cursor, durationMs: 150 + normalizeWord(raw).length * 35 };
+    const pauseMs = /[.!?]$/.test(raw) ? 1100 : /[,;:]$/.test(raw) ? 400 : 60;
+    cursor += timing.durationMs + pauseMs;
+    return timing;
+  });
+}
+
+/**
+ * Silent MP3 of roughly the given duration
+ * MPEG-2 Layer III, 16kHz mono, 8kbps: each 36-byte frame holds 576 samples (36ms)
+ * of digital silence, so clients can load, play and seek it like real TTS output.
+ */
+export function createSilentMp3(durationMs: number): Buffer {
+  const FRAME_BYTES = 36;
+  const FRAME_MS = 36;
+  const frameCount = Math.max(1, Math.ceil(durationMs / FRAME_MS));
+
+  const frame = Buffer.alloc(FRAME_BYTES);
+  frame[0] = 0xff; // Frame sync
+  frame[1] = 0xf3; // MPEG-2, Layer III, no CRC
+  frame[2] = 0x18; // 8kbps, 16kHz, no padding
+  frame[3] = 0xc0; // Mono
+
+  const audio = Buffer.alloc(frameCount * FRAME_BYTES);
+  for (let i = 0; i < frameCount; i++) {
+    frame.copy(audio, i * FRAME_BYTES);
+  }
+  return audio;
+}
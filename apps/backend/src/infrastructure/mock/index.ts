@@ -0,0 +1,6 @@
+export { MockSpeechAnalyzer } from './MockSpeechAnalyzer.js';
+export { MockStreamingSpeechAnalyzer } from './MockStreamingSpeechAnalyzer.js';
+export { MockCommunicationAnalyzer } from './MockCommunicationAnalyzer.js';
+export { MockChatConversationManager } from './MockChatConversationManager.js';
+export { MockTTSService } from './MockTTSService.js';
+export { MockNewsProvider } from './MockNewsProvider.js';
@@ -3,6 +3,7 @@ import type { ISpeechAnalyzer, AssessmentOptions } from '../../domain/interfaces
 import type { PronunciationResult, WordAnalysis, PhonemeAnalysis } from '../../shared/types/index.js';
 import { ExternalServiceError, AudioProcessingError } from '../../shared/errors/index.js';
 import { logger } from '../../shared/utils/logger.js';
+import { identifyProblemSounds, mergeSegments, type RecognizedSegment } from './pronunciationMerge.js';
 
 interface AzureConfig {
   subscriptionKey: string;
@@ -16,8 +17,13 @@ interface AzureWordResult {
     ErrorType: string;
   };
   Phonemes?: AzurePhonemeResult[];
+  Offset?: number;
+  Duration?: number;
 }
 
+// Azure offsets and durations are in 100ns ticks
+const TICKS_PER_MS = 10000;
+
 interface AzurePhonemeResult {
   Phoneme: string;
   PronunciationAssessment: {
@@ -76,39 +82,43 @@ export class AzureSpeechAnalyzer implements ISpeechAnalyzer {
       );
       speechConfig.speechRecognitionLanguage = locale;
 
-      // Configure pronunciation assessment
-      const pronunciationConfig = new sdk.PronunciationAssessmentConfig(
-        referenceText || '',
-        sdk.PronunciationAssessmentGradingSystem.HundredMark,
-        sdk.PronunciationAssessmentGranularity.Phoneme,
-        true // Enable miscue detection
-      );
-
-      // Set phoneme alphabet to IPA for international users
-      pronunciationConfig.phonemeAlphabet = phonemeAlphabet;
-
-      // Enable additional assessments for unscripted speech
-      if (!referenceText) {
-        pronunciationConfig.enableProsodyAssessment = enableProsody;
-        // Note: Content assessment may require specific API version
-      }
-
-      // Create audio config from buffer
-      const audioConfig = this.createAudioConfigFromBuffer(audio);
-      const recognizer = new sdk.SpeechRecognizer(speechConfig, audioConfig);
+      let recognizer: sdk.SpeechRecognizer | undefined;
+      try {
+        // Configure pronunciation assessment
+        const pronunciationConfig = new sdk.PronunciationAssessmentConfig(
+          referenceText || '',
+          sdk.PronunciationAssessmentGradingSystem.HundredMark,
+          sdk.PronunciationAssessmentGranularity.Phoneme,
+          true // Enable miscue detection
+        );
+
+        // Set phoneme alphabet to IPA for international users
+        pronunciationConfig.phonemeAlphabet = phonemeAlphabet;
+
+        // Enable additional assessments for unscripted speech
+        if (!referenceText) {
+          pronunciationConfig.enableProsodyAssessment = enableProsody;
+          // Note: Content assessment may require specific API version
+        }
 
-      // Apply pronunciation assessment configuration
-      pronunciationConfig.applyTo(recognizer);
+        // Create audio config from buffer
+        const audioConfig = this.createAudioConfigFromBuffer(audio);
+        recognizer = new sdk.SpeechRecognizer(speechConfig, audioConfig);
 
-      // Run recognition
-      const result = await this.recognizeOnceAsync(recognizer);
+        // Apply pronunciation assessment configuration
+        pronunciationConfig.applyTo(recognizer);
 
-      // Clean up
-      recognizer.close();
-      speechConfig.close();
+        // Run recognition over the whole recording, not just the first utterance
+        const segments = await this.recognizeContinuousAsync(recognizer);
+        const result = mergeSegments(segments, referenceText);
 
-      endTimer();
-      return result;
+        endTimer();
+        return result;
+      } finally {
+        // Release the connection even when recognition fails
+        recognizer?.close();
+        speechConfig.close();
+      }
     } catch (error) {
       endTimer();
 
@@ -158,36 +168,58 @@ export class AzureSpeechAnalyzer implements ISpeechAnalyzer {
     return buffer;
   }
 
-  private recognizeOnceAsync(recognizer: sdk.SpeechRecognizer): Promise<PronunciationResult> {
+  /**
+   * Recognize every utterance until the end of the audio stream
+   */
+  private recognizeContinuousAsync(recognizer: sdk.SpeechRecognizer): Promise<RecognizedSegment[]> {
     return new Promise((resolve, reject) => {
-      recognizer.recognizeOnceAsync(
-        (result) => {
-          if (result.reason === sdk.ResultReason.RecognizedSpeech) {
-            try {
-              const pronunciationResult = this.parseResult(result);
-              resolve(pronunciationResult);
-            } catch (parseError) {
-              reject(new AudioProcessingError(
-                `Failed to parse pronunciation result: ${parseError instanceof Error ? parseError.message : String(parseError)}`
-              ));
-            }
-          } else if (result.reason === sdk.ResultReason.NoMatch) {
-            reject(new AudioProcessingError(
-              'No speech could be recognized. Please speak clearly and try again.'
-            ));
-          } else if (result.reason === sdk.ResultReason.Canceled) {
-            const cancellation = sdk.CancellationDetails.fromResult(result);
-            reject(new ExternalServiceError(
-              'Azure Speech',
-              new Error(`Recognition canceled: ${cancellation.reason} - ${cancellation.errorDetails}`)
-            ));
-          } else {
-            reject(new AudioProcessingError(`Unexpected result reason: ${result.reason}`));
-          }
-        },
-        (error: string) => {
-          reject(new ExternalServiceError('Azure Speech', new Error(error)));
+      const segments: RecognizedSegment[] = [];
+      let settled = false;
+
+      const finish = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+
+        recognizer.stopContinuousRecognitionAsync(
+          () => (error ? reject(error) : resolve(segments)),
+          () => (error ? reject(error) : resolve(segments))
+        );
+      };
+
+      recognizer.recognized = (_sender, event) => {
+        if (event.result.reason !== sdk.ResultReason.RecognizedSpeech || !event.result.text) {
+          return; // Silence between utterances
+        }
+
+        try {
+          segments.push({
+            result: this.parseResult(event.result),
+            offset: event.result.offset,
+            duration: event.result.duration,
+          });
+        } catch (parseError) {
+          finish(new AudioProcessingError(
+            `Failed to parse pronunciation result: ${parseError instanceof Error ? parseError.message : String(parseError)}`
+          ));
         }
+      };
+
+      recognizer.canceled = (_sender, event) => {
+        if (event.reason === sdk.CancellationReason.EndOfStream) {
+          finish();
+          return;
+        }
+        finish(new ExternalServiceError(
+          'Azure Speech',
+          new Error(`Recognition canceled: ${event.reason} - ${event.errorDetails}`)
+        ));
+      };
+
+      recognizer.sessionStopped = () => finish();
+
+      recognizer.startContinuousRecognitionAsync(
+        () => undefined,
+        (error: string) => finish(new ExternalServiceError('Azure Speech', new Error(error)))
       );
     });
   }
@@ -210,8 +242,8 @@ export class AzureSpeechAnalyzer implements ISpeechAnalyzer {
         const nBest = detail.NBest?.[0];
 
         if (nBest?.Words) {
-          words = this.parseWords(nBest.Words);
-          problemSounds = this.identifyProblemSounds(words);
+          words = this.parseWords(nBest.Words, result.offset);
+          problemSounds = identifyProblemSounds(words);
         }
       } catch (e) {
         logger.warn('Failed to parse detailed pronunciation results', {
@@ -232,24 +264,42 @@ export class AzureSpeechAnalyzer implements ISpeechAnalyzer {
     };
   }
 
-  private parseWords(azureWords: AzureWordResult[]): WordAnalysis[] {
-    return azureWords.map((word) => ({
-      word: word.Word,
-      accuracyScore: word.PronunciationAssessment?.AccuracyScore || 0,
-      errorType: this.mapErrorType(word.PronunciationAssessment?.ErrorType),
-      phonemes: this.parsePhonemes(word.Phonemes || []),
-    }));
+  /**
+   * @param segmentOffset Start of the utterance in the audio (100ns ticks)
+   */
+  private parseWords(azureWords: AzureWordResult[], segmentOffset: number): WordAnalysis[] {
+    return azureWords.map((word) => {
+      const offset = this.toAbsoluteOffset(word.Offset, segmentOffset);
+      return {
+        word: word.Word,
+        accuracyScore: word.PronunciationAssessment?.AccuracyScore || 0,
+        errorType: this.mapErrorType(word.PronunciationAssessment?.ErrorType),
+        phonemes: this.parsePhonemes(word.Phonemes || [], segmentOffset),
+        // Omitted words were never spoken and carry no timing
+        offsetMs: offset !== undefined && word.Duration ? Math.round(offset / TICKS_PER_MS) : undefined,
+        durationMs: offset !== undefined && word.Duration ? Math.round(word.Duration / TICKS_PER_MS) : undefined,
+      };
+    });
   }
 
-  private parsePhonemes(azurePhonemes: AzurePhonemeResult[]): PhonemeAnalysis[] {
+  private parsePhonemes(azurePhonemes: AzurePhonemeResult[], segmentOffset: number): PhonemeAnalysis[] {
     return azurePhonemes.map((phoneme) => ({
       phoneme: phoneme.Phoneme,
       accuracyScore: phoneme.PronunciationAssessment?.AccuracyScore || 0,
-      offset: phoneme.Offset,
+      offset: this.toAbsoluteOffset(phoneme.Offset, segmentOffset),
       duration: phoneme.Duration,
     }));
   }
 
+  /**
+   * Azure reports offsets from the start of the stream; rebase any that are
+   * relative to their utterance so merged segments share one timeline
+   */
+  private toAbsoluteOffset(offset: number | undefined, segmentOffset: number): number | undefined {
+    if (offset === undefined) return undefined;
+    return offset < segmentOffset ? offset + segmentOffset : offset;
+  }
+
   private mapErrorType(
     errorType?: string
   ): 'mispronunciation' | 'omission' | 'insertion' | 'none' {
@@ -264,19 +314,4 @@ export class AzureSpeechAnalyzer implements ISpeechAnalyzer {
         return 'none';
     }
   }
-
-  private identifyProblemSounds(words: WordAnalysis[]): string[] {
-    const problemPhonemes = new Set<string>();
-
-    for (const word of words) {
-      for (const phoneme of word.phonemes) {
-        // Consider phonemes with accuracy below 70 as problematic
-        if (phoneme.accuracyScore < 70) {
-          problemPhonemes.add(phoneme.phoneme);
-        }
-      }
-    }
-
-    return Array.from(problemPhonemes);
-  }
 }
@@ -1,5 +1,10 @@
 import * as sdk from 'microsoft-cognitiveservices-speech-sdk';
 import { EventEmitter } from 'events';
+import type {
+  IStreamingSpeechAnalyzer,
+  StreamingResult,
+  StreamingStartOptions,
+} from '../../domain/interfaces/index.js';
 import { logger } from '../../shared/utils/logger.js';
 
 interface AzureConfig {
@@ -7,16 +12,16 @@ interface AzureConfig {
   region: string;
 }
 
-export interface StreamingResult {
-  type: 'recognizing' | 'recognized' | 'pronunciation';
-  transcript: string;
-  isFinal: boolean;
-  timestamp: number;
-  pronunciationScore?: number;
-  words?: Array<{
-    word: string;
-    accuracy: number;
-  }>;
+export type { StreamingResult };
+
+// Push stream format (16kHz, 16-bit, mono)
+const PCM_BYTES_PER_MS = 32;
+
+interface AzureWordDetail {
+  Word: string;
+  PronunciationAssessment?: { AccuracyScore: number; ErrorType?: string };
+  Offset?: number;
+  Duration?: number;
 }
 
 export interface StreamingEvents {
@@ -29,11 +34,16 @@ export interface StreamingEvents {
  * Real-time streaming speech analyzer using Azure Speech SDK
  * Provides continuous recognition with interim results
  */
-export class AzureStreamingSpeechAnalyzer extends EventEmitter {
+export class AzureStreamingSpeechAnalyzer extends EventEmitter implements IStreamingSpeechAnalyzer {
   private config: AzureConfig;
   private recognizer: sdk.SpeechRecognizer | null = null;
   private pushStream: sdk.PushAudioInputStream | null = null;
   private isRunning = false;
+  // Stream position of audio pushed, and of the furthest audio the recognizer has reported on
+  private pushedMs = 0;
+  private processedMs = 0;
+  // When the recognizer last reported; it keeps consuming (silent) audio in between
+  private lastEventAt = 0;
 
   constructor(config: AzureConfig) {
     super();
@@ -43,15 +53,15 @@ export class AzureStreamingSpeechAnalyzer extends EventEmitter {
   /**
    * Start streaming recognition session
    */
-  async start(options: {
-    locale?: string;
-    enablePronunciation?: boolean;
-  } = {}): Promise<void> {
+  async start(options: StreamingStartOptions = {}): Promise<void> {
     if (this.isRunning) {
       throw new Error('Streaming session already running');
     }
 
-    const { locale = 'en-US', enablePronunciation = true } = options;
+    const { locale = 'en-US', enablePronunciation = true, referenceText = '' } = options;
+    this.pushedMs = 0;
+    this.processedMs = 0;
+    this.lastEventAt = Date.now();
 
     try {
       const speechConfig = sdk.SpeechConfig.fromSubscription(
@@ -71,7 +81,7 @@ export class AzureStreamingSpeechAnalyzer extends EventEmitter {
       // Configure pronunciation assessment if enabled
       if (enablePronunciation) {
         const pronunciationConfig = new sdk.PronunciationAssessmentConfig(
-          '', // Empty reference text for continuous assessment
+          referenceText, // Empty for unscripted assessment
           sdk.PronunciationAssessmentGradingSystem.HundredMark,
           sdk.PronunciationAssessmentGranularity.Phoneme,
           true
@@ -83,6 +93,7 @@ export class AzureStreamingSpeechAnalyzer extends EventEmitter {
 
       // Handle interim results (while speaking)
       this.recognizer.recognizing = (_sender, event) => {
+        this.markProcessed(event.result);
         if (event.result.reason === sdk.ResultReason.RecognizingSpeech) {
           this.emit('result', {
             type: 'recognizing',
@@ -95,6 +106,7 @@ export class AzureStreamingSpeechAnalyzer extends EventEmitter {
 
       // Handle final results (after pause/silence)
       this.recognizer.recognized = (_sender, event) => {
+        this.markProcessed(event.result);
         if (event.result.reason === sdk.ResultReason.RecognizedSpeech) {
           const result: StreamingResult = {
             type: 'recognized',
@@ -118,10 +130,16 @@ export class AzureStreamingSpeechAnalyzer extends EventEmitter {
                 const detail = JSON.parse(detailJson);
                 const nBest = detail.NBest?.[0];
                 if (nBest?.Words) {
-                  result.words = nBest.Words.map((w: { Word: string; PronunciationAssessment?: { AccuracyScore: number } }) => ({
-                    word: w.Word,
-                    accuracy: w.PronunciationAssessment?.AccuracyScore || 0,
-                  }));
+                  // Omissions are judged against the whole session by the caller, not per segment
+                  result.words = (nBest.Words as AzureWordDetail[])
+                    .filter((w) => w.PronunciationAssessment?.ErrorType !== 'Omission')
+                    .map((w) => ({
+                      word: w.Word,
+                      accuracy: w.PronunciationAssessment?.AccuracyScore || 0,
+                      // Ticks (100ns) from the start of the stream
+                      offsetMs: w.Offset !== undefined ? Math.round(w.Offset / 10000) : undefined,
+                      durationMs: w.Duration !== undefined ? Math.round(w.Duration / 10000) : undefined,
+                    }));
                 }
               }
             }
@@ -186,6 +204,7 @@ export class AzureStreamingSpeechAnalyzer extends EventEmitter {
 
     const uint8Array = new Uint8Array(chunk);
     this.pushStream.write(uint8Array.buffer as ArrayBuffer);
+    this.pushedMs += chunk.length / PCM_BYTES_PER_MS;
   }
 
   /**
@@ -216,6 +235,14 @@ export class AzureStreamingSpeechAnalyzer extends EventEmitter {
     this.cleanup();
   }
 
+  /**
+   * Results (including silence) carry the stream position they cover, in 100ns ticks
+   */
+  private markProcessed(result: sdk.SpeechRecognitionResult): void {
+    this.processedMs = Math.max(this.processedMs, (result.offset + result.duration) / 10000);
+    this.lastEventAt = Date.now();
+  }
+
   private cleanup(): void {
     this.isRunning = false;
 
@@ -233,4 +260,14 @@ export class AzureStreamingSpeechAnalyzer extends EventEmitter {
   get running(): boolean {
     return this.isRunning;
   }
+
+  /**
+   * Audio pushed that the recognizer has not reported on yet
+   * Silence produces no events, so audio is also counted as processed at real-time
+   * speed since the last event - otherwise a quiet stretch would look like a backlog.
+   */
+  get backlogMs(): number {
+    const silentMs = Date.now() - this.lastEventAt;
+    return Math.max(0, this.pushedMs - this.processedMs - silentMs);
+  }
 }
@@ -1,63 +1,108 @@
 import * as sdk from 'microsoft-cognitiveservices-speech-sdk';
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import type { Result } from '../../shared/types/index.js';
+import type {
+  ITTSService,
+  TTSOutputFormat,
+  TTSSynthesizeOptions,
+  TTSSynthesizeResult,
+  WordBoundary,
+} from '../../domain/interfaces/index.js';
+import { ExternalServiceError, ValidationError } from '../../shared/errors/index.js';
 import { logger } from '../../shared/utils/logger.js';
 
-export interface WordBoundary {
-  word: string;
-  startMs: number;
-  endMs: number;
-}
-
-export interface TTSResult {
-  audioBuffer: Buffer;
-  wordBoundaries: WordBoundary[];
-  durationMs: number;
-}
-
 interface AzureTTSConfig {
   subscriptionKey: string;
   region: string;
-  voice?: string;
-  audioDir?: string;
+  defaultVoice?: string;
 }
 
+const OUTPUT_FORMATS: Record<TTSOutputFormat, { azure: sdk.SpeechSynthesisOutputFormat; contentType: string }> = {
+  mp3: { azure: sdk.SpeechSynthesisOutputFormat.Audio16Khz128KBitRateMonoMp3, contentType: 'audio/mpeg' },
+  wav: { azure: sdk.SpeechSynthesisOutputFormat.Riff16Khz16BitMonoPcm, contentType: 'audio/wav' },
+};
+
 /**
  * Azure Text-to-Speech Service
- * Synthesizes speech with word-level timing information for synchronization
+ * Synthesizes speech with word-level timing information, for chat replies
+ * and (through ArticleTTSService) read-along article audio
  */
-export class AzureTTSService {
+export class AzureTTSService implements ITTSService {
   private config: AzureTTSConfig;
-  private audioDir: string;
 
   constructor(config: AzureTTSConfig) {
     this.config = {
       ...config,
-      voice: config.voice || 'en-US-JennyNeural', // Natural female voice
+      defaultVoice: config.defaultVoice || 'en-US-JennyNeural', // Natural female voice
     };
-    // Use process.cwd() for ESM compatibility - assumes running from apps/backend
-    this.audioDir = config.audioDir || path.join(process.cwd(), 'data/audio');
   }
 
-  /**
-   * Synthesize text to speech with word boundaries
-   */
-  async synthesize(text: string, articleId?: string): Promise<TTSResult> {
+  async isReady(): Promise<boolean> {
+    try {
+      const speechConfig = sdk.SpeechConfig.fromSubscription(
+        this.config.subscriptionKey,
+        this.config.region
+      );
+      speechConfig.close();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async synthesize(
+    text: string,
+    options: TTSSynthesizeOptions = {}
+  ): Promise<Result<TTSSynthesizeResult>> {
+    const endTimer = logger.time('AzureTTSService.synthesize');
+
+    if (!text || text.trim().length === 0) {
+      endTimer();
+      return {
+        success: false,
+        error: new ValidationError('Text is empty'),
+      };
+    }
+
+    try {
+      const result = await this.synthesizeWithAzure(text, {
+        voiceId: options.voiceId || this.config.defaultVoice!,
+        rate: options.rate ?? 0,
+        pitch: options.pitch ?? 0,
+        format: options.format ?? 'mp3',
+      });
+      endTimer();
+      return { success: true, data: result };
+    } catch (error) {
+      endTimer();
+      logger.error('TTS synthesis failed', { error, textLength: text.length });
+      return {
+        success: false,
+        error: new ExternalServiceError(
+          'Azure TTS',
+          error instanceof Error ? error : new Error(String(error))
+        ),
+      };
+    }
+  }
+
+  private synthesizeWithAzure(
+    text: string,
+    options: Required<TTSSynthesizeOptions>
+  ): Promise<TTSSynthesizeResult> {
     const wordBoundaries: WordBoundary[] = [];
+    const format = OUTPUT_FORMATS[options.format];
 
-    return new Promise(async (resolve, reject) => {
+    return new Promise((resolve, reject) => {
       try {
         const speechConfig = sdk.SpeechConfig.fromSubscription(
           this.config.subscriptionKey,
           this.config.region
         );
 
-        // Use high-quality audio format
-        speechConfig.speechSynthesisOutputFormat =
-          sdk.SpeechSynthesisOutputFormat.Audio16Khz128KBitRateMonoMp3;
-        speechConfig.speechSynthesisVoiceName = this.config.voice!;
+        speechConfig.speechSynthesisOutputFormat = format.azure;
+        speechConfig.speechSynthesisVoiceName = options.voiceId;
 
-        // Create synthesizer with no audio output (we'll capture the buffer)
+        // Create synthesizer with no audio output (we capture the buffer)
         const synthesizer = new sdk.SpeechSynthesizer(speechConfig, undefined);
 
         // Track word boundaries
@@ -70,33 +115,28 @@ export class AzureTTSService {
         };
 
         // Build SSML for better control
-        const ssml = this.buildSSML(text);
+        const ssml = this.buildSSML(text, options.voiceId, options.rate, options.pitch);
 
         synthesizer.speakSsmlAsync(
           ssml,
-          async (result) => {
-            if (result.reason === sdk.ResultReason.SynthesizingAudioCompleted) {
-              const audioBuffer = Buffer.from(result.audioData);
-              const durationMs = result.audioDuration / 10000; // Convert from 100ns to ms
-
-              // Optionally save to disk for caching
-              if (articleId) {
-                await this.saveAudioFile(articleId, audioBuffer);
-              }
+          (result) => {
+            synthesizer.close();
+            speechConfig.close();
 
-              synthesizer.close();
+            if (result.reason === sdk.ResultReason.SynthesizingAudioCompleted) {
               resolve({
-                audioBuffer,
+                audio: Buffer.from(result.audioData),
+                contentType: format.contentType,
                 wordBoundaries,
-                durationMs,
+                durationMs: Math.round(result.audioDuration / 10000), // 100ns to ms
               });
             } else {
-              synthesizer.close();
               reject(new Error(`Speech synthesis failed: ${result.errorDetails}`));
             }
           },
           (error) => {
             synthesizer.close();
+            speechConfig.close();
             reject(new Error(`Speech synthesis error: ${error}`));
           }
         );
@@ -106,62 +146,8 @@ export class AzureTTSService {
     });
   }
 
-  /**
-   * Get cached audio file if exists
-   */
-  async getCachedAudio(articleId: string): Promise<Buffer | null> {
-    try {
-      const filePath = this.getAudioFilePath(articleId);
-      return await fs.readFile(filePath);
-    } catch {
-      return null;
-    }
-  }
-
-  /**
-   * Get cached word boundaries if exists
-   */
-  async getCachedWordBoundaries(articleId: string): Promise<WordBoundary[] | null> {
-    try {
-      const filePath = this.getWordBoundariesFilePath(articleId);
-      const data = await fs.readFile(filePath, 'utf-8');
-      return JSON.parse(data);
-    } catch {
-      return null;
-    }
-  }
-
-  /**
-   * Synthesize and cache audio for an article
-   */
-  async synthesizeAndCache(text: string, articleId: string): Promise<TTSResult> {
-    // Check if already cached
-    const cachedAudio = await this.getCachedAudio(articleId);
-    const cachedBoundaries = await this.getCachedWordBoundaries(articleId);
-
-    if (cachedAudio && cachedBoundaries) {
-      logger.info('Returning cached TTS audio', { articleId });
-      return {
-        audioBuffer: cachedAudio,
-        wordBoundaries: cachedBoundaries,
-        durationMs: 0, // Not stored, but not critical
-      };
-    }
-
-    // Generate new
-    const result = await this.synthesize(text, articleId);
-
-    // Save word boundaries
-    await this.saveWordBoundaries(articleId, result.wordBoundaries);
-
-    return result;
-  }
-
-  /**
-   * Build SSML for better pronunciation and pacing
-   */
-  private buildSSML(text: string): string {
-    // Clean up text for better TTS
+  private buildSSML(text: string, voiceId: string, rate: number, pitch: number): string {
+    // Escape XML special characters
     const cleanText = text
       .replace(/&/g, '&amp;')
       .replace(/</g, '&lt;')
@@ -169,57 +155,18 @@ export class AzureTTSService {
       .replace(/"/g, '&quot;')
       .replace(/'/g, '&apos;');
 
+    // Format rate and pitch as percentages
+    const rateStr = rate >= 0 ? `+${rate}%` : `${rate}%`;
+    const pitchStr = pitch >= 0 ? `+${pitch}%` : `${pitch}%`;
+
     return `
       <speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="en-US">
-        <voice name="${this.config.voice}">
-          <prosody rate="0%" pitch="0%">
+        <voice name="${voiceId}">
+          <prosody rate="${rateStr}" pitch="${pitchStr}">
             ${cleanText}
           </prosody>
         </voice>
       </speak>
     `.trim();
   }
-
-  /**
-   * Get audio file path for article
-   */
-  private getAudioFilePath(articleId: string): string {
-    return path.join(this.audioDir, `${articleId}.mp3`);
-  }
-
-  /**
-   * Get word boundaries file path for article
-   */
-  private getWordBoundariesFilePath(articleId: string): string {
-    return path.join(this.audioDir, `${articleId}-boundaries.json`);
-  }
-
-  /**
-   * Save audio file to disk
-   */
-  private async saveAudioFile(articleId: string, buffer: Buffer): Promise<void> {
-    try {
-      await fs.mkdir(this.audioDir, { recursive: true });
-      await fs.writeFile(this.getAudioFilePath(articleId), buffer);
-      logger.info('Saved TTS audio file', { articleId });
-    } catch (error) {
-      logger.error('Failed to save audio file', { articleId, error });
-    }
-  }
-
-  /**
-   * Save word boundaries to disk
-   */
-  private async saveWordBoundaries(articleId: string, boundaries: WordBoundary[]): Promise<void> {
-    try {
-      await fs.mkdir(this.audioDir, { recursive: true });
-      await fs.writeFile(
-        this.getWordBoundariesFilePath(articleId),
-        JSON.stringify(boundaries, null, 2)
-      );
-      logger.info('Saved word boundaries', { articleId, count: boundaries.length });
-    } catch (error) {
-      logger.error('Failed to save word boundaries', { articleId, error });
-    }
-  }
 }
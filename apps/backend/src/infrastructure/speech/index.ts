@@ -1,4 +1,3 @@
 export { AzureSpeechAnalyzer } from './AzureSpeechAnalyzer.js';
 export { AzureStreamingSpeechAnalyzer, type StreamingResult } from './AzureStreamingSpeechAnalyzer.js';
-export { AzureTTSService, type WordBoundary, type TTSResult } from './AzureTTSService.js';
-export { AzureChatTTSService } from './AzureChatTTSService.js';
+export { AzureTTSService } from './AzureTTSService.js';
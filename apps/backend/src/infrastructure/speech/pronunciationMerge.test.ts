@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { PronunciationResult, WordAnalysis } from '../../shared/types/index.js';
+import { AudioProcessingError } from '../../shared/errors/index.js';
+import { mergeSegments, type RecognizedSegment } from './pronunciationMerge.js';
+
+function word(text: string, errorType: WordAnalysis['errorType'] = 'none', phonemeAccuracy = 90): WordAnalysis {
+  return {
+    word: text,
+    accuracyScore: errorType === 'omission' ? 0 : 90,
+    errorType,
+    phonemes: errorType === 'omission' ? [] : [{ phoneme: text[0], accuracyScore: phonemeAccuracy }],
+  };
+}
+
+function segment(words: WordAnalysis[], scores: Partial<PronunciationResult>, duration = 1): RecognizedSegment {
+  return {
+    result: {
+      overallScore: 80,
+      accuracyScore: 90,
+      fluencyScore: 80,
+      prosodyScore: 0,
+      completenessScore: 100,
+      transcript: words.filter((w) => w.errorType !== 'omission').map((w) => w.word).join(' '),
+      words,
+      problemSounds: [],
+      ...scores,
+    },
+    offset: 0,
+    duration,
+  };
+}
+
+describe('mergeSegments', () => {
+  it('rejects a recording with no recognized speech', () => {
+    expect(() => mergeSegments([], null)).toThrow(AudioProcessingError);
+  });
+
+  it('returns a single segment as is', () => {
+    const only = segment([word('hello')], { overallScore: 77 });
+    expect(mergeSegments([only], 'Hello.')).toBe(only.result);
+  });
+
+  it('weights unscripted scores by segment duration', () => {
+    const result = mergeSegments([
+      segment([word('one')], { overallScore: 90, accuracyScore: 90 }, 3),
+      segment([word('two', 'none', 50)], { overallScore: 50, accuracyScore: 70 }, 1),
+    ], null);
+
+    expect(result).toMatchObject({ overallScore: 80, accuracyScore: 85, transcript: 'one two' });
+    expect(result.words.map((w) => w.word)).toEqual(['one', 'two']);
+    expect(result.problemSounds).toEqual(['t']);
+  });
+
+  it('scores a scripted reading split into utterances against the whole reference', () => {
+    // Azure reports each utterance's unread reference words as omissions, and a completeness of 40
+    const scripted = { overallScore: 62, accuracyScore: 90, fluencyScore: 80, completenessScore: 40 };
+    const result = mergeSegments([
+      segment([word('the'), word('cat'), word('sat', 'omission'), word('on', 'omission'), word('mat', 'omission')], scripted),
+      segment([word('the', 'omission'), word('cat', 'omission'), word('sat', 'omission'), word('on'), word('mat')], scripted),
+    ], 'The cat sat on the mat.');
+
+    expect(result.words.map((w) => `${w.word}:${w.errorType}`)).toEqual([
+      'the:none', 'cat:none', 'sat:omission', 'on:none', 'the:omission', 'mat:none',
+    ]);
+    expect(result.completenessScore).toBe(67);
+    // 90 * 0.6 + 80 * 0.2 + 67 * 0.2, not the deflated per-utterance 62
+    expect(result.overallScore).toBeCloseTo(83.4);
+  });
+
+  it('counts prosody in the scripted score when it was assessed', () => {
+    const scores = { accuracyScore: 90, fluencyScore: 80, prosodyScore: 70, completenessScore: 50 };
+    const result = mergeSegments([
+      segment([word('hello')], scores),
+      segment([word('world')], scores),
+    ], 'Hello world.');
+
+    expect(result.completenessScore).toBe(100);
+    expect(result.overallScore).toBeCloseTo(90 * 0.4 + 80 * 0.2 + 100 * 0.2 + 70 * 0.2);
+  });
+});
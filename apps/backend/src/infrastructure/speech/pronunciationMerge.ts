@@ -0,0 +1,133 @@
+import type { PronunciationResult, WordAnalysis } from '../../shared/types/index.js';
+import { AudioProcessingError } from '../../shared/errors/index.js';
+import { alignToReference } from '../../shared/utils/referenceAlignment.js';
+
+/**
+ * One recognized utterance of a continuous recognition
+ */
+export interface RecognizedSegment {
+  result: PronunciationResult;
+  // Segment position in the audio, in 100ns ticks
+  offset: number;
+  duration: number;
+}
+
+// Weights Azure combines into the scripted pronunciation score, with and without prosody
+const SCRIPTED_WEIGHTS = { accuracy: 0.6, fluency: 0.2, completeness: 0.2 };
+const SCRIPTED_WEIGHTS_WITH_PROSODY = { accuracy: 0.4, fluency: 0.2, completeness: 0.2, prosody: 0.2 };
+
+/**
+ * Combine per-utterance results into one result for the whole recording
+ * Scores are weighted by segment duration; words keep their audio order.
+ * Azure scores each utterance against the whole reference text, so with a
+ * reference, omissions and completeness are recomputed over all spoken words
+ * and the overall score is rebuilt from them.
+ * @throws AudioProcessingError when nothing was recognized
+ */
+export function mergeSegments(segments: RecognizedSegment[], referenceText: string | null): PronunciationResult {
+  if (segments.length === 0) {
+    throw new AudioProcessingError(
+      'No speech could be recognized. Please speak clearly and try again.'
+    );
+  }
+
+  if (segments.length === 1) {
+    return segments[0].result;
+  }
+
+  // Fall back to word count when the SDK reports no duration
+  const weights = segments.map((segment) => segment.duration || segment.result.words.length || 1);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const weighted = (score: (result: PronunciationResult) => number) =>
+    segments.reduce((sum, segment, i) => sum + score(segment.result) * weights[i], 0) / totalWeight;
+
+  const accuracyScore = weighted((r) => r.accuracyScore);
+  const fluencyScore = weighted((r) => r.fluencyScore);
+  const prosodyScore = weighted((r) => r.prosodyScore);
+  let overallScore = weighted((r) => r.overallScore);
+  let completenessScore = weighted((r) => r.completenessScore);
+  let words = segments.flatMap((segment) => segment.result.words);
+
+  const scripted = referenceText ? mergeScriptedWords(words, referenceText) : null;
+  if (scripted) {
+    ({ words, completenessScore } = scripted);
+    overallScore = scriptedOverallScore(accuracyScore, fluencyScore, completenessScore, prosodyScore);
+  }
+
+  return {
+    overallScore,
+    accuracyScore,
+    fluencyScore,
+    prosodyScore,
+    completenessScore,
+    transcript: segments.map((segment) => segment.result.transcript).join(' '),
+    words,
+    problemSounds: identifyProblemSounds(words),
+  };
+}
+
+/**
+ * Phonemes scored below 70 anywhere in the words
+ */
+export function identifyProblemSounds(words: WordAnalysis[]): string[] {
+  const problemPhonemes = new Set<string>();
+
+  for (const word of words) {
+    for (const phoneme of word.phonemes) {
+      // Consider phonemes with accuracy below 70 as problematic
+      if (phoneme.accuracyScore < 70) {
+        problemPhonemes.add(phoneme.phoneme);
+      }
+    }
+  }
+
+  return Array.from(problemPhonemes);
+}
+
+/**
+ * Align the spoken words of all utterances to the reference at once
+ * Every utterance lists the reference words it did not cover as omissions; those
+ * are dropped, and only words no utterance read are reported as omitted.
+ * @returns null when the reference has no words to align
+ */
+function mergeScriptedWords(
+  words: WordAnalysis[],
+  referenceText: string
+): { words: WordAnalysis[]; completenessScore: number } | null {
+  const spoken = words.filter((word) => word.errorType !== 'omission');
+  const alignment = alignToReference(
+    referenceText,
+    spoken.map((word) => ({ word: word.word, accuracy: word.accuracyScore })),
+    true
+  );
+  if (alignment.referenceWordCount === 0) {
+    return null;
+  }
+
+  // Aligned words other than omissions are the spoken words, in order
+  let next = 0;
+  const merged = alignment.words.map((aligned): WordAnalysis =>
+    aligned.status === 'omitted'
+      ? { word: aligned.referenceWord ?? '', accuracyScore: 0, errorType: 'omission', phonemes: [] }
+      : spoken[next++]
+  );
+
+  const read = alignment.referenceWordCount - alignment.counts.omitted;
+  return {
+    words: merged,
+    completenessScore: Math.round((read / alignment.referenceWordCount) * 100),
+  };
+}
+
+/**
+ * Pronunciation score of a scripted reading from its component scores
+ * Prosody only counts when it was assessed (a score of 0 means it was not).
+ */
+function scriptedOverallScore(accuracy: number, fluency: number, completeness: number, prosody: number): number {
+  if (prosody > 0) {
+    const w = SCRIPTED_WEIGHTS_WITH_PROSODY;
+    return accuracy * w.accuracy + fluency * w.fluency + completeness * w.completeness + prosody * w.prosody;
+  }
+  const w = SCRIPTED_WEIGHTS;
+  return accuracy * w.accuracy + fluency * w.fluency + completeness * w.completeness;
+}
@@ -0,0 +1,104 @@
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TTSSynthesizeResult } from '../../domain/interfaces/index.js';
+import { FileTTSCache } from './FileTTSCache.js';
+
+const KEY_A = 'a'.repeat(64);
+const KEY_B = 'b'.repeat(64);
+const KEY_C = 'c'.repeat(64);
+
+function entry(bytes: number): TTSSynthesizeResult {
+  return {
+    audio: Buffer.alloc(bytes, 1),
+    contentType: 'audio/mpeg',
+    wordBoundaries: [{ word: 'hello', startMs: 0, endMs: 300 }],
+    durationMs: 300,
+  };
+}
+
+describe('FileTTSCache', () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(join(tmpdir(), 'tts-cache-'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('returns what was stored', async () => {
+    const cache = new FileTTSCache({ baseDir });
+    await cache.set(KEY_A, entry(100));
+
+    const cached = await cache.get(KEY_A);
+    expect(cached?.audio.length).toBe(100);
+    expect(cached).toMatchObject({ contentType: 'audio/mpeg', durationMs: 300 });
+    expect(await cache.stat(KEY_A)).toMatchObject({ key: KEY_A, size: 100, contentType: 'audio/mpeg' });
+    expect(await cache.get(KEY_B)).toBeNull();
+  });
+
+  it('stores one key set concurrently without leaving temp files', async () => {
+    const cache = new FileTTSCache({ baseDir });
+    await Promise.all([cache.set(KEY_A, entry(100)), cache.set(KEY_A, entry(100))]);
+
+    expect((await cache.get(KEY_A))?.audio.length).toBe(100);
+    expect((await readdir(baseDir)).filter((file) => file.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('evicts the least recently used entries past maxBytes', async () => {
+    // Room for two 1000-byte entries with their metadata
+    const cache = new FileTTSCache({ baseDir, maxBytes: 2500 });
+    await cache.set(KEY_A, entry(1000));
+    await cache.set(KEY_B, entry(1000));
+    await cache.get(KEY_A); // A is now more recent than B
+    await cache.set(KEY_C, entry(1000));
+
+    expect(await cache.has(KEY_A)).toBe(true);
+    expect(await cache.has(KEY_B)).toBe(false);
+    expect(await cache.has(KEY_C)).toBe(true);
+    expect(cache.getStats()).toMatchObject({ entries: 2, evictions: 1 });
+    expect(cache.getStats().totalBytes).toBeLessThanOrEqual(2500);
+    expect(await readdir(baseDir)).not.toContain(`${KEY_B}.audio`);
+  });
+
+  it('keeps an entry larger than maxBytes that was just written', async () => {
+    const cache = new FileTTSCache({ baseDir, maxBytes: 500 });
+    await cache.set(KEY_A, entry(1000));
+    expect(await cache.has(KEY_A)).toBe(true);
+  });
+
+  it('expires entries unused for maxAgeMs', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = new FileTTSCache({ baseDir, maxAgeMs: 60_000 });
+    await cache.set(KEY_A, entry(100));
+    await cache.set(KEY_B, entry(100));
+
+    vi.advanceTimersByTime(30_000);
+    await cache.get(KEY_B);
+    vi.advanceTimersByTime(40_000);
+
+    expect(await cache.get(KEY_A)).toBeNull();
+    expect(await cache.cleanup()).toBe(0);
+    expect(await cache.has(KEY_B)).toBe(true);
+    expect(cache.getStats().expirations).toBe(1);
+  });
+
+  it('rebuilds its index from disk and drops orphaned audio', async () => {
+    await new FileTTSCache({ baseDir }).set(KEY_A, entry(100));
+    await writeFile(join(baseDir, `${KEY_B}.audio`), Buffer.alloc(10));
+
+    const restarted = new FileTTSCache({ baseDir });
+    expect((await restarted.get(KEY_A))?.audio.length).toBe(100);
+    expect(restarted.getStats().entries).toBe(1);
+    expect(await readdir(baseDir)).not.toContain(`${KEY_B}.audio`);
+  });
+
+  it('rejects keys that are not digests', async () => {
+    const cache = new FileTTSCache({ baseDir });
+    await expect(cache.set('../escape', entry(10))).rejects.toThrow('Invalid TTS cache key');
+  });
+});
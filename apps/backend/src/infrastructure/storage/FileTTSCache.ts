@@ -0,0 +1,305 @@
+import { createReadStream } from 'node:fs';
+import { mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import type { Readable } from 'node:stream';
+import type {
+  AudioByteRange,
+  ITTSCache,
+  TTSCachedAudio,
+  TTSCacheStats,
+  TTSSynthesizeResult,
+} from '../../domain/interfaces/index.js';
+import { ValidationError } from '../../shared/errors/index.js';
+import { logger } from '../../shared/utils/logger.js';
+
+interface FileTTSCacheConfig {
+  /**
+   * Cache directory (created on first write)
+   */
+  baseDir: string;
+
+  /**
+   * Total size of audio and metadata before least recently used entries are evicted
+   */
+  maxBytes: number;
+
+  /**
+   * Entries unused this long are removed by cleanup() and treated as missing
+   */
+  maxAgeMs: number;
+}
+
+const DEFAULT_CONFIG: FileTTSCacheConfig = {
+  baseDir: 'data/tts-cache',
+  maxBytes: 500 * 1024 * 1024,
+  maxAgeMs: 30 * 24 * 60 * 60 * 1000,
+};
+
+// Keys are SHA-256 hex digests
+const KEY_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Everything but the audio, stored next to it as JSON
+ */
+type EntryMetadata = Omit<TTSSynthesizeResult, 'audio'> & { createdAt: number };
+
+interface IndexEntry {
+  bytes: number;
+  lastUsedAt: number;
+}
+
+/**
+ * TTS cache on the local filesystem
+ * Each entry is `<key>.audio` plus `<key>.json` (content type, word boundaries,
+ * duration). Recency is kept in the metadata file's mtime, so LRU order
+ * survives restarts; the index is rebuilt from the directory on first use.
+ * Audio files are never rewritten in place, so their mtime is the write time.
+ */
+export class FileTTSCache implements ITTSCache {
+  private config: FileTTSCacheConfig;
+  // Insertion order is recency order: least recently used first
+  private index = new Map<string, IndexEntry>();
+  private totalBytes = 0;
+  private evictions = 0;
+  private expirations = 0;
+  private loaded?: Promise<void>;
+
+  constructor(config: Partial<FileTTSCacheConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.config.baseDir = resolve(this.config.baseDir);
+  }
+
+  async get(key: string): Promise<TTSSynthesizeResult | null> {
+    const entry = await this.lookup(key);
+    if (!entry) return null;
+
+    let value: TTSSynthesizeResult;
+    try {
+      const [audio, json] = await Promise.all([
+        readFile(this.audioFile(key)),
+        readFile(this.metadataFile(key), 'utf-8'),
+      ]);
+      const { createdAt: _createdAt, ...metadata } = JSON.parse(json) as EntryMetadata;
+      value = { ...metadata, audio };
+    } catch (error) {
+      logger.warn('Dropping unreadable TTS cache entry', {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await this.remove(key);
+      return null;
+    }
+
+    this.touch(key, entry);
+    return value;
+  }
+
+  async stat(key: string): Promise<TTSCachedAudio | null> {
+    const entry = await this.lookup(key);
+    if (!entry) return null;
+
+    let value: TTSCachedAudio;
+    try {
+      const [audio, json] = await Promise.all([
+        stat(this.audioFile(key)),
+        readFile(this.metadataFile(key), 'utf-8'),
+      ]);
+      const { contentType } = JSON.parse(json) as EntryMetadata;
+      value = { key, size: audio.size, contentType, modifiedAt: audio.mtime };
+    } catch (error) {
+      logger.warn('Dropping unreadable TTS cache entry', {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await this.remove(key);
+      return null;
+    }
+
+    this.touch(key, entry);
+    return value;
+  }
+
+  createReadStream(key: string, range?: AudioByteRange): Readable {
+    return createReadStream(this.audioFile(key), range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async has(key: string): Promise<boolean> {
+    await this.load();
+    const entry = this.index.get(key);
+    return entry !== undefined && Date.now() - entry.lastUsedAt <= this.config.maxAgeMs;
+  }
+
+  async set(key: string, value: TTSSynthesizeResult): Promise<void> {
+    await this.load();
+    const { audio, ...rest } = value;
+    const metadata: EntryMetadata = { ...rest, createdAt: Date.now() };
+    const json = JSON.stringify(metadata);
+
+    await mkdir(this.config.baseDir, { recursive: true });
+    // Audio first, so a readable metadata file always has its audio
+    await this.writeAtomic(this.audioFile(key), audio);
+    await this.writeAtomic(this.metadataFile(key), json);
+
+    const previous = this.index.get(key);
+    if (previous) {
+      this.totalBytes -= previous.bytes;
+      this.index.delete(key);
+    }
+    const bytes = audio.length + Buffer.byteLength(json);
+    this.index.set(key, { bytes, lastUsedAt: Date.now() });
+    this.totalBytes += bytes;
+
+    await this.evict(key);
+  }
+
+  async cleanup(): Promise<number> {
+    await this.load();
+    const cutoff = Date.now() - this.config.maxAgeMs;
+
+    const expired = [...this.index].filter(([, entry]) => entry.lastUsedAt < cutoff).map(([key]) => key);
+    for (const key of expired) {
+      await this.remove(key);
+    }
+    this.expirations += expired.length;
+
+    if (expired.length > 0) {
+      logger.info('Expired TTS cache entries', { removed: expired.length, ...this.getStats() });
+    }
+    return expired.length;
+  }
+
+  getStats(): TTSCacheStats {
+    return {
+      entries: this.index.size,
+      totalBytes: this.totalBytes,
+      maxBytes: this.config.maxBytes,
+      evictions: this.evictions,
+      expirations: this.expirations,
+    };
+  }
+
+  /**
+   * Rebuild the index from the cache directory (once)
+   * Audio without metadata is left over from an interrupted write and is removed.
+   */
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      let files: string[];
+      try {
+        files = await readdir(this.config.baseDir);
+      } catch {
+        return; // Not created yet
+      }
+
+      const entries: Array<[string, IndexEntry]> = [];
+      for (const file of files) {
+        const key = file.replace(/\.(audio|json)$/, '');
+        if (!KEY_PATTERN.test(key) || !file.endsWith('.json')) continue;
+
+        try {
+          const [metadata, audio] = await Promise.all([stat(join(this.config.baseDir, file)), stat(this.audioFile(key))]);
+          entries.push([key, { bytes: metadata.size + audio.size, lastUsedAt: metadata.mtimeMs }]);
+        } catch {
+          await this.deleteFiles(key);
+        }
+      }
+
+      const known = new Set(entries.map(([key]) => key));
+      for (const file of files) {
+        const key = file.replace(/\.audio$/, '');
+        if (file.endsWith('.tmp') || (file.endsWith('.audio') && !known.has(key))) {
+          await rm(join(this.config.baseDir, file), { force: true });
+        }
+      }
+
+      entries.sort(([, a], [, b]) => a.lastUsedAt - b.lastUsedAt);
+      for (const [key, entry] of entries) {
+        this.index.set(key, entry);
+        this.totalBytes += entry.bytes;
+      }
+      logger.info('TTS cache loaded', { entries: this.index.size, totalBytes: this.totalBytes });
+    })();
+    return this.loaded;
+  }
+
+  /**
+   * Index entry of a key, removing it if it has expired
+   */
+  private async lookup(key: string): Promise<IndexEntry | null> {
+    await this.load();
+
+    const entry = this.index.get(key);
+    if (!entry) return null;
+
+    if (Date.now() - entry.lastUsedAt > this.config.maxAgeMs) {
+      this.expirations++;
+      await this.remove(key);
+      return null;
+    }
+    return entry;
+  }
+
+  /**
+   * Remove least recently used entries until the cache fits (never the one just written)
+   */
+  private async evict(keep: string): Promise<void> {
+    for (const key of this.index.keys()) {
+      if (this.totalBytes <= this.config.maxBytes) break;
+      if (key === keep) continue;
+      await this.remove(key);
+      this.evictions++;
+    }
+  }
+
+  private touch(key: string, entry: IndexEntry): void {
+    entry.lastUsedAt = Date.now();
+    this.index.delete(key);
+    this.index.set(key, entry);
+
+    const now = new Date(entry.lastUsedAt);
+    utimes(this.metadataFile(key), now, now).catch(() => {
+      // Recency is only lost across a restart
+    });
+  }
+
+  private async remove(key: string): Promise<void> {
+    const entry = this.index.get(key);
+    if (entry) {
+      this.totalBytes -= entry.bytes;
+      this.index.delete(key);
+    }
+    await this.deleteFiles(key);
+  }
+
+  private async deleteFiles(key: string): Promise<void> {
+    // Metadata first, so a crash in between leaves only orphaned audio
+    await rm(this.metadataFile(key), { force: true });
+    await rm(this.audioFile(key), { force: true });
+  }
+
+  /**
+   * Write then rename, so readers never see a half-written file
+   */
+  private async writeAtomic(file: string, data: Buffer | string): Promise<void> {
+    // Unique per write: concurrent sets of one key must not share a temp file
+    const temp = `${file}.${randomUUID()}.tmp`;
+    await writeFile(temp, data);
+    await rename(temp, file);
+  }
+
+  private audioFile(key: string): string {
+    return join(this.config.baseDir, `${this.checkKey(key)}.audio`);
+  }
+
+  private metadataFile(key: string): string {
+    return join(this.config.baseDir, `${this.checkKey(key)}.json`);
+  }
+
+  private checkKey(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new ValidationError(`Invalid TTS cache key: ${key}`);
+    }
+    return key;
+  }
+}
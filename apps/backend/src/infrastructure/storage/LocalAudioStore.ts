@@ -0,0 +1,93 @@
+import { createReadStream } from 'node:fs';
+import { mkdir, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve, sep } from 'node:path';
+import type { Readable } from 'node:stream';
+import type { AudioByteRange, IAudioStore, StoredAudio } from '../../domain/interfaces/index.js';
+import { ValidationError } from '../../shared/errors/index.js';
+import { encodeWav } from '../audio/formats.js';
+import { TARGET_SAMPLE_RATE } from '../audio/pcm.js';
+
+interface LocalAudioStoreConfig {
+  /**
+   * Root directory for recordings (created on first write)
+   */
+  baseDir: string;
+}
+
+const DEFAULT_CONFIG: LocalAudioStoreConfig = {
+  baseDir: 'data/recordings',
+};
+
+// Key segments are IDs: letters, digits, '-' and '_' only
+const KEY_PATTERN = /^[A-Za-z0-9_-]+(\/[A-Za-z0-9_-]+)*$/;
+
+/**
+ * Audio store on the local filesystem
+ * Each recording is a 16kHz mono WAV at `<baseDir>/<key>.wav`, so keys map to
+ * directories (`sessions/<id>.wav`, `conversations/<id>/<messageId>.wav`).
+ */
+export class LocalAudioStore implements IAudioStore {
+  private baseDir: string;
+
+  constructor(config: Partial<LocalAudioStoreConfig> = {}) {
+    this.baseDir = resolve({ ...DEFAULT_CONFIG, ...config }.baseDir);
+  }
+
+  async saveRecording(key: string, pcm: Buffer): Promise<void> {
+    const file = this.fileFor(key);
+    await mkdir(dirname(file), { recursive: true });
+
+    // Write then rename, so readers never see a half-written file
+    const temp = `${file}.${process.pid}.tmp`;
+    await writeFile(temp, encodeWav(pcm, TARGET_SAMPLE_RATE));
+    await rename(temp, file);
+  }
+
+  async stat(key: string): Promise<StoredAudio | null> {
+    try {
+      const info = await stat(this.fileFor(key));
+      return { size: info.size, contentType: 'audio/wav', modifiedAt: info.mtime };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  createReadStream(key: string, range?: AudioByteRange): Readable {
+    return createReadStream(this.fileFor(key), range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async deleteAll(prefix: string): Promise<void> {
+    const path = this.pathFor(prefix);
+    await rm(path, { recursive: true, force: true });
+    await rm(`${path}.wav`, { force: true });
+  }
+
+  async isReady(): Promise<boolean> {
+    try {
+      await mkdir(this.baseDir, { recursive: true });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private fileFor(key: string): string {
+    return `${this.pathFor(key)}.wav`;
+  }
+
+  /**
+   * Resolve a key under baseDir, rejecting anything that could escape it
+   */
+  private pathFor(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new ValidationError(`Invalid audio key: ${key}`);
+    }
+
+    const path = resolve(join(this.baseDir, key));
+    if (!path.startsWith(this.baseDir + sep)) {
+      throw new ValidationError(`Invalid audio key: ${key}`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,2 @@
+export { LocalAudioStore } from './LocalAudioStore.js';
+export { FileTTSCache } from './FileTTSCache.js';
@@ -1,5 +1,11 @@
 import { v4 as uuid } from 'uuid';
-import type { ISpeechAnalyzer, ICommunicationAnalyzer, AnalysisContext } from '../domain/interfaces/index.js';
+import type {
+  ISpeechAnalyzer,
+  ICommunicationAnalyzer,
+  IAudioNormalizer,
+  IAudioStore,
+  AnalysisContext,
+} from '../domain/interfaces/index.js';
 import type {
   SessionAnalysis,
   SessionMode,
@@ -9,8 +15,11 @@ import type {
 } from '../shared/types/index.js';
 import { ValidationError } from '../shared/errors/index.js';
 import { logger } from '../shared/utils/logger.js';
+import { computeSpeechRateMetrics } from '../shared/utils/speechRate.js';
+import type { EntitlementService } from './EntitlementService.js';
 
 interface AnalysisInput {
+  userId: string;
   audio: Buffer;
   mode: SessionMode;
   promptText?: string;
@@ -25,7 +34,10 @@ interface AnalysisInput {
 export class AnalysisService {
   constructor(
     private speechAnalyzer: ISpeechAnalyzer,
-    private communicationAnalyzer: ICommunicationAnalyzer
+    private communicationAnalyzer: ICommunicationAnalyzer,
+    private audioNormalizer: IAudioNormalizer,
+    private entitlementService?: EntitlementService,
+    private audioStore?: IAudioStore
   ) {}
 
   /**
@@ -42,10 +54,43 @@ export class AnalysisService {
       };
     }
 
+    // Expired access or a spent quota is rejected before ffmpeg decodes anything
+    if (this.entitlementService) {
+      const access = await this.entitlementService.authorize(input.userId, 'analysis_seconds', 0);
+      if (!access.success) {
+        endTimer();
+        return access;
+      }
+    }
+
+    // Convert the upload (WAV/MP3/M4A/WebM...) to 16kHz mono PCM
+    let audio: Buffer;
+    let durationSeconds: number;
+    try {
+      const normalized = await this.audioNormalizer.normalize(input.audio);
+      audio = normalized.pcm;
+      durationSeconds = Math.round(normalized.durationMs / 1000);
+    } catch (error) {
+      endTimer();
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+
+    // Check the remaining analysis minutes cover this recording before any paid work
+    if (this.entitlementService) {
+      const access = await this.entitlementService.authorize(input.userId, 'analysis_seconds', durationSeconds);
+      if (!access.success) {
+        endTimer();
+        return access;
+      }
+    }
+
     try {
       // Run pronunciation assessment first to get transcript
       const pronunciationResult = await this.speechAnalyzer.assessPronunciation(
-        input.audio,
+        audio,
         {
           referenceText: input.referenceText,
           enableProsody: true,
@@ -81,20 +126,22 @@ export class AnalysisService {
         input.mode
       );
 
-      // Calculate duration from audio (approximate - 16kHz, 16-bit, mono)
-      const durationSeconds = Math.round(input.audio.length / (16000 * 2));
-
+      const sessionId = uuid();
       const sessionAnalysis: SessionAnalysis = {
-        sessionId: uuid(),
+        sessionId,
         mode: input.mode,
         duration: durationSeconds,
         transcript: pronunciationResult.transcript,
         pronunciation: pronunciationResult,
         communication: communicationResult,
+        speechRate: computeSpeechRateMetrics(pronunciationResult.words),
         overallScore,
+        audioUrl: await this.saveRecording(sessionId, audio),
         createdAt: new Date(),
       };
 
+      await this.entitlementService?.recordUsage(input.userId, 'analysis_seconds', durationSeconds);
+
       endTimer();
 
       return {
@@ -122,7 +169,8 @@ export class AnalysisService {
     referenceText?: string
   ): Promise<Result<PronunciationResult>> {
     try {
-      const result = await this.speechAnalyzer.assessPronunciation(audio, {
+      const normalized = await this.audioNormalizer.normalize(audio);
+      const result = await this.speechAnalyzer.assessPronunciation(normalized.pcm, {
         referenceText,
         enableProsody: true,
       });
@@ -141,8 +189,17 @@ export class AnalysisService {
    */
   async analyzeCommunicationOnly(
     transcript: string,
-    context: AnalysisContext
+    context: AnalysisContext,
+    userId: string
   ): Promise<Result<CommunicationResult>> {
+    // No audio to meter, but the user still needs access and analysis quota left
+    if (this.entitlementService) {
+      const access = await this.entitlementService.authorize(userId, 'analysis_seconds', 0);
+      if (!access.success) {
+        return access;
+      }
+    }
+
     try {
       const result = await this.communicationAnalyzer.analyze(transcript, context);
       return { success: true, data: result };
@@ -154,6 +211,26 @@ export class AnalysisService {
     }
   }
 
+  /**
+   * Keep the normalized recording for playback
+   * Returns its URL, or undefined if there is no store or saving failed.
+   */
+  private async saveRecording(sessionId: string, pcm: Buffer): Promise<string | undefined> {
+    if (!this.audioStore) return undefined;
+
+    try {
+      await this.audioStore.saveRecording(`sessions/${sessionId}`, pcm);
+      return `/api/sessions/${sessionId}/audio`;
+    } catch (error) {
+      // The analysis is still worth returning without playback
+      logger.error('Failed to save session recording', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
   /**
    * Calculate weighted overall score based on mode
    */
@@ -165,6 +242,16 @@ export class AnalysisService {
     // Different weights based on mode
     const weights = this.getWeightsForMode(mode);
 
+    // Placeholder communication values must not count - score on measured speech only
+    if (communication.usedDefaults) {
+      const speechWeight = weights.pronunciation + weights.fluency;
+      return Math.round(
+        (pronunciation.overallScore * weights.pronunciation +
+          pronunciation.fluencyScore * weights.fluency) /
+          speechWeight
+      );
+    }
+
     const pronunciationComponent =
       (pronunciation.overallScore * weights.pronunciation) / 100;
 
@@ -214,15 +301,17 @@ export class AnalysisService {
   /**
    * Check if services are ready
    */
-  async healthCheck(): Promise<{ speech: boolean; communication: boolean }> {
-    const [speechReady, communicationReady] = await Promise.all([
+  async healthCheck(): Promise<{ speech: boolean; communication: boolean; audioDecoder: boolean }> {
+    const [speechReady, communicationReady, audioDecoderReady] = await Promise.all([
       this.speechAnalyzer.isReady(),
       this.communicationAnalyzer.isReady(),
+      this.audioNormalizer.isReady(),
     ]);
 
     return {
       speech: speechReady,
       communication: communicationReady,
+      audioDecoder: audioDecoderReady,
     };
   }
 }
@@ -0,0 +1,78 @@
+import type { Readable } from 'node:stream';
+import type {
+  ArticleAudioOptions,
+  ArticleTTSResult,
+  AudioByteRange,
+  IArticleTTSService,
+  TTSCachedAudio,
+  TTSSynthesizeOptions,
+  TTSSynthesizeResult,
+} from '../domain/interfaces/index.js';
+import type { CachedTTSService } from './CachedTTSService.js';
+
+/**
+ * Playback speeds articles can be synthesized at (1 = the voice's normal rate)
+ */
+export const ARTICLE_PLAYBACK_RATES = [0.75, 0.9, 1, 1.25] as const;
+
+/**
+ * Article TTS Service - article audio and word boundaries from the shared TTS cache
+ * Synthesis goes through the same provider and cache as chat replies; speed
+ * variants use SSML prosody, so they sound natural and have matching boundaries.
+ */
+export class ArticleTTSService implements IArticleTTSService {
+  /**
+   * @param defaultVoiceId Voice used when none is given, so both share one cache entry
+   */
+  constructor(
+    private ttsService: CachedTTSService,
+    private defaultVoiceId?: string
+  ) {}
+
+  async getCached(text: string, options: ArticleAudioOptions = {}): Promise<ArticleTTSResult | null> {
+    const cached = await this.ttsService.getCached(text, this.optionsFor(options));
+    return cached ? toArticleResult(cached) : null;
+  }
+
+  async statCached(text: string, options: ArticleAudioOptions = {}): Promise<TTSCachedAudio | null> {
+    return this.ttsService.statCached(text, this.optionsFor(options));
+  }
+
+  createAudioStream(key: string, range?: AudioByteRange): Readable {
+    return this.ttsService.createReadStream(key, range);
+  }
+
+  async isCached(text: string, options: ArticleAudioOptions = {}): Promise<boolean> {
+    return this.ttsService.isCached(text, this.optionsFor(options));
+  }
+
+  /**
+   * @throws The synthesis error if TTS fails
+   */
+  async synthesizeAndCache(text: string, options: ArticleAudioOptions = {}): Promise<ArticleTTSResult> {
+    const result = await this.ttsService.synthesize(text, this.optionsFor(options));
+    if (!result.success) {
+      throw result.error;
+    }
+    return toArticleResult(result.data);
+  }
+
+  /**
+   * Articles are always MP3; the speed multiplier becomes a prosody percentage
+   */
+  private optionsFor({ rate = 1, voiceId }: ArticleAudioOptions): TTSSynthesizeOptions {
+    return {
+      format: 'mp3',
+      rate: Math.round((rate - 1) * 100),
+      voiceId: voiceId ?? this.defaultVoiceId,
+    };
+  }
+}
+
+function toArticleResult(result: TTSSynthesizeResult): ArticleTTSResult {
+  return {
+    audioBuffer: result.audio,
+    wordBoundaries: result.wordBoundaries,
+    durationMs: result.durationMs,
+  };
+}
@@ -0,0 +1,124 @@
+import { createHash } from 'node:crypto';
+import type { Readable } from 'node:stream';
+import type {
+  AudioByteRange,
+  ITTSCache,
+  TTSCachedAudio,
+  ITTSService,
+  TTSCacheMetrics,
+  TTSSynthesizeOptions,
+  TTSSynthesizeResult,
+} from '../domain/interfaces/index.js';
+import type { Result } from '../shared/types/index.js';
+import { logger } from '../shared/utils/logger.js';
+
+/**
+ * Cached TTS Service - serves repeated synthesis (chat greetings, article audio) from the TTS cache
+ * Entries are keyed by a hash of the text, voice, rate, pitch and format, so
+ * identical requests share one entry whoever makes them.
+ */
+export class CachedTTSService implements ITTSService {
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private ttsService: ITTSService,
+    private cache: ITTSCache
+  ) {}
+
+  async synthesize(text: string, options: TTSSynthesizeOptions = {}): Promise<Result<TTSSynthesizeResult>> {
+    const key = cacheKey(text, options);
+
+    const cached = await this.readCache(key);
+    if (cached) {
+      this.hits++;
+      return { success: true, data: cached };
+    }
+
+    this.misses++;
+    const result = await this.ttsService.synthesize(text, options);
+    if (result.success) {
+      try {
+        await this.cache.set(key, result.data);
+      } catch (error) {
+        logger.error('Failed to cache TTS audio', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Cached audio for a request, without synthesizing on a miss (not counted in the metrics)
+   */
+  async getCached(text: string, options: TTSSynthesizeOptions = {}): Promise<TTSSynthesizeResult | null> {
+    return this.readCache(cacheKey(text, options));
+  }
+
+  /**
+   * Cached audio file for a request, to stream without loading it (null on a miss, not counted)
+   */
+  async statCached(text: string, options: TTSSynthesizeOptions = {}): Promise<TTSCachedAudio | null> {
+    try {
+      return await this.cache.stat(cacheKey(text, options));
+    } catch (error) {
+      logger.error('Failed to read TTS cache', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Stream cached audio found by statCached, or part of it
+   */
+  createReadStream(key: string, range?: AudioByteRange): Readable {
+    return this.cache.createReadStream(key, range);
+  }
+
+  /**
+   * Whether a request would be served from the cache
+   */
+  async isCached(text: string, options: TTSSynthesizeOptions = {}): Promise<boolean> {
+    try {
+      return await this.cache.has(cacheKey(text, options));
+    } catch {
+      return false;
+    }
+  }
+
+  async isReady(): Promise<boolean> {
+    return this.ttsService.isReady();
+  }
+
+  getMetrics(): TTSCacheMetrics {
+    const requests = this.hits + this.misses;
+    return {
+      ...this.cache.getStats(),
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: requests > 0 ? Math.round((this.hits / requests) * 100) / 100 : 0,
+    };
+  }
+
+  /**
+   * A broken cache only costs a synthesis, never the request
+   */
+  private async readCache(key: string): Promise<TTSSynthesizeResult | null> {
+    try {
+      return await this.cache.get(key);
+    } catch (error) {
+      logger.error('Failed to read TTS cache', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+}
+
+function cacheKey(text: string, options: TTSSynthesizeOptions): string {
+  return createHash('sha256')
+    .update(JSON.stringify([text, options.voiceId ?? '', options.rate ?? 0, options.pitch ?? 0, options.format ?? 'mp3']))
+    .digest('hex');
+}
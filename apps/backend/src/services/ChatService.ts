@@ -1,20 +1,30 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { Result } from '../shared/types/index.js';
-import type { ISpeechAnalyzer } from '../domain/interfaces/index.js';
+import type {
+  Result,
+  PaginatedResponse,
+  PaginationParams,
+  PronunciationResult,
+} from '../shared/types/index.js';
+import type { ISpeechAnalyzer, IAudioNormalizer, IAudioStore } from '../domain/interfaces/index.js';
 import type { IChatConversationManager } from '../domain/interfaces/IChatConversationManager.js';
 import type { ITTSService } from '../domain/interfaces/ITTSService.js';
+import type { IConversationRepository } from '../domain/interfaces/IConversationRepository.js';
 import type {
   Conversation,
   ChatMessage,
   ChatMode,
+  ConversationListItem,
   ConversationSummary,
   ProcessTurnInput,
   ProcessTurnOutput,
   ChatServiceConfig,
   PronunciationFeedback,
 } from '../shared/types/chat.js';
-import { AppError, ExternalServiceError } from '../shared/errors/index.js';
+import { AppError, AudioProcessingError, ExternalServiceError } from '../shared/errors/index.js';
 import { logger } from '../shared/utils/logger.js';
+import { computeSpeechRateMetrics } from '../shared/utils/speechRate.js';
+import type { EntitlementService } from './EntitlementService.js';
+import { DEFAULT_VOICE_ID, type VoiceService } from './VoiceService.js';
 
 // Filler words to detect
 const FILLER_WORDS = [
@@ -28,22 +38,27 @@ const FILLER_WORDS = [
 const DEFAULT_CONFIG: ChatServiceConfig = {
   maxDurationSeconds: 120,
   maxTurns: 10,
-  voiceId: 'en-US-JennyNeural',
+  voiceId: DEFAULT_VOICE_ID,
 };
 
 /**
  * Chat Service - Orchestrates voice conversation with AI
- * Manages conversation state, speech analysis, and response generation
+ * Manages conversation state, speech analysis, and response generation.
+ * Conversations, messages and summaries are persisted through the repository.
  */
 export class ChatService {
-  private conversations: Map<string, Conversation> = new Map();
   private config: ChatServiceConfig;
 
   constructor(
     private speechAnalyzer: ISpeechAnalyzer,
     private ttsService: ITTSService,
     private conversationManager: IChatConversationManager,
-    config: Partial<ChatServiceConfig> = {}
+    private conversationRepository: IConversationRepository,
+    private audioNormalizer: IAudioNormalizer,
+    config: Partial<ChatServiceConfig> = {},
+    private entitlementService?: EntitlementService,
+    private audioStore?: IAudioStore,
+    private voiceService?: VoiceService
   ) {
     this.config = { ...DEFAULT_CONFIG, ...config };
   }
@@ -52,12 +67,35 @@ export class ChatService {
   // START CONVERSATION
   // ============================================================
 
+  /**
+   * @param voiceId Voice for this conversation; the user's preferred voice if omitted
+   */
   async startConversation(
     mode: ChatMode,
-    userId?: string
-  ): Promise<Result<{ conversationId: string; greeting: { text: string; audioBase64: string } }>> {
+    userId: string,
+    voiceId?: string
+  ): Promise<Result<{ conversationId: string; voiceId: string; greeting: { text: string; audioBase64: string } }>> {
     const endTimer = logger.time('ChatService.startConversation');
 
+    // The greeting is synthesized right away, so require at least one turn of quota
+    if (this.entitlementService) {
+      const access = await this.entitlementService.authorize(userId, 'chat_turns', 1);
+      if (!access.success) {
+        endTimer();
+        return access;
+      }
+    }
+
+    let voice = voiceId ?? this.config.voiceId;
+    if (this.voiceService) {
+      const resolved = await this.voiceService.resolveVoice(userId, voiceId);
+      if (!resolved.success) {
+        endTimer();
+        return resolved;
+      }
+      voice = resolved.data;
+    }
+
     try {
       const conversationId = uuidv4();
 
@@ -66,7 +104,7 @@ export class ChatService {
 
       // Synthesize greeting audio
       const audioResult = await this.ttsService.synthesize(greetingText, {
-        voiceId: this.config.voiceId,
+        voiceId: voice,
       });
 
       if (!audioResult.success) {
@@ -77,33 +115,35 @@ export class ChatService {
       // Initialize conversation
       const conversation: Conversation = {
         id: conversationId,
-        userId: userId || 'anonymous',
+        userId,
         mode,
         startedAt: Date.now(),
         durationSeconds: 0,
-        messages: [
-          {
-            id: uuidv4(),
-            conversationId,
-            role: 'assistant',
-            content: greetingText,
-            timestamp: Date.now(),
-          },
-        ],
+        messages: [],
       };
 
-      this.conversations.set(conversationId, conversation);
+      const greetingMessage: ChatMessage = {
+        id: uuidv4(),
+        conversationId,
+        role: 'assistant',
+        content: greetingText,
+        timestamp: Date.now(),
+      };
+
+      await this.conversationRepository.save(conversation);
+      await this.conversationRepository.appendMessages(conversationId, [greetingMessage]);
 
       endTimer();
-      logger.info('Chat conversation started', { conversationId, mode, userId });
+      logger.info('Chat conversation started', { conversationId, mode, userId, voiceId: voice });
 
       return {
         success: true,
         data: {
           conversationId,
+          voiceId: voice,
           greeting: {
             text: greetingText,
-            audioBase64: audioResult.data.audioBase64,
+            audioBase64: audioResult.data.audio.toString('base64'),
           },
         },
       };
@@ -128,8 +168,8 @@ export class ChatService {
     const endTimer = logger.time('ChatService.processUserTurn');
 
     try {
-      const conversation = this.conversations.get(input.conversationId);
-      if (!conversation) {
+      const conversation = await this.conversationRepository.findById(input.conversationId);
+      if (!conversation || conversation.endedAt) {
         endTimer();
         return { success: false, error: new AppError('Conversation not found', 'NOT_FOUND', 404) };
       }
@@ -141,10 +181,18 @@ export class ChatService {
         return { success: false, error: new AppError('Maximum turns reached', 'MAX_TURNS_REACHED', 400) };
       }
 
-      // Step 1: Decode audio and analyze pronunciation
-      const audioBuffer = Buffer.from(input.audioBase64, 'base64');
+      if (this.entitlementService) {
+        const access = await this.entitlementService.authorize(conversation.userId, 'chat_turns', 1);
+        if (!access.success) {
+          endTimer();
+          return access;
+        }
+      }
+
+      // Step 1: Decode audio to 16kHz mono PCM and analyze pronunciation
+      const audio = await this.audioNormalizer.normalize(Buffer.from(input.audioBase64, 'base64'));
 
-      const speechResult = await this.speechAnalyzer.assessPronunciation(audioBuffer, {
+      const speechResult = await this.speechAnalyzer.assessPronunciation(audio.pcm, {
         referenceText: null, // Unscripted mode
         enableProsody: true,
       });
@@ -156,7 +204,7 @@ export class ChatService {
       }
 
       // Map pronunciation result to feedback format
-      const pronunciation = this.mapPronunciationFeedback(speechResult, transcript);
+      const pronunciation = this.mapPronunciationFeedback(speechResult, transcript, audio.durationMs);
 
       // Step 2: Generate AI response
       const aiResult = await this.conversationManager.generateResponse({
@@ -179,7 +227,7 @@ export class ChatService {
 
       // Step 3: Synthesize AI response audio
       const ttsResult = await this.ttsService.synthesize(aiResult.data.response, {
-        voiceId: this.config.voiceId,
+        voiceId: input.voiceId ?? this.config.voiceId,
       });
 
       if (!ttsResult.success) {
@@ -187,12 +235,14 @@ export class ChatService {
         return { success: false, error: ttsResult.error };
       }
 
-      // Step 4: Create and store messages
+      // Step 4: Create and store messages (with the user's recording for playback)
+      const userMessageId = uuidv4();
       const userMessage: ChatMessage = {
-        id: uuidv4(),
+        id: userMessageId,
         conversationId: input.conversationId,
         role: 'user',
         content: transcript,
+        audioUrl: await this.saveTurnRecording(input.conversationId, userMessageId, audio.pcm),
         timestamp: Date.now(),
         pronunciation,
       };
@@ -206,8 +256,16 @@ export class ChatService {
         inlineCoaching: aiResult.data.inlineCoaching,
       };
 
-      conversation.messages.push(userMessage, assistantMessage);
-      conversation.durationSeconds = Math.floor((Date.now() - conversation.startedAt) / 1000);
+      await this.conversationRepository.appendMessages(input.conversationId, [
+        userMessage,
+        assistantMessage,
+      ]);
+      // Only the duration: chat:end may have stored the summary while this turn was in flight
+      await this.conversationRepository.updateDuration(
+        input.conversationId,
+        Math.floor((Date.now() - conversation.startedAt) / 1000)
+      );
+      await this.entitlementService?.recordUsage(conversation.userId, 'chat_turns', 1);
 
       endTimer();
       logger.info('Chat turn processed', {
@@ -220,14 +278,21 @@ export class ChatService {
         success: true,
         data: {
           userTranscript: transcript,
+          userAudioUrl: userMessage.audioUrl,
           pronunciation,
           aiResponse: aiResult.data.response,
-          aiAudioBase64: ttsResult.data.audioBase64,
+          aiAudioBase64: ttsResult.data.audio.toString('base64'),
           inlineCoaching: aiResult.data.inlineCoaching,
         },
       };
     } catch (error) {
       endTimer();
+
+      // Unsupported or corrupt uploads are the client's to fix
+      if (error instanceof AudioProcessingError) {
+        return { success: false, error };
+      }
+
       logger.error('Failed to process user turn', { error, conversationId: input.conversationId });
       return {
         success: false,
@@ -247,8 +312,8 @@ export class ChatService {
     const endTimer = logger.time('ChatService.endConversation');
 
     try {
-      const conversation = this.conversations.get(conversationId);
-      if (!conversation) {
+      const conversation = await this.conversationRepository.findById(conversationId);
+      if (!conversation || conversation.endedAt) {
         endTimer();
         return { success: false, error: new AppError('Conversation not found', 'NOT_FOUND', 404) };
       }
@@ -266,10 +331,12 @@ export class ChatService {
         return { success: false, error: summaryResult.error };
       }
 
-      conversation.summary = summaryResult.data;
-
-      // TODO: Persist to database here
-      // await this.conversationRepository.save(conversation);
+      await this.conversationRepository.saveSummary(
+        conversationId,
+        summaryResult.data,
+        conversation.endedAt,
+        conversation.durationSeconds
+      );
 
       const turns = Math.floor(conversation.messages.length / 2);
 
@@ -281,9 +348,6 @@ export class ChatService {
         overallScore: summaryResult.data.overallScore,
       });
 
-      // Clean up in-memory storage
-      this.conversations.delete(conversationId);
-
       return { success: true, data: summaryResult.data };
     } catch (error) {
       endTimer();
@@ -305,16 +369,60 @@ export class ChatService {
   /**
    * Get conversation by ID (for debugging/status checks)
    */
-  getConversation(conversationId: string): Conversation | undefined {
-    return this.conversations.get(conversationId);
+  async getConversation(conversationId: string): Promise<Conversation | null> {
+    return this.conversationRepository.findById(conversationId);
+  }
+
+  /**
+   * List a user's past conversations (most recent first)
+   */
+  async listConversations(
+    userId: string,
+    pagination: PaginationParams
+  ): Promise<PaginatedResponse<ConversationListItem>> {
+    return this.conversationRepository.findByUserId(userId, pagination);
+  }
+
+  /**
+   * Delete a conversation with its messages and summary
+   * @returns false if the conversation did not exist
+   */
+  async deleteConversation(conversationId: string): Promise<boolean> {
+    const deleted = await this.conversationRepository.delete(conversationId);
+    if (deleted) {
+      await this.audioStore?.deleteAll(`conversations/${conversationId}`);
+      logger.info('Chat conversation deleted', { conversationId });
+    }
+    return deleted;
+  }
+
+  /**
+   * Keep the user's normalized turn audio for playback
+   * Returns its URL, or undefined if there is no store or saving failed.
+   */
+  private async saveTurnRecording(conversationId: string, messageId: string, pcm: Buffer): Promise<string | undefined> {
+    if (!this.audioStore) return undefined;
+
+    try {
+      await this.audioStore.saveRecording(`conversations/${conversationId}/${messageId}`, pcm);
+      return `/api/conversations/${conversationId}/messages/${messageId}/audio`;
+    } catch (error) {
+      // The turn goes on without playback
+      logger.error('Failed to save turn recording', {
+        conversationId,
+        messageId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
   }
 
   /**
    * Check if a conversation exists and is active
    */
-  isConversationActive(conversationId: string): boolean {
-    const conversation = this.conversations.get(conversationId);
-    if (!conversation) return false;
+  async isConversationActive(conversationId: string): Promise<boolean> {
+    const conversation = await this.conversationRepository.findById(conversationId);
+    if (!conversation || conversation.endedAt) return false;
 
     // Check if within time limit
     const elapsed = (Date.now() - conversation.startedAt) / 1000;
@@ -354,16 +462,9 @@ export class ChatService {
   }
 
   private mapPronunciationFeedback(
-    result: {
-      overallScore: number;
-      words: Array<{
-        word: string;
-        accuracyScore: number;
-        phonemes: Array<{ phoneme: string; accuracyScore: number }>;
-      }>;
-      transcript: string;
-    },
-    transcript: string
+    result: PronunciationResult,
+    transcript: string,
+    audioDurationMs: number
   ): PronunciationFeedback {
     // Find mispronounced words (accuracy < 70)
     const mispronounced = (result.words || [])
@@ -379,10 +480,14 @@ export class ChatService {
     // Detect filler words
     const fillerAnalysis = this.detectFillerWords(transcript);
 
-    // Calculate WPM (rough estimate: assume 30 seconds of speech)
+    // Prefer the rate measured from word timestamps; fall back to the whole recording length
+    const rate = computeSpeechRateMetrics(result.words);
     const wordCount = transcript.split(/\s+/).filter((w) => w.length > 0).length;
-    const estimatedDurationSeconds = 15; // Rough estimate for a turn
-    const wpm = Math.round((wordCount / estimatedDurationSeconds) * 60);
+    const wpm = rate
+      ? rate.speakingRateWpm
+      : audioDurationMs > 0
+        ? Math.round(wordCount / (audioDurationMs / 60000))
+        : 0;
 
     return {
       overallScore: result.overallScore,
@@ -392,6 +497,7 @@ export class ChatService {
         wpm,
         assessment: this.assessPace(wpm),
       },
+      rate,
     };
   }
 
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { IAccessStatusProvider } from '../domain/interfaces/index.js';
+import { InMemoryUsageRepository } from '../infrastructure/database/InMemoryUsageRepository.js';
+import { AccessExpiredError, QuotaExceededError } from '../shared/errors/index.js';
+import type { AccessStatus } from '../shared/types/index.js';
+import { DEFAULT_PLAN_QUOTAS, EntitlementService } from './EntitlementService.js';
+
+const USER = 'user-1';
+const TRIAL: AccessStatus = { hasAccess: true, accessType: 'trial' };
+const EXPIRED: AccessStatus = { hasAccess: false, accessType: 'trial_expired' };
+const TRIAL_TURNS = DEFAULT_PLAN_QUOTAS.trial.chatTurnsPerDay;
+
+/**
+ * Service over in-memory usage, with the access status the provider reports
+ */
+function setup(status: AccessStatus = TRIAL) {
+  const getAccessStatus = vi.fn<[string], Promise<AccessStatus>>().mockResolvedValue(status);
+  const provider: IAccessStatusProvider = { getAccessStatus };
+  const usage = new InMemoryUsageRepository();
+  const service = new EntitlementService(provider, usage);
+  return { service, usage, getAccessStatus };
+}
+
+describe('EntitlementService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows work within the daily quota and meters it', async () => {
+    const { service, usage } = setup();
+
+    expect((await service.authorize(USER, 'chat_turns')).success).toBe(true);
+    await service.recordUsage(USER, 'chat_turns', 3);
+
+    expect((await usage.getDailyUsage(USER, '2026-03-01')).chat_turns).toBe(3);
+  });
+
+  it('rejects an amount that would go past the limit', async () => {
+    const { service } = setup();
+    await service.recordUsage(USER, 'chat_turns', TRIAL_TURNS - 2);
+
+    expect((await service.authorize(USER, 'chat_turns', 2)).success).toBe(true);
+    const result = await service.authorize(USER, 'chat_turns', 3);
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toBeInstanceOf(QuotaExceededError);
+  });
+
+  it('requires quota to remain for an amount of 0', async () => {
+    const { service } = setup();
+    await service.recordUsage(USER, 'chat_turns', TRIAL_TURNS - 1);
+    expect((await service.authorize(USER, 'chat_turns', 0)).success).toBe(true);
+
+    await service.recordUsage(USER, 'chat_turns');
+    expect((await service.authorize(USER, 'chat_turns', 0)).success).toBe(false);
+  });
+
+  it('resets quotas at midnight UTC', async () => {
+    const { service } = setup();
+    vi.setSystemTime(new Date('2026-03-01T23:59:00Z'));
+    await service.recordUsage(USER, 'chat_turns', TRIAL_TURNS);
+    expect((await service.authorize(USER, 'chat_turns')).success).toBe(false);
+
+    vi.setSystemTime(new Date('2026-03-02T00:00:00Z'));
+    expect((await service.authorize(USER, 'chat_turns')).success).toBe(true);
+  });
+
+  it('reports an expired trial before an exhausted quota', async () => {
+    const { service } = setup(EXPIRED);
+    await service.recordUsage(USER, 'chat_turns', TRIAL_TURNS);
+
+    const result = await service.authorize(USER, 'chat_turns');
+    expect(!result.success && result.error).toBeInstanceOf(AccessExpiredError);
+  });
+
+  it('caches the access status for a minute', async () => {
+    const { service, getAccessStatus } = setup();
+    await service.authorize(USER, 'chat_turns');
+
+    // The trial ends, but the cached status still applies
+    getAccessStatus.mockResolvedValue(EXPIRED);
+    vi.advanceTimersByTime(59_000);
+    expect((await service.authorize(USER, 'chat_turns')).success).toBe(true);
+    expect(getAccessStatus).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1_000);
+    const result = await service.authorize(USER, 'chat_turns');
+    expect(!result.success && result.error).toBeInstanceOf(AccessExpiredError);
+    expect(getAccessStatus).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not record usage of nothing', async () => {
+    const { service, usage } = setup();
+    const increment = vi.spyOn(usage, 'increment');
+    await service.recordUsage(USER, 'analysis_seconds', 0);
+    expect(increment).not.toHaveBeenCalled();
+  });
+});
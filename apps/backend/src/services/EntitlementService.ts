@@ -0,0 +1,133 @@
+import type { IAccessStatusProvider, IUsageRepository } from '../domain/interfaces/index.js';
+import type {
+  AccessStatus,
+  AccessType,
+  PlanQuota,
+  Result,
+  UsageMetric,
+} from '../shared/types/index.js';
+import { AppError, AccessExpiredError, QuotaExceededError } from '../shared/errors/index.js';
+import { logger } from '../shared/utils/logger.js';
+
+type PaidAccessType = Exclude<AccessType, 'trial_expired'>;
+
+interface EntitlementServiceConfig {
+  plans: Record<PaidAccessType, PlanQuota>;
+  accessCacheTtlMs: number;
+}
+
+export const DEFAULT_PLAN_QUOTAS: Record<PaidAccessType, PlanQuota> = {
+  trial: {
+    analysisMinutesPerDay: 10,
+    chatTurnsPerDay: 30,
+    ttsGenerationsPerDay: 10,
+  },
+  purchased: {
+    analysisMinutesPerDay: 60,
+    chatTurnsPerDay: 200,
+    ttsGenerationsPerDay: 50,
+  },
+  subscription: {
+    analysisMinutesPerDay: 60,
+    chatTurnsPerDay: 200,
+    ttsGenerationsPerDay: 50,
+  },
+};
+
+const DEFAULT_CONFIG: EntitlementServiceConfig = {
+  plans: DEFAULT_PLAN_QUOTAS,
+  accessCacheTtlMs: 60 * 1000,
+};
+
+/**
+ * Entitlement Service - gates paid Azure/OpenAI work per verified user
+ * Checks the user's access status (trial/purchased/subscription) and the
+ * daily quota of their plan before work starts, and meters usage after.
+ */
+export class EntitlementService {
+  private config: EntitlementServiceConfig;
+  private accessCache: Map<string, { status: AccessStatus; expiresAt: number }> = new Map();
+
+  constructor(
+    private accessStatusProvider: IAccessStatusProvider,
+    private usageRepository: IUsageRepository,
+    config: Partial<EntitlementServiceConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Check that a user may consume `amount` of a metric today
+   * Fails with AccessExpiredError or QuotaExceededError; nothing is recorded.
+   * @param amount Expected consumption (0 only requires quota to remain)
+   */
+  async authorize(userId: string, metric: UsageMetric, amount = 1): Promise<Result<AccessStatus, AppError>> {
+    const status = await this.getAccessStatus(userId);
+
+    if (!status.hasAccess || status.accessType === 'trial_expired') {
+      logger.info('Access denied - no active entitlement', { userId, accessType: status.accessType });
+      return { success: false, error: new AccessExpiredError() };
+    }
+
+    const limit = this.getLimit(status.accessType, metric);
+    const usage = await this.usageRepository.getDailyUsage(userId, this.today());
+    const used = usage[metric];
+
+    if (used >= limit || used + amount > limit) {
+      logger.info('Quota exceeded', { userId, metric, used, amount, limit });
+      return { success: false, error: new QuotaExceededError(metric, limit) };
+    }
+
+    return { success: true, data: status };
+  }
+
+  /**
+   * Record consumption after the paid work has been done
+   */
+  async recordUsage(userId: string, metric: UsageMetric, amount = 1): Promise<void> {
+    if (amount <= 0) return;
+
+    try {
+      await this.usageRepository.increment(userId, this.today(), metric, amount);
+    } catch (error) {
+      // Metering failures must not fail work the user has already been served
+      logger.error('Failed to record usage', {
+        userId,
+        metric,
+        amount,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async getAccessStatus(userId: string): Promise<AccessStatus> {
+    const cached = this.accessCache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.status;
+    }
+
+    const status = await this.accessStatusProvider.getAccessStatus(userId);
+    this.accessCache.set(userId, { status, expiresAt: Date.now() + this.config.accessCacheTtlMs });
+    return status;
+  }
+
+  private getLimit(accessType: PaidAccessType, metric: UsageMetric): number {
+    const plan = this.config.plans[accessType];
+
+    switch (metric) {
+      case 'analysis_seconds':
+        return plan.analysisMinutesPerDay * 60;
+      case 'chat_turns':
+        return plan.chatTurnsPerDay;
+      case 'tts_generations':
+        return plan.ttsGenerationsPerDay;
+    }
+  }
+
+  /**
+   * Current UTC day (YYYY-MM-DD) - quotas reset at midnight UTC
+   */
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+}
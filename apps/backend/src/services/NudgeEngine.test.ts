@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { StreamingResult } from '../domain/interfaces/index.js';
+import type { SessionNudge } from '../shared/types/index.js';
+import { NudgeEngine } from './NudgeEngine.js';
+
+/**
+ * 16kHz 16-bit mono PCM at a constant level (its RMS is `level`)
+ */
+function pcm(ms: number, level: number): Buffer {
+  const chunk = Buffer.alloc(ms * 32);
+  for (let i = 0; i < chunk.length; i += 2) {
+    chunk.writeInt16LE(level, i);
+  }
+  return chunk;
+}
+
+/**
+ * Feed audio in 100ms chunks, returning every nudge fired
+ */
+function feed(engine: NudgeEngine, ms: number, level: number): SessionNudge[] {
+  const nudges: SessionNudge[] = [];
+  for (let at = 0; at < ms; at += 100) {
+    const nudge = engine.addAudio(pcm(100, level));
+    if (nudge) nudges.push(nudge);
+  }
+  return nudges;
+}
+
+/**
+ * Final result with `count` words spread evenly over [startMs, endMs)
+ */
+function result(count: number, startMs: number, endMs: number): StreamingResult {
+  const step = (endMs - startMs) / count;
+  const words = Array.from({ length: count }, (_, i) => ({
+    word: `word${i}`,
+    accuracy: 90,
+    offsetMs: startMs + i * step,
+    durationMs: step * 0.8,
+  }));
+  return {
+    type: 'recognized',
+    transcript: words.map((w) => w.word).join(' '),
+    isFinal: true,
+    timestamp: Date.now(),
+    words,
+  };
+}
+
+describe('NudgeEngine', () => {
+  it('prompts once when the speaker has not started', () => {
+    const nudges = feed(new NudgeEngine('free_talk'), 12000, 0);
+    expect(nudges).toHaveLength(1);
+    expect(nudges[0]).toMatchObject({ type: 'long_silence', severity: 'info', atMs: 5000 });
+  });
+
+  it('warns about a long pause after speech, once per pause', () => {
+    const engine = new NudgeEngine('free_talk');
+    feed(engine, 2000, 3000);
+    const nudges = feed(engine, 12000, 0);
+    expect(nudges).toHaveLength(1);
+    expect(nudges[0]).toMatchObject({ type: 'long_silence', severity: 'warning', atMs: 7000 });
+  });
+
+  it('nudges when the pace over the window is too fast', () => {
+    const engine = new NudgeEngine('free_talk');
+    feed(engine, 10500, 3000);
+    // 31 of these words fall in the last 10s = 186 WPM against a 170 WPM limit
+    expect(engine.addResult(result(33, 0, 10400), 0)).toMatchObject({ type: 'too_fast', severity: 'info' });
+  });
+
+  it('does not judge pace before a full window', () => {
+    const engine = new NudgeEngine('free_talk');
+    expect(engine.addResult(result(30, 0, 5000), 0)).toBeNull();
+  });
+
+  it('nudges about fillers within the window', () => {
+    const engine = new NudgeEngine('free_talk');
+    feed(engine, 1000, 3000);
+    expect(engine.addResult(result(5, 0, 1000), 2)).toBeNull();
+    expect(engine.addResult(result(5, 1000, 2000), 1)).toMatchObject({ type: 'fillers', severity: 'info' });
+  });
+
+  it('leaves filler and pace rules to the mode', () => {
+    const engine = new NudgeEngine('read_practice');
+    expect(engine.addResult(result(5, 0, 1000), 10)).toBeNull();
+
+    const shadowing = new NudgeEngine('shadowing');
+    expect(feed(shadowing, 12000, 0)).toEqual([]);
+  });
+
+  it('nudges when the voice drops well below its baseline', () => {
+    const engine = new NudgeEngine('free_talk');
+    expect(feed(engine, 9000, 4000)).toEqual([]);
+    const nudges = feed(engine, 3000, 800);
+    expect(nudges).toHaveLength(1);
+    expect(nudges[0].type).toBe('volume_drop');
+  });
+
+  it('throttles nudges of the same type with the cooldown', () => {
+    const engine = new NudgeEngine('free_talk', { minIntervalMs: 0, cooldownMs: 20000 });
+    feed(engine, 6000, 0);
+    feed(engine, 500, 3000);
+    // The second pause ends within the cooldown of the first nudge
+    expect(feed(engine, 6000, 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,244 @@
+import type { StreamingResult } from '../domain/interfaces/index.js';
+import type {
+  NudgeRules,
+  NudgeSeverity,
+  NudgeType,
+  SessionMode,
+  SessionNudge,
+} from '../shared/types/index.js';
+
+// PCM format pushed by clients (16kHz, 16-bit, mono)
+const PCM_BYTES_PER_MS = 32;
+
+// Chunks quieter than this (RMS of 16-bit samples) count as silence
+const SILENCE_RMS = 400;
+
+// Voiced audio needed before a volume drop can be judged
+const MIN_BASELINE_MS = 5000;
+
+const CONVERSATION_RULES: NudgeRules = {
+  pace: { enabled: true, maxWpm: 170, windowMs: 10000 },
+  fillers: { enabled: true, maxCount: 3, windowMs: 15000 },
+  silence: { enabled: true, maxMs: 5000 },
+  volume: { enabled: true, dropRatio: 0.5, windowMs: 3000 },
+  cooldownMs: 20000,
+  minIntervalMs: 5000,
+};
+
+const READING_RULES: NudgeRules = {
+  ...CONVERSATION_RULES,
+  pace: { enabled: true, maxWpm: 180, windowMs: 10000 },
+  // Fillers are rare when reading a script and already show up as insertions
+  fillers: { ...CONVERSATION_RULES.fillers, enabled: false },
+  // A long pause while reading usually means the reader lost their place
+  silence: { enabled: true, maxMs: 4000 },
+};
+
+export const DEFAULT_NUDGE_RULES: Record<SessionMode, NudgeRules> = {
+  free_talk: CONVERSATION_RULES,
+  professional: {
+    ...CONVERSATION_RULES,
+    pace: { enabled: true, maxWpm: 160, windowMs: 10000 },
+    fillers: { enabled: true, maxCount: 2, windowMs: 15000 },
+    silence: { enabled: true, maxMs: 4000 },
+  },
+  casual: {
+    ...CONVERSATION_RULES,
+    pace: { enabled: true, maxWpm: 180, windowMs: 10000 },
+    fillers: { enabled: true, maxCount: 4, windowMs: 15000 },
+    silence: { enabled: true, maxMs: 6000 },
+  },
+  read_aloud: READING_RULES,
+  read_practice: READING_RULES,
+  // The learner is silent while each model sentence plays, and copies its pace
+  shadowing: {
+    ...READING_RULES,
+    pace: { ...READING_RULES.pace, enabled: false },
+    silence: { ...READING_RULES.silence, enabled: false },
+  },
+};
+
+/**
+ * Nudge Engine - turns a streaming session's running signals into coaching nudges
+ * One engine per session. Rules are evaluated over sliding windows on the
+ * session's audio clock (derived from the PCM received), so pace, fillers,
+ * silences and volume line up with the recognizer's word timings. Nudges are
+ * throttled per type (cooldownMs) and overall (minIntervalMs).
+ */
+export class NudgeEngine {
+  private rules: NudgeRules;
+  private audioMs = 0;
+  private lastVoiceMs = 0;
+  private silenceNudged = false;
+  private words: Array<{ startMs: number; endMs: number }> = [];
+  private fillerTimes: number[] = [];
+  // Voiced chunk levels inside the volume window; older ones fold into the baseline
+  private recentLevels: Array<{ atMs: number; durationMs: number; rms: number }> = [];
+  private baselineLevel = { weightedSum: 0, durationMs: 0 };
+  private lastNudgeAt: Partial<Record<NudgeType, number>> = {};
+  private lastAnyNudgeAt = -Infinity;
+
+  constructor(mode: SessionMode, overrides: Partial<NudgeRules> = {}) {
+    this.rules = { ...DEFAULT_NUDGE_RULES[mode], ...overrides };
+  }
+
+  /**
+   * Feed a chunk of raw PCM audio (advances the session clock)
+   * Returns a nudge if silence or volume rules fire.
+   */
+  addAudio(chunk: Buffer): SessionNudge | null {
+    const durationMs = chunk.length / PCM_BYTES_PER_MS;
+    const rms = measureRms(chunk);
+    this.audioMs += durationMs;
+
+    if (rms >= SILENCE_RMS) {
+      this.lastVoiceMs = this.audioMs;
+      this.silenceNudged = false;
+      this.trackLevel(durationMs, rms);
+    }
+
+    return this.checkSilence() ?? this.checkVolume();
+  }
+
+  /**
+   * Feed a final recognition result with the number of fillers it contains
+   * Returns a nudge if pace or filler rules fire.
+   */
+  addResult(result: StreamingResult, fillerCount: number): SessionNudge | null {
+    if (!result.isFinal || !result.transcript) return null;
+
+    const spokenCount = result.transcript.split(/\s+/).filter((w) => w.length > 0).length;
+    const timed = (result.words ?? []).filter((w) => w.offsetMs !== undefined);
+
+    if (timed.length > 0) {
+      for (const word of timed) {
+        const startMs = word.offsetMs ?? 0;
+        this.words.push({ startMs, endMs: startMs + (word.durationMs ?? 0) });
+      }
+    } else {
+      // No timings - place the phrase at the current audio position
+      for (let i = 0; i < spokenCount; i++) {
+        this.words.push({ startMs: this.audioMs, endMs: this.audioMs });
+      }
+    }
+
+    const fillerAtMs = timed.length > 0 ? this.words[this.words.length - 1].endMs : this.audioMs;
+    for (let i = 0; i < fillerCount; i++) {
+      this.fillerTimes.push(fillerAtMs);
+    }
+
+    return this.checkPace() ?? this.checkFillers();
+  }
+
+  private checkPace(): SessionNudge | null {
+    const { enabled, maxWpm, windowMs } = this.rules.pace;
+    if (!enabled || this.words.length === 0) return null;
+
+    // Window ending at the latest recognized word, so recognition lag does not dilute it
+    const windowEnd = this.words[this.words.length - 1].endMs;
+    if (windowEnd < windowMs) return null;
+
+    this.words = this.words.filter((w) => w.startMs >= windowEnd - windowMs);
+    const wpm = Math.round(this.words.length / (windowMs / 60000));
+    if (wpm <= maxWpm) return null;
+
+    return this.fire(
+      'too_fast',
+      wpm >= maxWpm * 1.15 ? 'warning' : 'info',
+      `You're speaking quickly (${wpm} WPM) - try slowing down`
+    );
+  }
+
+  private checkFillers(): SessionNudge | null {
+    const { enabled, maxCount, windowMs } = this.rules.fillers;
+    if (!enabled) return null;
+
+    const windowStart = this.audioMs - windowMs;
+    this.fillerTimes = this.fillerTimes.filter((t) => t >= windowStart);
+    const count = this.fillerTimes.length;
+    if (count < maxCount) return null;
+
+    return this.fire(
+      'fillers',
+      count >= maxCount * 2 ? 'warning' : 'info',
+      `${count} filler words in the last ${Math.round(windowMs / 1000)}s - try a short pause instead`
+    );
+  }
+
+  private checkSilence(): SessionNudge | null {
+    const { enabled, maxMs } = this.rules.silence;
+    if (!enabled || this.silenceNudged) return null;
+
+    const silentMs = this.audioMs - this.lastVoiceMs;
+    if (silentMs < maxMs) return null;
+
+    const nudge = this.fire(
+      'long_silence',
+      this.lastVoiceMs === 0 ? 'info' : 'warning',
+      this.lastVoiceMs === 0 ? "Start speaking whenever you're ready" : "Long pause - keep going when you're ready"
+    );
+    // One nudge per pause
+    if (nudge) this.silenceNudged = true;
+    return nudge;
+  }
+
+  private checkVolume(): SessionNudge | null {
+    const { enabled, dropRatio, windowMs } = this.rules.volume;
+    if (!enabled || this.baselineLevel.durationMs < MIN_BASELINE_MS) return null;
+
+    // Judge only while speaking, with at least a third of the window voiced
+    const recentMs = this.recentLevels.reduce((sum, l) => sum + l.durationMs, 0);
+    if (this.lastVoiceMs < this.audioMs || recentMs < windowMs / 3) return null;
+
+    const recent = this.recentLevels.reduce((sum, l) => sum + l.rms * l.durationMs, 0) / recentMs;
+    const baseline = this.baselineLevel.weightedSum / this.baselineLevel.durationMs;
+    if (recent >= baseline * dropRatio) return null;
+
+    return this.fire(
+      'volume_drop',
+      recent < baseline * dropRatio * 0.5 ? 'warning' : 'info',
+      'Your voice is getting quieter - try speaking up'
+    );
+  }
+
+  private trackLevel(durationMs: number, rms: number): void {
+    this.recentLevels.push({ atMs: this.audioMs, durationMs, rms });
+
+    const windowStart = this.audioMs - this.rules.volume.windowMs;
+    while (this.recentLevels.length > 0 && this.recentLevels[0].atMs < windowStart) {
+      const level = this.recentLevels.shift()!;
+      this.baselineLevel.weightedSum += level.rms * level.durationMs;
+      this.baselineLevel.durationMs += level.durationMs;
+    }
+  }
+
+  /**
+   * Emit a nudge unless throttled
+   */
+  private fire(type: NudgeType, severity: NudgeSeverity, message: string): SessionNudge | null {
+    const now = this.audioMs;
+    const lastOfType = this.lastNudgeAt[type] ?? -Infinity;
+    if (now - lastOfType < this.rules.cooldownMs || now - this.lastAnyNudgeAt < this.rules.minIntervalMs) {
+      return null;
+    }
+
+    this.lastNudgeAt[type] = now;
+    this.lastAnyNudgeAt = now;
+    return { type, severity, message, atMs: Math.round(now) };
+  }
+}
+
+/**
+ * Root mean square of 16-bit little-endian PCM samples
+ */
+function measureRms(chunk: Buffer): number {
+  const samples = Math.floor(chunk.length / 2);
+  if (samples === 0) return 0;
+
+  let sumSquares = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = chunk.readInt16LE(i * 2);
+    sumSquares += sample * sample;
+  }
+  return Math.sqrt(sumSquares / samples);
+}
@@ -0,0 +1,92 @@
+import type { IArticleTTSService, WordBoundary } from '../domain/interfaces/index.js';
+import type { ReadingComparison, Result } from '../shared/types/index.js';
+import { AppError, NotFoundError, ValidationError } from '../shared/errors/index.js';
+import { logger } from '../shared/utils/logger.js';
+import { compareReading } from '../shared/utils/readingComparison.js';
+import type { EntitlementService } from './EntitlementService.js';
+import type { NewsService } from './NewsService.js';
+import type { SessionHistoryService } from './SessionHistoryService.js';
+import type { VoiceService } from './VoiceService.js';
+
+/**
+ * Reading Comparison Service - "model vs. you" for Listen & Read attempts
+ * Pairs every word of a stored read attempt with the same word in the
+ * article's TTS reading, so the app can play both for a word or sentence.
+ * The model reading is in the learner's preferred voice, like the article audio they hear.
+ */
+export class ReadingComparisonService {
+  constructor(
+    private sessionHistoryService: SessionHistoryService,
+    private newsService: NewsService,
+    private ttsService: IArticleTTSService,
+    private entitlementService?: EntitlementService,
+    private voiceService?: VoiceService
+  ) {}
+
+  /**
+   * Compare a user's stored read attempt with the model reading of its article
+   * Synthesizes the article (metered as one TTS generation) if it has no audio yet.
+   */
+  async compareSession(sessionId: string, userId: string): Promise<Result<ReadingComparison, AppError>> {
+    const session = await this.sessionHistoryService.getSession(sessionId);
+
+    // Other users' sessions are reported as missing rather than forbidden
+    if (!session || session.userId !== userId) {
+      return { success: false, error: new NotFoundError('Session', sessionId) };
+    }
+
+    if (!session.articleId || !session.referenceText?.trim()) {
+      return { success: false, error: new ValidationError('Session is not a reading of a news article') };
+    }
+
+    const article = await this.newsService.getArticleById(session.articleId);
+    if (!article) {
+      return { success: false, error: new NotFoundError('Article', session.articleId) };
+    }
+
+    const boundaries = await this.getModelBoundaries(article.id, article.fullContent, userId);
+    if (!boundaries.success) {
+      return boundaries;
+    }
+
+    const { words, sentences } = compareReading(session.referenceText, boundaries.data, session.allWords);
+
+    return {
+      success: true,
+      data: {
+        sessionId: session.id,
+        articleId: article.id,
+        modelAudioUrl: `/api/news/${article.id}/audio`,
+        learnerAudioUrl: session.audioUrl,
+        words,
+        sentences,
+      },
+    };
+  }
+
+  private async getModelBoundaries(
+    articleId: string,
+    content: string,
+    userId: string
+  ): Promise<Result<WordBoundary[], AppError>> {
+    const voiceId = await this.voiceService?.getPreferredVoice(userId);
+    const cached = await this.ttsService.getCached(content, { voiceId });
+    if (cached) {
+      return { success: true, data: cached.wordBoundaries };
+    }
+
+    if (this.entitlementService) {
+      const access = await this.entitlementService.authorize(userId, 'tts_generations', 1);
+      if (!access.success) {
+        return access;
+      }
+    }
+
+    logger.info('Generating TTS for reading comparison', { articleId, voiceId });
+    const result = await this.ttsService.synthesizeAndCache(content, { voiceId });
+    await this.newsService.markAudioGenerated(articleId);
+    await this.entitlementService?.recordUsage(userId, 'tts_generations', 1);
+
+    return { success: true, data: result.wordBoundaries };
+  }
+}
@@ -0,0 +1,117 @@
+import type { ISessionRepository } from '../domain/interfaces/index.js';
+import type {
+  PaginatedResponse,
+  PaginationParams,
+  SessionAnalysis,
+  SessionListItem,
+  SessionMode,
+  SessionRecord,
+} from '../shared/types/index.js';
+import { logger } from '../shared/utils/logger.js';
+
+interface AnalysisContext {
+  userId: string;
+  promptText?: string;
+  referenceText?: string;
+}
+
+type StreamingSessionInput = Omit<SessionRecord, 'source' | 'createdAt'>;
+
+/**
+ * Session History Service - stores completed practice sessions
+ * and serves a user's attempt history
+ */
+export class SessionHistoryService {
+  constructor(private sessionRepository: ISessionRepository) {}
+
+  /**
+   * Store the result of an uploaded-audio analysis (POST /api/sessions/analyze)
+   * Reuses the analysis sessionId so the client can fetch it later.
+   */
+  async recordAnalysis(analysis: SessionAnalysis, context: AnalysisContext): Promise<SessionRecord> {
+    const { pronunciation, communication } = analysis;
+    const wordCount = analysis.transcript.split(/\s+/).filter((w) => w.length > 0).length;
+    const durationMs = analysis.duration * 1000;
+    const mispronounced = pronunciation.words.filter((w) => w.accuracyScore < 70);
+    const wordAccuracy = pronunciation.words.length > 0
+      ? Math.round(pronunciation.words.reduce((sum, w) => sum + w.accuracyScore, 0) / pronunciation.words.length)
+      : 0;
+
+    const record: SessionRecord = {
+      id: analysis.sessionId,
+      userId: context.userId,
+      source: 'upload',
+      mode: analysis.mode,
+      promptText: context.promptText,
+      referenceText: context.referenceText,
+      transcript: analysis.transcript,
+      allWords: pronunciation.words.map((w) => ({
+        word: w.word,
+        accuracy: w.accuracyScore,
+        offsetMs: w.offsetMs,
+        durationMs: w.durationMs,
+      })),
+      pronunciation: {
+        overallScore: pronunciation.overallScore,
+        wordAccuracy,
+        mispronouncedCount: mispronounced.length,
+        accuracyScore: pronunciation.accuracyScore,
+        fluencyScore: pronunciation.fluencyScore,
+        prosodyScore: pronunciation.prosodyScore,
+        completenessScore: pronunciation.completenessScore,
+        problemSounds: pronunciation.problemSounds,
+      },
+      communication,
+      durationMs,
+      wordCount,
+      wpm:
+        analysis.speechRate?.speakingRateWpm ??
+        (durationMs > 0 ? Math.round(wordCount / (durationMs / 60000)) : communication.pace.wpm),
+      fillerCount: communication.fillerWords.total,
+      fillerBreakdown: communication.fillerWords.breakdown,
+      overallScore: analysis.overallScore,
+      audioUrl: analysis.audioUrl,
+      createdAt: analysis.createdAt.getTime(),
+    };
+
+    await this.sessionRepository.save(record);
+    logger.info('Session recorded', { sessionId: record.id, source: record.source, mode: record.mode });
+
+    return record;
+  }
+
+  /**
+   * Store a completed streaming session (session:complete)
+   * Reuses the streaming session ID the client got in session:started.
+   */
+  async recordStreamingSession(input: StreamingSessionInput): Promise<SessionRecord> {
+    const record: SessionRecord = {
+      ...input,
+      source: 'streaming',
+      createdAt: Date.now(),
+    };
+
+    await this.sessionRepository.save(record);
+    logger.info('Session recorded', { sessionId: record.id, source: record.source, mode: record.mode });
+
+    return record;
+  }
+
+  /**
+   * List a user's sessions (most recent first)
+   */
+  async listSessions(
+    userId: string,
+    pagination: PaginationParams,
+    mode?: SessionMode
+  ): Promise<PaginatedResponse<SessionListItem>> {
+    return this.sessionRepository.findByUserId(userId, pagination, mode);
+  }
+
+  /**
+   * Get a single session with transcript and word details
+   */
+  async getSession(sessionId: string): Promise<SessionRecord | null> {
+    return this.sessionRepository.findById(sessionId);
+  }
+}
@@ -0,0 +1,105 @@
+import type { IArticleTTSService, TTSCachedAudio } from '../domain/interfaces/index.js';
+import type { Result, ShadowingScript, ShadowingSentence } from '../shared/types/index.js';
+import { AppError, NotFoundError } from '../shared/errors/index.js';
+import { logger } from '../shared/utils/logger.js';
+import { splitSentences } from '../shared/utils/shadowing.js';
+import type { EntitlementService } from './EntitlementService.js';
+import type { NewsService } from './NewsService.js';
+import type { VoiceService } from './VoiceService.js';
+
+/**
+ * Shadowing Service - splits news articles into sentences with their own model audio
+ * The learner hears one sentence, repeats it, and moves on; each sentence is
+ * synthesized (and cached by its text) separately so its word boundaries start at zero.
+ * Sentences are read in the learner's preferred voice.
+ */
+export class ShadowingService {
+  constructor(
+    private newsService: NewsService,
+    private ttsService: IArticleTTSService,
+    private entitlementService?: EntitlementService,
+    private voiceService?: VoiceService
+  ) {}
+
+  /**
+   * Get an article's shadowing script, synthesizing sentences that have no audio yet
+   * A script that needs any synthesis is metered as one TTS generation.
+   */
+  async getScript(articleId: string, userId: string): Promise<Result<ShadowingScript, AppError>> {
+    const article = await this.newsService.getArticleById(articleId);
+    if (!article) {
+      return { success: false, error: new NotFoundError('Article', articleId) };
+    }
+
+    const texts = splitSentences(article.fullContent);
+    const voiceId = await this.voiceService?.getPreferredVoice(userId);
+    const cached = await Promise.all(texts.map((text) => this.ttsService.getCached(text, { voiceId })));
+    const missing = cached.filter((result) => result === null).length;
+
+    if (missing > 0 && this.entitlementService) {
+      const access = await this.entitlementService.authorize(userId, 'tts_generations', 1);
+      if (!access.success) {
+        return access;
+      }
+    }
+
+    if (missing > 0) {
+      logger.info('Generating TTS for shadowing sentences', { articleId, sentences: missing });
+    }
+
+    const sentences: ShadowingSentence[] = [];
+    for (const [index, text] of texts.entries()) {
+      // One sentence at a time, to stay under the TTS concurrency limit
+      const result = cached[index] ?? await this.ttsService.synthesizeAndCache(text, { voiceId });
+
+      sentences.push({
+        index,
+        text,
+        audioUrl: `/api/news/${articleId}/shadowing/${index}/audio`,
+        durationMs: Math.round(result.durationMs),
+        wordBoundaries: result.wordBoundaries,
+      });
+    }
+
+    if (missing > 0) {
+      await this.entitlementService?.recordUsage(userId, 'tts_generations', 1);
+    }
+
+    return {
+      success: true,
+      data: { articleId: article.id, title: article.title, sentences },
+    };
+  }
+
+  /**
+   * Find the cached model audio of one sentence, to stream with createAudioStream
+   * Generates the script first if the sentence has not been synthesized.
+   */
+  async getSentenceAudio(articleId: string, index: number, userId: string): Promise<Result<TTSCachedAudio, AppError>> {
+    const article = await this.newsService.getArticleById(articleId);
+    if (!article) {
+      return { success: false, error: new NotFoundError('Article', articleId) };
+    }
+
+    const text = splitSentences(article.fullContent)[index];
+    if (text === undefined) {
+      return { success: false, error: new NotFoundError('Sentence', String(index)) };
+    }
+
+    const voiceId = await this.voiceService?.getPreferredVoice(userId);
+    let cached = await this.ttsService.statCached(text, { voiceId });
+    if (!cached) {
+      const script = await this.getScript(articleId, userId);
+      if (!script.success) {
+        return script;
+      }
+      cached = await this.ttsService.statCached(text, { voiceId });
+    }
+
+    if (!cached) {
+      return { success: false, error: new NotFoundError('Sentence audio', String(index)) };
+    }
+
+    return { success: true, data: cached };
+  }
+}
@@ -0,0 +1,123 @@
+import type { IVoicePreferenceRepository, TTSSynthesizeResult } from '../domain/interfaces/index.js';
+import type { Result, VoiceOption } from '../shared/types/index.js';
+import { AppError, NotFoundError, ValidationError } from '../shared/errors/index.js';
+import { logger } from '../shared/utils/logger.js';
+import type { CachedTTSService } from './CachedTTSService.js';
+
+/**
+ * Azure neural voices offered to learners
+ */
+export const VOICE_CATALOG: readonly VoiceOption[] = [
+  { id: 'en-US-JennyNeural', name: 'Jenny', locale: 'en-US', accent: 'American', gender: 'female', style: 'Friendly and conversational' },
+  { id: 'en-US-GuyNeural', name: 'Guy', locale: 'en-US', accent: 'American', gender: 'male', style: 'Clear newscaster' },
+  { id: 'en-US-AriaNeural', name: 'Aria', locale: 'en-US', accent: 'American', gender: 'female', style: 'Warm and expressive' },
+  { id: 'en-US-DavisNeural', name: 'Davis', locale: 'en-US', accent: 'American', gender: 'male', style: 'Calm and relaxed' },
+  { id: 'en-GB-SoniaNeural', name: 'Sonia', locale: 'en-GB', accent: 'British', gender: 'female', style: 'Crisp and professional' },
+  { id: 'en-GB-RyanNeural', name: 'Ryan', locale: 'en-GB', accent: 'British', gender: 'male', style: 'Friendly and natural' },
+  { id: 'en-AU-NatashaNeural', name: 'Natasha', locale: 'en-AU', accent: 'Australian', gender: 'female', style: 'Bright and upbeat' },
+  { id: 'en-AU-WilliamNeural', name: 'William', locale: 'en-AU', accent: 'Australian', gender: 'male', style: 'Easygoing' },
+];
+
+export const DEFAULT_VOICE_ID = 'en-US-JennyNeural';
+
+interface VoiceServiceConfig {
+  /**
+   * Voice for users who have not chosen one (must be in the catalog)
+   */
+  defaultVoiceId: string;
+}
+
+/**
+ * Voice Service - the voice catalog, preview samples and each user's voice choice
+ * A voice requested for one chat or article wins over the saved preference,
+ * which wins over the default. Unknown saved voices (e.g. from an older app) fall back to the default.
+ */
+export class VoiceService {
+  private defaultVoiceId: string;
+
+  constructor(
+    private ttsService: CachedTTSService,
+    private preferenceRepository: IVoicePreferenceRepository,
+    config: Partial<VoiceServiceConfig> = {}
+  ) {
+    this.defaultVoiceId = config.defaultVoiceId ?? DEFAULT_VOICE_ID;
+    if (!this.isAvailable(this.defaultVoiceId)) {
+      logger.warn('Default TTS voice is not in the catalog, using fallback', {
+        voiceId: this.defaultVoiceId,
+        fallback: DEFAULT_VOICE_ID,
+      });
+      this.defaultVoiceId = DEFAULT_VOICE_ID;
+    }
+  }
+
+  listVoices(): VoiceOption[] {
+    return [...VOICE_CATALOG];
+  }
+
+  getDefaultVoiceId(): string {
+    return this.defaultVoiceId;
+  }
+
+  isAvailable(voiceId: string): boolean {
+    return VOICE_CATALOG.some((voice) => voice.id === voiceId);
+  }
+
+  /**
+   * The user's saved voice, or the default if none (or an unknown one) is saved
+   */
+  async getPreferredVoice(userId: string): Promise<string> {
+    try {
+      const voiceId = await this.preferenceRepository.getPreferredVoice(userId);
+      if (voiceId && this.isAvailable(voiceId)) {
+        return voiceId;
+      }
+    } catch (error) {
+      logger.error('Failed to load voice preference', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return this.defaultVoiceId;
+  }
+
+  async setPreferredVoice(userId: string, voiceId: string): Promise<Result<string, AppError>> {
+    if (!this.isAvailable(voiceId)) {
+      return { success: false, error: new ValidationError(`Unknown voice: ${voiceId}`) };
+    }
+
+    const saved = await this.preferenceRepository.setPreferredVoice(userId, voiceId);
+    if (!saved) {
+      return { success: false, error: new NotFoundError('Profile', userId) };
+    }
+
+    logger.info('Voice preference saved', { userId, voiceId });
+    return { success: true, data: voiceId };
+  }
+
+  /**
+   * Voice to synthesize with for one request
+   * @param requested Voice chosen for this request, if any
+   */
+  async resolveVoice(userId: string, requested?: string): Promise<Result<string, AppError>> {
+    if (requested === undefined) {
+      return { success: true, data: await this.getPreferredVoice(userId) };
+    }
+    if (!this.isAvailable(requested)) {
+      return { success: false, error: new ValidationError(`Unknown voice: ${requested}`) };
+    }
+    return { success: true, data: requested };
+  }
+
+  /**
+   * Short preview of a voice (synthesized once, then served from the TTS cache)
+   */
+  async getSample(voiceId: string): Promise<Result<TTSSynthesizeResult>> {
+    const voice = VOICE_CATALOG.find((option) => option.id === voiceId);
+    if (!voice) {
+      return { success: false, error: new NotFoundError('Voice', voiceId) };
+    }
+
+    const text = `Hi, I'm ${voice.name}. Let's practice speaking English together.`;
+    return this.ttsService.synthesize(text, { voiceId: voice.id, format: 'mp3' });
+  }
+}
@@ -1,3 +1,11 @@
 export { AnalysisService } from './AnalysisService.js';
 export { NewsService, type NewsArticle } from './NewsService.js';
+export { CachedTTSService } from './CachedTTSService.js';
+export { ArticleTTSService, ARTICLE_PLAYBACK_RATES } from './ArticleTTSService.js';
 export { ChatService } from './ChatService.js';
+export { SessionHistoryService } from './SessionHistoryService.js';
+export { ReadingComparisonService } from './ReadingComparisonService.js';
+export { ShadowingService } from './ShadowingService.js';
+export { EntitlementService, DEFAULT_PLAN_QUOTAS } from './EntitlementService.js';
+export { NudgeEngine, DEFAULT_NUDGE_RULES } from './NudgeEngine.js';
+export { VoiceService, VOICE_CATALOG, DEFAULT_VOICE_ID } from './VoiceService.js';
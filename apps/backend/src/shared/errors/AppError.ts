@@ -96,6 +96,27 @@ export class RateLimitError extends AppError {
   }
 }
 
+/**
+ * Daily usage quota of the user's plan exhausted
+ */
+export class QuotaExceededError extends AppError {
+  constructor(
+    public readonly metric: string,
+    public readonly limit: number
+  ) {
+    super(`Daily ${metric.replace(/_/g, ' ')} quota of ${limit} exceeded`, 'QUOTA_EXCEEDED', 429);
+  }
+}
+
+/**
+ * Trial expired or purchase/subscription no longer active
+ */
+export class AccessExpiredError extends AppError {
+  constructor(message: string = 'Your free trial has ended. Upgrade to keep practicing.') {
+    super(message, 'ACCESS_EXPIRED', 403);
+  }
+}
+
 /**
  * Configuration error
  */
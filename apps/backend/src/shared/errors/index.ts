@@ -7,5 +7,7 @@ export {
   ExternalServiceError,
   AudioProcessingError,
   RateLimitError,
+  QuotaExceededError,
+  AccessExpiredError,
   ConfigurationError,
 } from './AppError.js';
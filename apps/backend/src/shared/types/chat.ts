@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { SpeechRateMetrics } from './index.js';
 
 // ============================================================
 // ENUMS & CONSTANTS
@@ -40,6 +41,8 @@ export interface PronunciationFeedback {
     wpm: number;
     assessment: 'too_slow' | 'good' | 'slightly_fast' | 'too_fast';
   };
+  // Measured from word timestamps when the analyzer provides them
+  rate?: SpeechRateMetrics;
 }
 
 export interface InlineCoaching {
@@ -74,11 +77,25 @@ export interface Conversation {
   summary?: ConversationSummary;
 }
 
+/**
+ * Conversation without its messages, for history listings
+ */
+export interface ConversationListItem {
+  id: string;
+  userId: string;
+  mode: ChatMode;
+  startedAt: number;
+  endedAt?: number;
+  durationSeconds: number;
+  messageCount: number;
+  overallScore?: number;
+}
+
 export interface ConversationSummary {
-  // Scores (0-100)
-  pronunciationScore: number;
-  clarityScore: number;
-  fluencyScore: number;
+  // Scores (0-100); each is left out when it could not be measured
+  pronunciationScore?: number;
+  clarityScore?: number;
+  fluencyScore?: number;
   overallScore: number;
 
   // Pronunciation details
@@ -96,12 +113,12 @@ export interface ConversationSummary {
       suggestion: string;
     };
     pace: {
-      averageWpm: number;
+      averageWpm?: number;
       assessment: string;
       suggestion: string;
     };
     structure: {
-      score: number;
+      score?: number;
       feedback: string;
     };
   };
@@ -118,6 +135,9 @@ export interface ConversationSummary {
 
   // Strengths observed
   strengths: string[];
+
+  // Something was not measured (no LLM analysis, no scored turns); its scores are left out and its text is empty
+  usedDefaults?: boolean;
 }
 
 // ============================================================
@@ -126,7 +146,7 @@ export interface ConversationSummary {
 
 export const chatStartSchema = z.object({
   mode: z.enum(['free_talk', 'reflective', 'professional']).default('free_talk'),
-  userId: z.string().optional(),
+  voiceId: z.string().min(1).optional(), // Overrides the user's preferred voice for this conversation
 });
 
 export type ChatStartPayload = z.infer<typeof chatStartSchema>;
@@ -150,6 +170,7 @@ export type ChatEndPayload = z.infer<typeof chatEndSchema>;
 
 export interface ChatStartResponse {
   conversationId: string;
+  voiceId: string;
   greeting: {
     text: string;
     audioBase64: string;
@@ -186,10 +207,12 @@ export interface ProcessTurnInput {
   conversationId: string;
   audioBase64: string;
   mode: ChatMode;
+  voiceId?: string; // Voice chosen when the conversation started (config default if omitted)
 }
 
 export interface ProcessTurnOutput {
   userTranscript: string;
+  userAudioUrl?: string;
   pronunciation: PronunciationFeedback;
   aiResponse: string;
   aiAudioBase64: string;
@@ -213,4 +236,6 @@ export interface GenerateResponseInput {
 export interface GenerateResponseOutput {
   response: string;
   inlineCoaching?: InlineCoaching;
+  // Generic reply used because the LLM never returned a valid response
+  usedDefaults?: boolean;
 }
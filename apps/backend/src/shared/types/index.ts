@@ -39,10 +39,48 @@ export interface PaginatedResponse<T> {
   };
 }
 
+/**
+ * Verified identity of the caller (from a Supabase access token)
+ */
+export interface AuthenticatedUser {
+  id: string;
+  email?: string;
+  role?: string;
+}
+
+/**
+ * Access type of a user, as computed by Supabase check_user_access
+ */
+export type AccessType = 'purchased' | 'subscription' | 'trial' | 'trial_expired';
+
+/**
+ * Entitlement of a user (trial or purchase state)
+ */
+export interface AccessStatus {
+  hasAccess: boolean;
+  accessType: AccessType;
+  trialEndsAt?: number;
+  expiresAt?: number;
+}
+
+/**
+ * Metered usage tracked per user per day
+ */
+export type UsageMetric = 'analysis_seconds' | 'chat_turns' | 'tts_generations';
+
+/**
+ * Daily usage limits of a plan
+ */
+export interface PlanQuota {
+  analysisMinutesPerDay: number;
+  chatTurnsPerDay: number;
+  ttsGenerationsPerDay: number;
+}
+
 /**
  * Session modes
  */
-export type SessionMode = 'free_talk' | 'professional' | 'casual' | 'read_aloud' | 'read_practice';
+export type SessionMode = 'free_talk' | 'professional' | 'casual' | 'read_aloud' | 'read_practice' | 'shadowing';
 
 /**
  * Pronunciation result from Azure Speech
@@ -63,6 +101,9 @@ export interface WordAnalysis {
   accuracyScore: number;
   errorType?: 'mispronunciation' | 'omission' | 'insertion' | 'none';
   phonemes: PhonemeAnalysis[];
+  // Position in the audio (absent for omitted words)
+  offsetMs?: number;
+  durationMs?: number;
 }
 
 export interface PhonemeAnalysis {
@@ -94,6 +135,11 @@ export interface CommunicationResult {
   polishedVersion: string;
   coachingTip: string;
   strengths: string[];
+
+  /**
+   * The LLM never returned a valid analysis; structure and filler values are placeholders
+   */
+  usedDefaults?: boolean;
 }
 
 export interface GrammarIssue {
@@ -113,10 +159,52 @@ export interface SessionAnalysis {
   transcript: string;
   pronunciation: PronunciationResult;
   communication: CommunicationResult;
+  speechRate?: SpeechRateMetrics;
   overallScore: number;
+  /**
+   * Playback URL of the stored recording (absent if it could not be saved)
+   */
+  audioUrl?: string;
   createdAt: Date;
 }
 
+/**
+ * Speaking rate and pausing measured from word timestamps
+ */
+export interface SpeechRateMetrics {
+  /**
+   * Words per minute from the first word to the last, pauses included
+   */
+  speakingRateWpm: number;
+
+  /**
+   * Words per minute of actual articulation, pauses excluded
+   */
+  articulationRateWpm: number;
+
+  /**
+   * Silent gaps between words of at least the pause threshold
+   */
+  pauseCount: number;
+
+  meanPauseMs: number;
+
+  /**
+   * Gaps long enough to break the flow, in order of occurrence
+   */
+  longPauses: PauseInfo[];
+}
+
+export interface PauseInfo {
+  /**
+   * Index of the word before the pause
+   */
+  afterWordIndex: number;
+  afterWord: string;
+  startMs: number;
+  durationMs: number;
+}
+
 /**
  * Streaming update during recording
  */
@@ -127,3 +215,411 @@ export interface StreamingUpdate {
   currentPaceWpm: number;
   timestamp: number;
 }
+
+/**
+ * Word with its pronunciation accuracy, as accumulated during a session
+ */
+export interface SessionWord {
+  word: string;
+  accuracy: number;
+  offsetMs?: number;
+  durationMs?: number;
+}
+
+/**
+ * How a word of a read-aloud attempt lines up with the reference text
+ */
+export type AlignmentStatus = 'matched' | 'mispronounced' | 'omitted' | 'inserted' | 'repeated';
+
+export interface AlignedWord {
+  status: AlignmentStatus;
+
+  /**
+   * Position in the reference text (absent for inserted and repeated words)
+   */
+  referenceIndex?: number;
+  referenceWord?: string;
+
+  /**
+   * What was recognized (absent for omitted words)
+   */
+  spokenWord?: string;
+  accuracy?: number;
+  offsetMs?: number;
+  durationMs?: number;
+}
+
+/**
+ * Word-level alignment of recognized speech against a reference text
+ */
+export interface ReferenceAlignment {
+  /**
+   * Reference and spoken words in reading order
+   */
+  words: AlignedWord[];
+
+  /**
+   * Reference words up to the current reading position (all of them once complete)
+   */
+  referenceWordsCovered: number;
+  referenceWordCount: number;
+  counts: Record<AlignmentStatus, number>;
+}
+
+/**
+ * Oral reading miscues by type
+ */
+export interface MiscueCounts {
+  substitutions: number; // A different word read
+  mispronunciations: number; // The right word, pronounced poorly
+  omissions: number;
+  insertions: number;
+  repetitions: number;
+  selfCorrections: number; // Errors the reader fixed (counted as correct)
+}
+
+/**
+ * Score of one reference sentence in a reading-fluency report
+ */
+export interface SentenceFluencyScore {
+  index: number;
+  text: string;
+  wordCount: number;
+  wordsCorrect: number;
+  errors: number;
+  accuracyPercent: number;
+
+  /**
+   * Mean pronunciation accuracy of the words read (absent when not reached)
+   */
+  pronunciationScore?: number;
+  attempted: boolean;
+}
+
+/**
+ * Oral reading fluency report for a read-aloud session
+ * Follows standard ORF scoring: errors are substitutions, mispronunciations
+ * and omissions; insertions and repetitions are noted but not errors;
+ * self-corrections count as correct; words after the last one attempted
+ * are not scored.
+ */
+export interface ReadingFluencyReport {
+  wordsCorrectPerMinute: number;
+  accuracyPercent: number;
+  wordsAttempted: number;
+  wordsCorrect: number;
+  errors: number;
+  unreadWords: number;
+  readingTimeMs: number;
+  miscues: MiscueCounts;
+  sentences: SentenceFluencyScore[];
+}
+
+/**
+ * Time range in a recording, in milliseconds from its start
+ */
+export interface AudioTimeRange {
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * One reference word as read by the TTS model and by the learner
+ * durationRatio is learner / model duration (above 1 = slower than the model).
+ */
+export interface WordComparison {
+  referenceIndex: number;
+  word: string;
+  sentenceIndex: number;
+  status: AlignmentStatus;
+  model?: AudioTimeRange;
+  learner?: AudioTimeRange;
+  accuracy?: number;
+  durationRatio?: number;
+}
+
+/**
+ * A reference sentence as read by the TTS model and by the learner
+ * Ranges span the first to the last timed word of the sentence.
+ */
+export interface SentenceComparison {
+  index: number;
+  text: string;
+  firstWordIndex: number;
+  lastWordIndex: number;
+  model?: AudioTimeRange;
+  learner?: AudioTimeRange;
+  accuracy?: number;
+  durationRatio?: number;
+}
+
+/**
+ * Model vs. learner comparison of a read attempt, for side-by-side playback
+ */
+export interface ReadingComparison {
+  sessionId: string;
+  articleId: string;
+  modelAudioUrl: string;
+  learnerAudioUrl?: string;
+  words: WordComparison[];
+  sentences: SentenceComparison[];
+}
+
+/**
+ * Word of a model reading, timed from the start of its audio
+ */
+export interface ModelWordTiming extends AudioTimeRange {
+  word: string;
+}
+
+/**
+ * One sentence of a shadowing script, with its own model audio
+ */
+export interface ShadowingSentence {
+  index: number;
+  text: string;
+  audioUrl: string;
+  durationMs: number;
+  wordBoundaries: ModelWordTiming[];
+}
+
+/**
+ * An article split into sentences for shadowing (listen to one, repeat it, next)
+ */
+export interface ShadowingScript {
+  articleId: string;
+  title: string;
+  sentences: ShadowingSentence[];
+}
+
+/**
+ * A reference word as said by the model and repeated by the learner
+ * Model ranges are in the sentence audio, learner ranges in the session recording.
+ * durationRatio is tempo-normalized: the word's share of the learner's sentence
+ * over its share of the model's (below 1 = rushed relative to the rest of the sentence).
+ */
+export interface ShadowingWordTiming {
+  referenceIndex: number;
+  word: string;
+  status: AlignmentStatus;
+  // Content word, which English lengthens under stress
+  stressed: boolean;
+  model?: AudioTimeRange;
+  learner?: AudioTimeRange;
+  accuracy?: number;
+  durationRatio?: number;
+}
+
+/**
+ * Pauses of the model reading the learner kept, dropped or added
+ */
+export interface ShadowingPauseCounts {
+  model: number;
+  matched: number;
+  missed: number;
+  extra: number;
+}
+
+/**
+ * Score of one shadowed sentence; timing scores are absent when it was not repeated
+ */
+export interface ShadowingSentenceScore {
+  index: number;
+  text: string;
+  wordCount: number;
+  wordsMatched: number;
+  attempted: boolean;
+  pronunciationScore?: number;
+
+  /**
+   * How closely the spacing of word onsets follows the model, tempo aside (0-100)
+   */
+  rhythmSimilarity?: number;
+
+  /**
+   * Learner / model duration over the words both said (above 1 = slower than the model)
+   */
+  relativeSpeed?: number;
+
+  /**
+   * How well stressed words keep their share of the sentence duration (0-100)
+   */
+  stressScore?: number;
+  pauses: ShadowingPauseCounts;
+  score?: number;
+  words: ShadowingWordTiming[];
+}
+
+/**
+ * Shadowing report of a session; overall scores average the attempted sentences
+ */
+export interface ShadowingReport {
+  articleId: string;
+  overallScore: number;
+  pronunciationScore: number;
+  rhythmSimilarity: number;
+  relativeSpeed?: number;
+  stressScore: number;
+  sentenceCount: number;
+  sentencesAttempted: number;
+  pauses: ShadowingPauseCounts;
+  sentences: ShadowingSentenceScore[];
+}
+
+/**
+ * Server-enforced limits of a streaming session
+ */
+export interface StreamingLimits {
+  maxDurationMs: number;
+  maxTotalBytes: number;
+  maxChunkBytes: number;
+
+  /**
+   * Time without audio chunks (while connected) before the session is stopped
+   */
+  idleTimeoutMs: number;
+
+  /**
+   * Recognizer backlog at which the client is asked to pause sending, and to resume
+   */
+  backpressureHighMs: number;
+  backpressureLowMs: number;
+}
+
+/**
+ * Why a streaming session ended (session:complete reason); 'error' when the recognizer failed
+ */
+export type StreamingStopReason = 'client_stop' | 'max_duration' | 'max_bytes' | 'chunk_too_large' | 'idle_timeout' | 'error';
+
+/**
+ * Real-time coaching nudge during a streaming session
+ */
+export type NudgeType = 'too_fast' | 'fillers' | 'long_silence' | 'volume_drop';
+
+export type NudgeSeverity = 'info' | 'warning';
+
+export interface SessionNudge {
+  type: NudgeType;
+  severity: NudgeSeverity;
+  message: string;
+
+  /**
+   * Position in the session audio when the nudge fired
+   */
+  atMs: number;
+}
+
+/**
+ * Thresholds of the nudge rules for one session mode
+ */
+export interface NudgeRules {
+  pace: { enabled: boolean; maxWpm: number; windowMs: number };
+  fillers: { enabled: boolean; maxCount: number; windowMs: number };
+  silence: { enabled: boolean; maxMs: number };
+  volume: { enabled: boolean; dropRatio: number; windowMs: number };
+
+  /**
+   * Minimum time before the same nudge type fires again
+   */
+  cooldownMs: number;
+
+  /**
+   * Minimum time between any two nudges
+   */
+  minIntervalMs: number;
+}
+
+/**
+ * Where the speaker is in the reference text (teleprompter follow mode)
+ */
+export interface ReadingPosition {
+  /**
+   * Index of the reference word most recently read (-1 before the first)
+   */
+  referenceIndex: number;
+  referenceWordCount: number;
+
+  /**
+   * How well the recent words match the text at that position (0-1)
+   */
+  confidence: number;
+}
+
+/**
+ * Pronunciation summary stored with a completed session
+ */
+export interface SessionPronunciationSummary {
+  overallScore: number;
+  wordAccuracy: number;
+  mispronouncedCount: number;
+  accuracyScore?: number;
+  fluencyScore?: number;
+  prosodyScore?: number;
+  completenessScore?: number;
+  problemSounds?: string[];
+}
+
+/**
+ * Completed practice session (upload analysis or streaming workout)
+ */
+export interface SessionRecord {
+  id: string;
+  userId: string;
+  source: 'upload' | 'streaming';
+  mode: SessionMode;
+  promptText?: string;
+  referenceText?: string;
+  // News article the reference text came from (Listen & Read)
+  articleId?: string;
+  transcript: string;
+  allWords: SessionWord[];
+  pronunciation: SessionPronunciationSummary;
+  communication?: Partial<CommunicationResult>;
+  durationMs: number;
+  wordCount: number;
+  wpm: number;
+  fillerCount: number;
+  fillerBreakdown: Record<string, number>;
+  readingFluency?: ReadingFluencyReport;
+  shadowing?: ShadowingReport;
+  overallScore: number;
+  audioUrl?: string;
+  createdAt: number;
+}
+
+/**
+ * Session without transcript and word details, for history listings
+ */
+export type SessionListItem = Pick<
+  SessionRecord,
+  'id' | 'userId' | 'source' | 'mode' | 'promptText' | 'durationMs' | 'wordCount' | 'wpm' | 'overallScore' | 'createdAt'
+>;
+
+/**
+ * Daily news article for listen & read practice
+ */
+export interface NewsArticle {
+  id: string;
+  title: string;
+  summary: string;
+  fullContent: string;
+  source: string;
+  sourceUrl: string;
+  category: 'ai' | 'tech' | 'startup' | 'influencer';
+  publishedAt: string;
+  estimatedReadTime: number;
+  wordCount: number;
+  audioGenerated?: boolean;
+}
+
+/**
+ * Text-to-speech voice learners can choose for chat replies and article audio
+ */
+export interface VoiceOption {
+  id: string; // Azure neural voice name, e.g. en-US-JennyNeural
+  name: string;
+  locale: string;
+  accent: string;
+  gender: 'female' | 'male';
+  style: string;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { matchesIfNoneMatch, satisfiesIfRange } from './httpConditional.js';
+
+const ETAG = '"abc-1f4"';
+const MODIFIED = new Date('2026-03-01T12:00:00.250Z');
+
+describe('matchesIfNoneMatch', () => {
+  it('does not match without a header', () => {
+    expect(matchesIfNoneMatch(undefined, ETAG)).toBe(false);
+  });
+
+  it('matches the same tag, in a list, or weak', () => {
+    expect(matchesIfNoneMatch(ETAG, ETAG)).toBe(true);
+    expect(matchesIfNoneMatch(`"other", ${ETAG}`, ETAG)).toBe(true);
+    expect(matchesIfNoneMatch(`W/${ETAG}`, ETAG)).toBe(true);
+  });
+
+  it('matches any tag with *', () => {
+    expect(matchesIfNoneMatch('*', ETAG)).toBe(true);
+  });
+
+  it('does not match other tags', () => {
+    expect(matchesIfNoneMatch('"other"', ETAG)).toBe(false);
+  });
+});
+
+describe('satisfiesIfRange', () => {
+  it('honors the range without a header', () => {
+    expect(satisfiesIfRange(undefined, ETAG, MODIFIED)).toBe(true);
+  });
+
+  it('honors the range for the current strong tag only', () => {
+    expect(satisfiesIfRange(ETAG, ETAG, MODIFIED)).toBe(true);
+    expect(satisfiesIfRange('"stale"', ETAG, MODIFIED)).toBe(false);
+    expect(satisfiesIfRange(`W/${ETAG}`, ETAG, MODIFIED)).toBe(false);
+  });
+
+  it('compares dates at second precision', () => {
+    expect(satisfiesIfRange(MODIFIED.toUTCString(), ETAG, MODIFIED)).toBe(true);
+    expect(satisfiesIfRange(new Date('2026-02-28T12:00:00Z').toUTCString(), ETAG, MODIFIED)).toBe(false);
+  });
+
+  it('sends the whole resource for an unparseable date', () => {
+    expect(satisfiesIfRange('yesterday', ETAG, MODIFIED)).toBe(false);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Whether an `If-None-Match` header matches a resource's entity tag
+ * Uses weak comparison, as RFC 9110 requires for If-None-Match.
+ */
+export function matchesIfNoneMatch(header: string | undefined, etag: string): boolean {
+  if (!header) return false;
+  if (header.trim() === '*') return true;
+
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return header.split(',').some((tag) => opaque(tag) === opaque(etag));
+}
+
+/**
+ * Whether a Range request may be honored under its `If-Range` header
+ * If-Range holds a strong entity tag or the exact Last-Modified date; when it no
+ * longer matches, the client's partial copy is stale and the whole resource is sent.
+ */
+export function satisfiesIfRange(header: string | undefined, etag: string, lastModified: Date): boolean {
+  if (!header) return true;
+
+  const value = header.trim();
+  if (value.startsWith('"') || value.startsWith('W/')) {
+    return !value.startsWith('W/') && !etag.startsWith('W/') && value === etag;
+  }
+
+  const date = Date.parse(value);
+  return !Number.isNaN(date) && Math.floor(lastModified.getTime() / 1000) * 1000 === date;
+}
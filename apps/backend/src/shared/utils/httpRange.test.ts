@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { parseRangeHeader } from './httpRange.js';
+
+describe('parseRangeHeader', () => {
+  it('returns null without a header', () => {
+    expect(parseRangeHeader(undefined, 1000)).toBeNull();
+    expect(parseRangeHeader('', 1000)).toBeNull();
+  });
+
+  it('parses a closed range', () => {
+    expect(parseRangeHeader('bytes=0-99', 1000)).toEqual([{ start: 0, end: 99 }]);
+  });
+
+  it('runs an open range to the end', () => {
+    expect(parseRangeHeader('bytes=500-', 1000)).toEqual([{ start: 500, end: 999 }]);
+  });
+
+  it('takes a suffix range from the end', () => {
+    expect(parseRangeHeader('bytes=-100', 1000)).toEqual([{ start: 900, end: 999 }]);
+  });
+
+  it('clamps ranges that run past the end', () => {
+    expect(parseRangeHeader('bytes=900-5000', 1000)).toEqual([{ start: 900, end: 999 }]);
+    expect(parseRangeHeader('bytes=-5000', 1000)).toEqual([{ start: 0, end: 999 }]);
+  });
+
+  it('reports ranges starting past the end as unsatisfiable', () => {
+    expect(parseRangeHeader('bytes=1000-', 1000)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=-0', 1000)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=0-', 0)).toBe('unsatisfiable');
+  });
+
+  it('ignores malformed headers', () => {
+    expect(parseRangeHeader('bytes=abc', 1000)).toBeNull();
+    expect(parseRangeHeader('bytes=-', 1000)).toBeNull();
+    expect(parseRangeHeader('bytes=50-10', 1000)).toBeNull();
+    expect(parseRangeHeader('items=0-10', 1000)).toBeNull();
+  });
+});
+
+describe('parseRangeHeader with several ranges', () => {
+  it('sorts ranges', () => {
+    expect(parseRangeHeader('bytes=500-599, 0-99', 1000)).toEqual([
+      { start: 0, end: 99 },
+      { start: 500, end: 599 },
+    ]);
+  });
+
+  it('merges overlapping and adjacent ranges', () => {
+    expect(parseRangeHeader('bytes=0-99,50-149,150-199', 1000)).toEqual([{ start: 0, end: 199 }]);
+  });
+
+  it('drops unsatisfiable ranges next to satisfiable ones', () => {
+    expect(parseRangeHeader('bytes=0-9,2000-', 1000)).toEqual([{ start: 0, end: 9 }]);
+  });
+
+  it('ignores the header when one range is malformed', () => {
+    expect(parseRangeHeader('bytes=0-9,x', 1000)).toBeNull();
+  });
+
+  it('ignores the header when it asks for too many ranges', () => {
+    const specs = Array.from({ length: 17 }, (_, i) => `${i * 10}-${i * 10 + 1}`);
+    expect(parseRangeHeader(`bytes=${specs.join(',')}`, 1000)).toBeNull();
+  });
+});
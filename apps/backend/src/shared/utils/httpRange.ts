@@ -0,0 +1,77 @@
+/**
+ * Inclusive byte range of a resource
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// More ranges than this are answered with the whole resource (RFC 9110 allows ignoring Range)
+const MAX_RANGES = 16;
+
+/**
+ * Parse a `Range` header against a resource of `size` bytes
+ * Each range may be `start-end`, `start-` or `-suffixLength`; several are comma-separated.
+ * Ranges are sorted, and overlapping or adjacent ones merged, so clients cannot
+ * request the same bytes many times over.
+ * @returns the satisfiable ranges, 'unsatisfiable' when none lie inside the resource,
+ *   or null when the header is absent, malformed or asks for too many ranges
+ *   (callers then send the whole resource)
+ */
+export function parseRangeHeader(header: string | undefined, size: number): ByteRange[] | 'unsatisfiable' | null {
+  if (!header) return null;
+
+  const match = /^bytes=(.+)$/.exec(header.trim());
+  if (!match) return null;
+
+  const specs = match[1].split(',').map((spec) => spec.trim());
+  if (specs.length > MAX_RANGES) return null;
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const range = parseRangeSpec(spec, size);
+    if (range === null) return null;
+    if (range !== 'unsatisfiable') ranges.push(range);
+  }
+
+  if (ranges.length === 0) return 'unsatisfiable';
+  return mergeRanges(ranges);
+}
+
+function parseRangeSpec(spec: string, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = /^(\d*)-(\d*)$/.exec(spec);
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  let start: number;
+  let end: number;
+
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const suffixLength = Number(match[2]);
+    if (suffixLength === 0) return 'unsatisfiable';
+    start = Math.max(0, size - suffixLength);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+    if (match[2] !== '' && Number(match[2]) < start) return null;
+  }
+
+  if (start >= size || size === 0) return 'unsatisfiable';
+  return { start, end };
+}
+
+function mergeRanges(ranges: ByteRange[]): ByteRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [{ ...sorted[0] }];
+
+  for (const range of sorted.slice(1)) {
+    const last = merged[merged.length - 1];
+    if (range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
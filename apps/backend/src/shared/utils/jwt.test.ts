@@ -0,0 +1,63 @@
+import { createHmac } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { JwtVerificationError, signHS256, verifyHS256 } from './jwt.js';
+
+const SECRET = 'test-secret';
+const now = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Sign arbitrary header and payload JSON, to build tokens signHS256 never would
+ */
+function signRaw(header: string, payload: string, secret = SECRET): string {
+  const body = `${Buffer.from(header).toString('base64url')}.${Buffer.from(payload).toString('base64url')}`;
+  return `${body}.${createHmac('sha256', secret).update(body).digest('base64url')}`;
+}
+
+describe('verifyHS256', () => {
+  it('returns the payload of a valid token', () => {
+    const token = signHS256({ sub: 'user-1', exp: now() + 60 }, SECRET);
+    expect(verifyHS256(token, SECRET)).toMatchObject({ sub: 'user-1' });
+  });
+
+  it('rejects a token signed with another secret', () => {
+    const token = signHS256({ sub: 'user-1', exp: now() + 60 }, 'other-secret');
+    expect(() => verifyHS256(token, SECRET)).toThrow('Invalid token signature');
+  });
+
+  it('rejects a tampered payload', () => {
+    const [header, , signature] = signHS256({ sub: 'user-1', exp: now() + 60 }, SECRET).split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: 'admin', exp: now() + 60 })).toString('base64url');
+    expect(() => verifyHS256(`${header}.${forged}.${signature}`, SECRET)).toThrow('Invalid token signature');
+  });
+
+  it('rejects other algorithms', () => {
+    const token = signRaw('{"alg":"none"}', JSON.stringify({ exp: now() + 60 }));
+    expect(() => verifyHS256(token, SECRET)).toThrow('Unsupported token algorithm: none');
+  });
+
+  it('rejects malformed tokens', () => {
+    expect(() => verifyHS256('not-a-token', SECRET)).toThrow('Malformed token');
+    expect(() => verifyHS256('a.b.c', SECRET)).toThrow('Malformed token');
+  });
+
+  it('rejects a header or payload that is JSON but not an object', () => {
+    expect(() => verifyHS256(signRaw('null', '{}'), SECRET)).toThrow(JwtVerificationError);
+    expect(() => verifyHS256(signRaw('{"alg":"HS256"}', 'null'), SECRET)).toThrow('Malformed token');
+    expect(() => verifyHS256(signRaw('{"alg":"HS256"}', '[1]'), SECRET)).toThrow('Malformed token');
+  });
+
+  it('rejects tokens without an expiry', () => {
+    const token = signHS256({ sub: 'user-1' }, SECRET);
+    expect(() => verifyHS256(token, SECRET)).toThrow('Token has no expiry');
+  });
+
+  it('rejects expired tokens beyond the clock tolerance', () => {
+    expect(() => verifyHS256(signHS256({ exp: now() - 31 }, SECRET), SECRET)).toThrow('Token expired');
+    expect(verifyHS256(signHS256({ exp: now() - 10 }, SECRET), SECRET)).toBeDefined();
+  });
+
+  it('rejects tokens that are not valid yet', () => {
+    const token = signHS256({ exp: now() + 600, nbf: now() + 120 }, SECRET);
+    expect(() => verifyHS256(token, SECRET)).toThrow('Token not yet valid');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { compareReading } from './readingComparison.js';
+
+const REFERENCE = 'Cats sleep. Dogs bark loudly.';
+
+// TTS boundaries, including punctuation marks
+const MODEL = [
+  { word: 'Cats', startMs: 0, endMs: 400 },
+  { word: 'sleep', startMs: 400, endMs: 800 },
+  { word: '.', startMs: 800, endMs: 800 },
+  { word: 'Dogs', startMs: 1000, endMs: 1400 },
+  { word: 'bark', startMs: 1400, endMs: 1800 },
+  { word: 'loudly', startMs: 1800, endMs: 2400 },
+  { word: '.', startMs: 2400, endMs: 2400 },
+];
+
+describe('compareReading', () => {
+  it('pairs each reference word with the model and learner ranges', () => {
+    const { words } = compareReading(REFERENCE, MODEL, [
+      { word: 'cats', accuracy: 95, offsetMs: 5000, durationMs: 800 },
+      { word: 'sleep', accuracy: 80, offsetMs: 5800, durationMs: 400 },
+    ]);
+
+    expect(words[0]).toMatchObject({
+      referenceIndex: 0,
+      word: 'Cats',
+      sentenceIndex: 0,
+      status: 'matched',
+      model: { startMs: 0, endMs: 400 },
+      learner: { startMs: 5000, endMs: 5800 },
+      accuracy: 95,
+      durationRatio: 2,
+    });
+    expect(words[2]).toMatchObject({ word: 'Dogs', sentenceIndex: 1, status: 'omitted', model: { startMs: 1000, endMs: 1400 } });
+    expect(words[2].learner).toBeUndefined();
+  });
+
+  it('summarizes sentences over the words both readings have', () => {
+    const { sentences } = compareReading(REFERENCE, MODEL, [
+      { word: 'cats', accuracy: 90, offsetMs: 0, durationMs: 400 },
+      { word: 'sleep', accuracy: 70, offsetMs: 400, durationMs: 400 },
+      { word: 'dogs', accuracy: 100, offsetMs: 3000, durationMs: 800 },
+      { word: 'bark', accuracy: 100, offsetMs: 3800, durationMs: 800 },
+    ]);
+
+    expect(sentences).toHaveLength(2);
+    expect(sentences[0]).toMatchObject({ text: 'Cats sleep.', firstWordIndex: 0, lastWordIndex: 1, accuracy: 80, durationRatio: 1 });
+    // "loudly" was not read, so the pace compares "Dogs bark" only
+    expect(sentences[1]).toMatchObject({
+      text: 'Dogs bark loudly.',
+      model: { startMs: 1000, endMs: 2400 },
+      learner: { startMs: 3000, endMs: 4600 },
+      durationRatio: 2,
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import type {
+  AudioTimeRange,
+  SentenceComparison,
+  SessionWord,
+  WordComparison,
+} from '../types/index.js';
+import { alignToReference, endsSentence, normalizeForAlignment, tokenizeReference } from './referenceAlignment.js';
+
+/**
+ * A word of the model reading, as reported by TTS word boundaries
+ */
+interface ModelWord {
+  word: string;
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * Pair each reference word with its time range in the TTS model reading and in the learner's attempt
+ * Both readings are aligned to the reference text independently, so model words
+ * the learner skipped (or the reverse) simply have no counterpart.
+ * @param modelWords TTS word boundaries of the model reading
+ * @param learnerWords Recognized words of the learner's attempt, with timings in their recording
+ */
+export function compareReading(
+  referenceText: string,
+  modelWords: ModelWord[],
+  learnerWords: SessionWord[]
+): { words: WordComparison[]; sentences: SentenceComparison[] } {
+  const reference = tokenizeReference(referenceText);
+
+  // Punctuation boundaries carry no spoken word
+  const modelAlignment = alignToReference(
+    referenceText,
+    modelWords
+      .filter((w) => normalizeForAlignment(w.word).length > 0)
+      .map((w) => ({ word: w.word, offsetMs: w.startMs, durationMs: w.endMs - w.startMs })),
+    true
+  );
+  const learnerAlignment = alignToReference(referenceText, learnerWords, true);
+
+  const modelRanges: Array<AudioTimeRange | undefined> = [];
+  for (const aligned of modelAlignment.words) {
+    if (aligned.referenceIndex === undefined || aligned.spokenWord === undefined) continue;
+    modelRanges[aligned.referenceIndex] = toRange(aligned.offsetMs, aligned.durationMs);
+  }
+
+  let sentenceIndex = 0;
+  const words: WordComparison[] = [];
+  for (const aligned of learnerAlignment.words) {
+    if (aligned.referenceIndex === undefined) continue;
+
+    const model = modelRanges[aligned.referenceIndex];
+    const learner = aligned.spokenWord !== undefined ? toRange(aligned.offsetMs, aligned.durationMs) : undefined;
+
+    words.push({
+      referenceIndex: aligned.referenceIndex,
+      word: reference[aligned.referenceIndex],
+      sentenceIndex,
+      status: aligned.status,
+      model,
+      learner,
+      accuracy: learner ? aligned.accuracy : undefined,
+      durationRatio: model && learner ? durationRatio(learner, model) : undefined,
+    });
+
+    if (endsSentence(reference[aligned.referenceIndex])) sentenceIndex++;
+  }
+
+  return { words, sentences: compareSentences(words) };
+}
+
+function compareSentences(words: WordComparison[]): SentenceComparison[] {
+  const sentences: SentenceComparison[] = [];
+
+  for (let start = 0; start < words.length; ) {
+    let end = start;
+    while (end + 1 < words.length && words[end + 1].sentenceIndex === words[start].sentenceIndex) end++;
+
+    const range = words.slice(start, end + 1);
+    const scores = range.map((w) => w.accuracy).filter((a): a is number => a !== undefined);
+    // Pace is compared over the words both readings have, so a half-read sentence is not "fast"
+    const both = range.filter((w) => w.model && w.learner);
+    const model = span(range.map((w) => w.model));
+    const learner = span(range.map((w) => w.learner));
+    const modelShared = span(both.map((w) => w.model));
+    const learnerShared = span(both.map((w) => w.learner));
+
+    sentences.push({
+      index: words[start].sentenceIndex,
+      text: range.map((w) => w.word).join(' '),
+      firstWordIndex: words[start].referenceIndex,
+      lastWordIndex: words[end].referenceIndex,
+      model,
+      learner,
+      accuracy: scores.length > 0 ? Math.round(scores.reduce((sum, a) => sum + a, 0) / scores.length) : undefined,
+      durationRatio: modelShared && learnerShared ? durationRatio(learnerShared, modelShared) : undefined,
+    });
+    start = end + 1;
+  }
+
+  return sentences;
+}
+
+function toRange(offsetMs: number | undefined, durationMs: number | undefined): AudioTimeRange | undefined {
+  if (offsetMs === undefined) return undefined;
+  return { startMs: offsetMs, endMs: offsetMs + (durationMs ?? 0) };
+}
+
+/**
+ * First start to last end of the timed ranges, or undefined if none are timed
+ */
+function span(ranges: Array<AudioTimeRange | undefined>): AudioTimeRange | undefined {
+  const timed = ranges.filter((r): r is AudioTimeRange => r !== undefined);
+  if (timed.length === 0) return undefined;
+  return {
+    startMs: Math.min(...timed.map((r) => r.startMs)),
+    endMs: Math.max(...timed.map((r) => r.endMs)),
+  };
+}
+
+/**
+ * Learner duration over model duration, to two decimals
+ */
+function durationRatio(learner: AudioTimeRange, model: AudioTimeRange): number | undefined {
+  const modelMs = model.endMs - model.startMs;
+  if (modelMs <= 0) return undefined;
+  return Math.round(((learner.endMs - learner.startMs) / modelMs) * 100) / 100;
+}
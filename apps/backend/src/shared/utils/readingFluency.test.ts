@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { scoreReadingFluency } from './readingFluency.js';
+import { alignToReference } from './referenceAlignment.js';
+
+const REFERENCE = 'The cat sat. The dog ran.';
+
+/**
+ * Spoken words half a second apart, each 400ms long
+ */
+function read(text: string, accuracy: Record<string, number> = {}) {
+  return text.split(' ').map((word, i) => ({
+    word,
+    accuracy: accuracy[word] ?? 95,
+    offsetMs: i * 500,
+    durationMs: 400,
+  }));
+}
+
+const score = (text: string, accuracy?: Record<string, number>, sessionDurationMs = 10_000) =>
+  scoreReadingFluency(alignToReference(REFERENCE, read(text, accuracy), true), sessionDurationMs);
+
+describe('scoreReadingFluency', () => {
+  it('scores a clean reading from word timings', () => {
+    const report = score('the cat sat the dog ran');
+    expect(report).toMatchObject({
+      wordsAttempted: 6,
+      wordsCorrect: 6,
+      errors: 0,
+      accuracyPercent: 100,
+      readingTimeMs: 2900,
+      wordsCorrectPerMinute: 124,
+    });
+    expect(report.sentences.map((sentence) => sentence.text)).toEqual(['The cat sat.', 'The dog ran.']);
+  });
+
+  it('falls back to the session length without word timings', () => {
+    const words = 'the cat sat the dog ran'.split(' ').map((word) => ({ word, accuracy: 95 }));
+    const report = scoreReadingFluency(alignToReference(REFERENCE, words, true), 30_000);
+    expect(report.readingTimeMs).toBe(30_000);
+    expect(report.wordsCorrectPerMinute).toBe(12);
+  });
+
+  it('does not count words after where the reader stopped as errors', () => {
+    const report = score('the cat sat the');
+    expect(report).toMatchObject({ wordsAttempted: 4, wordsCorrect: 4, unreadWords: 2, errors: 0, accuracyPercent: 100 });
+    expect(report.sentences[1]).toMatchObject({ attempted: true, wordsCorrect: 1 });
+  });
+
+  it('counts skipped words as omissions', () => {
+    const report = score('the sat the dog ran');
+    expect(report.miscues.omissions).toBe(1);
+    expect(report.errors).toBe(1);
+    expect(report.sentences[0]).toMatchObject({ errors: 1, accuracyPercent: 67 });
+  });
+
+  it('tells substitutions apart from mispronunciations', () => {
+    expect(score('the bat sat the dog ran').miscues).toMatchObject({ substitutions: 1, mispronunciations: 0 });
+    expect(score('the cat sat the dog ran', { cat: 40 }).miscues).toMatchObject({ substitutions: 0, mispronunciations: 1 });
+  });
+
+  it('counts a corrected misreading as a self-correction, not an error', () => {
+    const report = score('the bat cat sat the dog ran');
+    expect(report.miscues.selfCorrections).toBe(1);
+    expect(report).toMatchObject({ wordsCorrect: 6, errors: 0 });
+  });
+
+  it('counts extra words as insertions', () => {
+    const report = score('the cat sat um the dog ran');
+    expect(report.miscues.insertions).toBe(1);
+    expect(report.errors).toBe(0);
+  });
+});
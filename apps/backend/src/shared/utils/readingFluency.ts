@@ -0,0 +1,216 @@
+import type {
+  AlignedWord,
+  MiscueCounts,
+  ReadingFluencyReport,
+  ReferenceAlignment,
+  SentenceFluencyScore,
+} from '../types/index.js';
+import { endsSentence, normalizeForAlignment } from './referenceAlignment.js';
+
+// Same threshold as the alignment: a recognized word scored below this was not read cleanly
+const CLEAN_ACCURACY = 70;
+
+type WordOutcome = 'correct' | 'substitution' | 'mispronunciation' | 'omission' | 'unread';
+
+/**
+ * Build an oral reading fluency report from a completed reference alignment
+ * @param alignment Alignment of the whole session (complete: true)
+ * @param sessionDurationMs Wall-clock session length, used when words carry no timings
+ */
+export function scoreReadingFluency(alignment: ReferenceAlignment, sessionDurationMs: number): ReadingFluencyReport {
+  const { words } = alignment;
+
+  // Words after the last one the reader reached are not scored
+  let lastAttempted = -1;
+  for (const word of words) {
+    if (word.referenceIndex !== undefined && word.spokenWord !== undefined) {
+      lastAttempted = Math.max(lastAttempted, word.referenceIndex);
+    }
+  }
+
+  const referenceWords: string[] = [];
+  const outcomes: WordOutcome[] = [];
+  const accuracies: Array<number | undefined> = [];
+  for (const word of words) {
+    if (word.referenceIndex === undefined) continue;
+    referenceWords[word.referenceIndex] = word.referenceWord ?? '';
+    outcomes[word.referenceIndex] = outcomeOf(word, lastAttempted);
+    accuracies[word.referenceIndex] = word.accuracy;
+  }
+
+  const miscues: MiscueCounts = {
+    substitutions: 0,
+    mispronunciations: 0,
+    omissions: 0,
+    insertions: 0,
+    repetitions: 0,
+    selfCorrections: 0,
+  };
+
+  // Extra words are either self-corrections of a neighbouring word, or plain insertions/repetitions
+  words.forEach((word, k) => {
+    if (word.referenceIndex !== undefined || !word.spokenWord) return;
+
+    const next = words[k + 1];
+    const previous = words[k - 1];
+
+    // Misread first, then read correctly: "fox box fox", "qu- quick"
+    if (
+      next?.referenceIndex !== undefined &&
+      next.spokenWord !== undefined &&
+      outcomes[next.referenceIndex] === 'correct' &&
+      isAttemptAt(word.spokenWord, next.referenceWord ?? '') &&
+      (!sameWord(word.spokenWord, next.referenceWord ?? '') || (word.accuracy ?? 100) < CLEAN_ACCURACY)
+    ) {
+      miscues.selfCorrections++;
+      return;
+    }
+
+    // Read wrongly, then repeated correctly: "box fox"
+    if (
+      previous?.referenceIndex !== undefined &&
+      previous.spokenWord !== undefined &&
+      outcomes[previous.referenceIndex] !== 'correct' &&
+      sameWord(word.spokenWord, previous.referenceWord ?? '') &&
+      (word.accuracy ?? 100) >= CLEAN_ACCURACY
+    ) {
+      outcomes[previous.referenceIndex] = 'correct';
+      miscues.selfCorrections++;
+      return;
+    }
+
+    if (word.status === 'repeated') {
+      miscues.repetitions++;
+    } else {
+      miscues.insertions++;
+    }
+  });
+
+  let wordsCorrect = 0;
+  let unreadWords = 0;
+  for (const outcome of outcomes) {
+    switch (outcome) {
+      case 'correct':
+        wordsCorrect++;
+        break;
+      case 'substitution':
+        miscues.substitutions++;
+        break;
+      case 'mispronunciation':
+        miscues.mispronunciations++;
+        break;
+      case 'omission':
+        miscues.omissions++;
+        break;
+      case 'unread':
+        unreadWords++;
+        break;
+    }
+  }
+
+  const wordsAttempted = lastAttempted + 1;
+  const readingTimeMs = measureReadingTime(words) ?? sessionDurationMs;
+
+  return {
+    wordsCorrectPerMinute: readingTimeMs > 0 ? Math.round(wordsCorrect / (readingTimeMs / 60000)) : 0,
+    accuracyPercent: wordsAttempted > 0 ? Math.round((wordsCorrect / wordsAttempted) * 100) : 0,
+    wordsAttempted,
+    wordsCorrect,
+    errors: miscues.substitutions + miscues.mispronunciations + miscues.omissions,
+    unreadWords,
+    readingTimeMs: Math.round(readingTimeMs),
+    miscues,
+    sentences: scoreSentences(referenceWords, outcomes, accuracies),
+  };
+}
+
+function outcomeOf(word: AlignedWord, lastAttempted: number): WordOutcome {
+  switch (word.status) {
+    case 'matched':
+      return 'correct';
+    case 'mispronounced':
+      return sameWord(word.spokenWord ?? '', word.referenceWord ?? '') ? 'mispronunciation' : 'substitution';
+    default:
+      return (word.referenceIndex ?? 0) <= lastAttempted ? 'omission' : 'unread';
+  }
+}
+
+/**
+ * Per-sentence table; sentences end at words ending in . ! or ?
+ */
+function scoreSentences(
+  referenceWords: string[],
+  outcomes: WordOutcome[],
+  accuracies: Array<number | undefined>
+): SentenceFluencyScore[] {
+  const sentences: SentenceFluencyScore[] = [];
+  let start = 0;
+
+  for (let i = 0; i < referenceWords.length; i++) {
+    const isLast = i === referenceWords.length - 1;
+    if (!isLast && !endsSentence(referenceWords[i])) continue;
+
+    const range = outcomes.slice(start, i + 1);
+    const attempted = range.filter((o) => o !== 'unread').length;
+    const correct = range.filter((o) => o === 'correct').length;
+    const scores = accuracies
+      .slice(start, i + 1)
+      .filter((a, k): a is number => a !== undefined && range[k] !== 'omission' && range[k] !== 'unread');
+
+    sentences.push({
+      index: sentences.length,
+      text: referenceWords.slice(start, i + 1).join(' '),
+      wordCount: range.length,
+      wordsCorrect: correct,
+      errors: range.filter((o) => o === 'substitution' || o === 'mispronunciation' || o === 'omission').length,
+      accuracyPercent: attempted > 0 ? Math.round((correct / attempted) * 100) : 0,
+      pronunciationScore: scores.length > 0 ? Math.round(scores.reduce((sum, a) => sum + a, 0) / scores.length) : undefined,
+      attempted: attempted > 0,
+    });
+    start = i + 1;
+  }
+
+  return sentences;
+}
+
+/**
+ * First word start to last word end, or undefined without word timings
+ */
+function measureReadingTime(words: AlignedWord[]): number | undefined {
+  let first = Infinity;
+  let last = -Infinity;
+  for (const word of words) {
+    if (word.offsetMs === undefined) continue;
+    first = Math.min(first, word.offsetMs);
+    last = Math.max(last, word.offsetMs + (word.durationMs ?? 0));
+  }
+  return last > first ? last - first : undefined;
+}
+
+function sameWord(a: string, b: string): boolean {
+  return normalizeForAlignment(a) === normalizeForAlignment(b);
+}
+
+/**
+ * Whether a spoken word looks like an attempt at a reference word
+ * (a false start or a near miss rather than an unrelated word)
+ */
+function isAttemptAt(spoken: string, reference: string): boolean {
+  const a = normalizeForAlignment(spoken);
+  const b = normalizeForAlignment(reference);
+  if (!a || !b) return false;
+  if (a === b || (a.length >= 2 && b.startsWith(a))) return true;
+  return editDistance(a, b) <= Math.max(1, Math.floor(b.length / 3));
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1), previous[j] + 1, current[j - 1] + 1);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { ReadingPositionTracker } from './readingPosition.js';
+
+const TEXT =
+  'Once upon a time there was a small village by the sea. ' +
+  'Every morning the fishermen sailed out before sunrise. ' +
+  'Their children waited on the beach for the boats to return.';
+
+describe('ReadingPositionTracker', () => {
+  it('follows interim hypotheses word by word', () => {
+    const tracker = new ReadingPositionTracker(TEXT);
+    expect(tracker.update('once upon', false)?.referenceIndex).toBe(1);
+    expect(tracker.update('once upon a time', false)?.referenceIndex).toBe(3);
+    expect(tracker.currentPosition).toBe(3);
+  });
+
+  it('does not report an unchanged position', () => {
+    const tracker = new ReadingPositionTracker(TEXT);
+    tracker.update('once upon a', false);
+    expect(tracker.update('once upon a', false)).toBeNull();
+  });
+
+  it('continues the next phrase from the last final result', () => {
+    const tracker = new ReadingPositionTracker(TEXT);
+    tracker.update('once upon a time there was a small village by the sea', true);
+    expect(tracker.currentPosition).toBe(11);
+
+    // "the" also occurs earlier; the next phrase should resolve after the sea
+    expect(tracker.update('every morning the', false)?.referenceIndex).toBe(14);
+  });
+
+  it('jumps ahead over a skipped sentence', () => {
+    const tracker = new ReadingPositionTracker(TEXT);
+    tracker.update('once upon a time there was a small village by the sea', true);
+    const position = tracker.update('their children waited on the beach', false);
+    expect(position?.referenceIndex).toBe(25);
+  });
+
+  it('ignores speech that matches nothing', () => {
+    const tracker = new ReadingPositionTracker(TEXT);
+    expect(tracker.update('completely unrelated words here', false)).toBeNull();
+    expect(tracker.currentPosition).toBe(-1);
+  });
+
+  it('reports the reference length and a confidence between 0 and 1', () => {
+    const position = new ReadingPositionTracker(TEXT).update('once upon a time', false);
+    expect(position?.referenceWordCount).toBe(31);
+    expect(position?.confidence).toBeGreaterThan(0);
+    expect(position?.confidence).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,148 @@
+import type { ReadingPosition } from '../types/index.js';
+import { normalizeForAlignment, tokenizeReference } from './referenceAlignment.js';
+
+// Recent spoken words matched against the reference on each update
+const HYPOTHESIS_WORDS = 8;
+
+// Search window around the current position: back for re-reads, ahead for skipped lines
+const LOOK_BEHIND_WORDS = 40;
+const LOOK_AHEAD_WORDS = 80;
+
+// Local alignment scores
+const MATCH = 2;
+const MISMATCH = -1;
+const GAP = -1;
+
+// Score lost per word of distance from the current position, so short or
+// common phrases resolve to the nearest occurrence
+const DISTANCE_PENALTY = 0.05;
+
+// Below this the position is not moved
+const MIN_CONFIDENCE = 0.4;
+
+/**
+ * Follows a speaker through a reference text from streaming recognition results
+ * Interim hypotheses move the position as words are heard; final results
+ * commit it, so the next phrase is searched for from there. Each update
+ * locally aligns the last few spoken words against a window around the
+ * current position (or the whole text when nothing nearby matches), which
+ * lets the position jump ahead over skipped lines and back for re-reads.
+ */
+export class ReadingPositionTracker {
+  private reference: string[];
+  private position = -1;
+  private committedPosition = -1;
+
+  constructor(referenceText: string) {
+    this.reference = tokenizeReference(referenceText).map(normalizeForAlignment);
+  }
+
+  /**
+   * Feed a recognition result
+   * Returns the new position, or null when it did not change or the match is too weak.
+   * @param transcript Text of the current phrase (interim hypothesis or final result)
+   * @param isFinal Whether the phrase is complete
+   */
+  update(transcript: string, isFinal: boolean): ReadingPosition | null {
+    const spoken = transcript.split(/\s+/).map(normalizeForAlignment).filter((w) => w.length > 0);
+
+    // Each phrase continues from where the previous final result left off;
+    // anchor is where the word before the recent ones would be if read in order
+    const recent = spoken.slice(-HYPOTHESIS_WORDS);
+    const anchor = this.committedPosition + spoken.length - recent.length;
+    const match = recent.length > 0 ? this.locate(recent, anchor) : null;
+
+    const previous = this.position;
+    if (match && match.confidence >= MIN_CONFIDENCE) {
+      this.position = match.referenceIndex;
+    }
+    if (isFinal) {
+      this.committedPosition = this.position;
+    }
+
+    if (!match || match.confidence < MIN_CONFIDENCE || this.position === previous) {
+      return null;
+    }
+
+    return {
+      referenceIndex: this.position,
+      referenceWordCount: this.reference.length,
+      confidence: Math.round(match.confidence * 100) / 100,
+    };
+  }
+
+  get currentPosition(): number {
+    return this.position;
+  }
+
+  private locate(spoken: string[], anchor: number): { referenceIndex: number; confidence: number } | null {
+    const start = Math.max(0, anchor - LOOK_BEHIND_WORDS);
+    const end = Math.min(this.reference.length, anchor + 1 + LOOK_AHEAD_WORDS);
+
+    const nearby = this.alignIn(spoken, anchor, start, end);
+    if (nearby && nearby.confidence >= MIN_CONFIDENCE) {
+      return nearby;
+    }
+
+    // Lost (e.g. jumped to another paragraph) - search the whole text once enough words are heard
+    if (spoken.length >= 4 && (start > 0 || end < this.reference.length)) {
+      const anywhere = this.alignIn(spoken, anchor, 0, this.reference.length);
+      if (anywhere && (!nearby || anywhere.confidence > nearby.confidence)) {
+        return anywhere;
+      }
+    }
+
+    return nearby;
+  }
+
+  /**
+   * Smith-Waterman alignment of the spoken words against reference[start, end)
+   * The best-scoring cell gives the reference word aligned with the latest
+   * spoken word it could match; trailing unmatched words push the position on.
+   * @param anchor Reference index just before spoken[0] if reading in order
+   */
+  private alignIn(
+    spoken: string[],
+    anchor: number,
+    start: number,
+    end: number
+  ): { referenceIndex: number; confidence: number } | null {
+    const cols = end - start + 1;
+    if (cols <= 1) return null;
+
+    const score = new Float64Array((spoken.length + 1) * cols);
+    let best: { row: number; refIndex: number; score: number; rank: number } | null = null;
+
+    for (let i = 1; i <= spoken.length; i++) {
+      for (let j = 1; j < cols; j++) {
+        const refIndex = start + j - 1;
+        const diagonal = score[(i - 1) * cols + j - 1] + (spoken[i - 1] === this.reference[refIndex] ? MATCH : MISMATCH);
+        const cell = Math.max(0, diagonal, score[(i - 1) * cols + j] + GAP, score[i * cols + j - 1] + GAP);
+        score[i * cols + j] = cell;
+
+        // Only cells where this spoken word is matched mark a reading position
+        if (cell <= 0 || spoken[i - 1] !== this.reference[refIndex] || cell !== diagonal) continue;
+
+        // Prefer positions near where this word would be if reading in order
+        const rank = cell - DISTANCE_PENALTY * Math.abs(refIndex - (anchor + i));
+        if (!best || rank > best.rank) {
+          best = { row: i, refIndex, score: cell, rank };
+        }
+      }
+    }
+
+    if (!best) return null;
+
+    // Words heard after the last match are assumed to be the following reference words
+    const trailing = spoken.length - best.row;
+    const referenceIndex = Math.min(this.reference.length - 1, best.refIndex + trailing);
+    let confidence = Math.min(1, best.score / (MATCH * spoken.length)) * (trailing > 1 ? 0.8 : 1);
+
+    // One or two words off the expected spot are too ambiguous to jump on
+    if (referenceIndex !== anchor + spoken.length) {
+      confidence *= Math.min(1, spoken.length / 3);
+    }
+
+    return { referenceIndex, confidence };
+  }
+}
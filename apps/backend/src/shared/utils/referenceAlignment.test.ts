@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { alignToReference, endsSentence, normalizeForAlignment, tokenizeReference } from './referenceAlignment.js';
+
+const spoken = (text: string, accuracy = 95) => text.split(' ').map((word) => ({ word, accuracy }));
+
+describe('normalizeForAlignment', () => {
+  it('lowercases and strips punctuation but keeps apostrophes', () => {
+    expect(normalizeForAlignment('"Hello,')).toBe('hello');
+    expect(normalizeForAlignment("Don't")).toBe("don't");
+  });
+});
+
+describe('tokenizeReference', () => {
+  it('drops tokens that are only punctuation', () => {
+    expect(tokenizeReference('Wait - what?  Yes.')).toEqual(['Wait', 'what?', 'Yes.']);
+  });
+});
+
+describe('endsSentence', () => {
+  it('recognizes closing punctuation before quotes and brackets', () => {
+    expect(endsSentence('end.')).toBe(true);
+    expect(endsSentence('really?"')).toBe(true);
+    expect(endsSentence('(aside.)')).toBe(true);
+    expect(endsSentence('comma,')).toBe(false);
+  });
+});
+
+describe('alignToReference', () => {
+  const reference = 'The quick brown fox jumps.';
+
+  it('matches a perfect reading', () => {
+    const alignment = alignToReference(reference, spoken('the quick brown fox jumps'), true);
+    expect(alignment.counts).toMatchObject({ matched: 5, omitted: 0, inserted: 0 });
+    expect(alignment.referenceWordsCovered).toBe(5);
+    expect(alignment.words[4]).toMatchObject({ referenceIndex: 4, referenceWord: 'jumps.', spokenWord: 'jumps' });
+  });
+
+  it('marks substitutions and poorly scored words as mispronounced', () => {
+    const words = [...spoken('the quick'), { word: 'brown', accuracy: 40 }, ...spoken('box jumps')];
+    const alignment = alignToReference(reference, words, true);
+    expect(alignment.words.map((word) => word.status)).toEqual([
+      'matched', 'matched', 'mispronounced', 'mispronounced', 'matched',
+    ]);
+  });
+
+  it('reports skipped words as omitted', () => {
+    const alignment = alignToReference(reference, spoken('the fox jumps'), true);
+    expect(alignment.counts.omitted).toBe(2);
+    expect(alignment.words.filter((word) => word.status === 'omitted').map((word) => word.referenceWord))
+      .toEqual(['quick', 'brown']);
+  });
+
+  it('tells re-read words apart from insertions', () => {
+    const alignment = alignToReference(reference, spoken('the quick quick brown um fox jumps'), true);
+    expect(alignment.counts).toMatchObject({ matched: 5, repeated: 1, inserted: 1 });
+    expect(alignment.words.find((word) => word.status === 'inserted')?.spokenWord).toBe('um');
+  });
+
+  it('treats words past the reading position as unread while in progress', () => {
+    const alignment = alignToReference(reference, spoken('the quick'), false);
+    expect(alignment.referenceWordsCovered).toBe(2);
+    expect(alignment.counts.omitted).toBe(0);
+    expect(alignment.referenceWordCount).toBe(5);
+  });
+
+  it('omits unread words once complete', () => {
+    const alignment = alignToReference(reference, spoken('the quick'), true);
+    expect(alignment.referenceWordsCovered).toBe(5);
+    expect(alignment.counts.omitted).toBe(3);
+  });
+});
@@ -0,0 +1,156 @@
+import type {
+  AlignedWord,
+  AlignmentStatus,
+  ReferenceAlignment,
+} from '../types/index.js';
+
+// Words scored below this are reported as mispronounced even when they match
+const MISPRONOUNCED_ACCURACY = 70;
+
+// How far back an extra word may echo the reference to count as a re-read
+const REPEAT_WINDOW = 3;
+
+interface SpokenWord {
+  word: string;
+  accuracy?: number;
+  offsetMs?: number;
+  durationMs?: number;
+}
+
+/**
+ * Lowercase and strip punctuation so spoken and written forms compare equal
+ */
+export function normalizeForAlignment(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+export function tokenizeReference(referenceText: string): string[] {
+  return referenceText.split(/\s+/).filter((word) => normalizeForAlignment(word).length > 0);
+}
+
+/**
+ * Whether a reference word closes a sentence (ends in . ! or ?, before any closing quote or bracket)
+ */
+export function endsSentence(word: string): boolean {
+  return /[.!?]["'”’)\]]*$/.test(word);
+}
+
+/**
+ * Align recognized words to a reference text (word-level edit distance)
+ * While reading is in progress, reference words past the best-matching
+ * position are treated as not yet read rather than omitted.
+ * @param complete Whether the attempt is finished (unread words become omissions)
+ */
+export function alignToReference(
+  referenceText: string,
+  spoken: SpokenWord[],
+  complete: boolean
+): ReferenceAlignment {
+  const reference = tokenizeReference(referenceText);
+  const ref = reference.map(normalizeForAlignment);
+  const hyp = spoken.map((word) => normalizeForAlignment(word.word));
+  const cols = ref.length + 1;
+
+  // cost[i * cols + j]: edits to align the first i spoken words with the first j reference words
+  const cost = new Int32Array((hyp.length + 1) * cols);
+  for (let j = 0; j <= ref.length; j++) cost[j] = j;
+  for (let i = 1; i <= hyp.length; i++) {
+    cost[i * cols] = i;
+    for (let j = 1; j <= ref.length; j++) {
+      const substitution = cost[(i - 1) * cols + j - 1] + (hyp[i - 1] === ref[j - 1] ? 0 : 1);
+      const insertion = cost[(i - 1) * cols + j] + 1;
+      const omission = cost[i * cols + j - 1] + 1;
+      cost[i * cols + j] = Math.min(substitution, insertion, omission);
+    }
+  }
+
+  // Reading position: the whole text when complete, otherwise the cheapest (furthest on ties) prefix
+  let covered = ref.length;
+  if (!complete) {
+    const last = hyp.length * cols;
+    covered = 0;
+    for (let j = 1; j <= ref.length; j++) {
+      if (cost[last + j] <= cost[last + covered]) covered = j;
+    }
+  }
+
+  // Backtrace, preferring matches/substitutions so words pair up where possible
+  const aligned: AlignedWord[] = [];
+  let i = hyp.length;
+  let j = covered;
+  while (i > 0 || j > 0) {
+    const here = cost[i * cols + j];
+
+    if (i > 0 && j > 0 && here === cost[(i - 1) * cols + j - 1] + (hyp[i - 1] === ref[j - 1] ? 0 : 1)) {
+      const word = spoken[i - 1];
+      const misread = hyp[i - 1] !== ref[j - 1];
+      aligned.push({
+        status: misread || (word.accuracy ?? 100) < MISPRONOUNCED_ACCURACY ? 'mispronounced' : 'matched',
+        referenceIndex: j - 1,
+        referenceWord: reference[j - 1],
+        spokenWord: word.word,
+        accuracy: word.accuracy,
+        offsetMs: word.offsetMs,
+        durationMs: word.durationMs,
+      });
+      i--;
+      j--;
+    } else if (i > 0 && here === cost[(i - 1) * cols + j] + 1) {
+      const word = spoken[i - 1];
+      aligned.push({
+        status: 'inserted',
+        spokenWord: word.word,
+        accuracy: word.accuracy,
+        offsetMs: word.offsetMs,
+        durationMs: word.durationMs,
+      });
+      i--;
+    } else {
+      aligned.push({ status: 'omitted', referenceIndex: j - 1, referenceWord: reference[j - 1] });
+      j--;
+    }
+  }
+  aligned.reverse();
+
+  markRepeats(aligned, ref);
+
+  const counts: Record<AlignmentStatus, number> = {
+    matched: 0,
+    mispronounced: 0,
+    omitted: 0,
+    inserted: 0,
+    repeated: 0,
+  };
+  for (const word of aligned) {
+    counts[word.status]++;
+  }
+
+  return {
+    words: aligned,
+    referenceWordsCovered: covered,
+    referenceWordCount: ref.length,
+    counts,
+  };
+}
+
+/**
+ * Extra words that echo the words around the reading position are re-reads, not insertions
+ */
+function markRepeats(aligned: AlignedWord[], ref: string[]): void {
+  let lastReferenceIndex = -1;
+
+  for (const word of aligned) {
+    if (word.referenceIndex !== undefined) {
+      lastReferenceIndex = word.referenceIndex;
+      continue;
+    }
+    if (word.status !== 'inserted' || !word.spokenWord) continue;
+
+    // The extra copy of a doubled word can land on either side of the matched one
+    const spoken = normalizeForAlignment(word.spokenWord);
+    const start = Math.max(0, lastReferenceIndex - REPEAT_WINDOW + 1);
+    if (ref.slice(start, lastReferenceIndex + 2).includes(spoken)) {
+      word.status = 'repeated';
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import type { ModelWordTiming, SessionWord, ShadowingScript } from '../types/index.js';
+import { scoreShadowing, splitSentences } from './shadowing.js';
+
+/**
+ * Model boundaries at the given onsets, each word 400ms, plus a trailing punctuation boundary
+ */
+function boundaries(words: string[], onsets: number[]): ModelWordTiming[] {
+  const timed = words.map((word, k) => ({ word, startMs: onsets[k], endMs: onsets[k] + 400 }));
+  const end = timed[timed.length - 1].endMs;
+  return [...timed, { word: '.', startMs: end, endMs: end }];
+}
+
+function script(...sentences: Array<{ text: string; onsets: number[] }>): ShadowingScript {
+  return {
+    articleId: 'article-1',
+    title: 'Test',
+    sentences: sentences.map(({ text, onsets }, index) => ({
+      index,
+      text,
+      audioUrl: `/api/news/article-1/shadowing/${index}/audio`,
+      durationMs: onsets[onsets.length - 1] + 400,
+      wordBoundaries: boundaries(text.replace(/[.]/g, '').split(' '), onsets),
+    })),
+  };
+}
+
+/**
+ * Learner words at `scale` times the model's timing, starting at `startMs`
+ */
+function repeat(words: string[], onsets: number[], startMs: number, scale = 1, accuracy = 90): SessionWord[] {
+  return words.map((word, k) => ({
+    word,
+    accuracy,
+    offsetMs: startMs + onsets[k] * scale,
+    durationMs: 400 * scale,
+  }));
+}
+
+const FIRST = { text: 'The quick fox jumped.', onsets: [0, 500, 1000, 1500] };
+const SECOND = { text: 'Birds sing loudly.', onsets: [0, 500, 1000] };
+const FIRST_WORDS = ['the', 'quick', 'fox', 'jumped'];
+
+describe('splitSentences', () => {
+  it('splits at sentence punctuation and collapses whitespace', () => {
+    expect(splitSentences('One two.  Three?\n"Four!" five')).toEqual(['One two.', 'Three?', '"Four!"', 'five']);
+  });
+
+  it('drops punctuation-only fragments', () => {
+    expect(splitSentences('Hello. -- ... World.')).toEqual(['Hello.', 'World.']);
+  });
+});
+
+describe('scoreShadowing', () => {
+  it('scores a faithful copy at the model speed', () => {
+    const report = scoreShadowing(script(FIRST), repeat(FIRST_WORDS, FIRST.onsets, 10_000));
+    expect(report.sentences[0]).toMatchObject({
+      attempted: true,
+      wordsMatched: 4,
+      pronunciationScore: 90,
+      rhythmSimilarity: 100,
+      relativeSpeed: 1,
+      stressScore: 100,
+      score: 96,
+    });
+  });
+
+  it('keeps rhythm and stress when the whole sentence is slower, but scores the speed', () => {
+    const report = scoreShadowing(script(FIRST), repeat(FIRST_WORDS, FIRST.onsets, 10_000, 2));
+    expect(report.sentences[0]).toMatchObject({ rhythmSimilarity: 100, stressScore: 100, relativeSpeed: 2, score: 76 });
+  });
+
+  it('averages only the attempted sentences', () => {
+    const report = scoreShadowing(script(FIRST, SECOND), repeat(FIRST_WORDS, FIRST.onsets, 10_000));
+    expect(report).toMatchObject({ sentenceCount: 2, sentencesAttempted: 1, overallScore: 96 });
+    expect(report.sentences[1]).toMatchObject({ attempted: false, score: undefined });
+    expect(report.sentences[1].words.every((word) => word.status === 'omitted')).toBe(true);
+  });
+
+  it('counts model pauses the learner skipped', () => {
+    const paused = { text: 'The quick fox jumped.', onsets: [0, 500, 1600, 2100] }; // 700ms pause after "quick"
+    const report = scoreShadowing(script(paused), repeat(FIRST_WORDS, FIRST.onsets, 10_000));
+    expect(report.pauses).toEqual({ model: 1, matched: 0, missed: 1, extra: 0 });
+  });
+
+  it('flags rushed stressed words', () => {
+    const learner = repeat(FIRST_WORDS, FIRST.onsets, 10_000);
+    learner[2].durationMs = 100; // "fox" said in a quarter of the model's share
+    const report = scoreShadowing(script(FIRST), learner);
+    const fox = report.sentences[0].words[2];
+    expect(fox.stressed).toBe(true);
+    expect(fox.durationRatio).toBeLessThan(1 / 1.5);
+    expect(report.sentences[0].stressScore).toBe(67);
+  });
+});
@@ -0,0 +1,289 @@
+import type {
+  AlignedWord,
+  AudioTimeRange,
+  SessionWord,
+  ShadowingPauseCounts,
+  ShadowingReport,
+  ShadowingScript,
+  ShadowingSentence,
+  ShadowingSentenceScore,
+  ShadowingWordTiming,
+} from '../types/index.js';
+import { alignToReference, endsSentence, normalizeForAlignment, tokenizeReference } from './referenceAlignment.js';
+
+// Gaps between words shorter than this are transitions, not pauses (same as speech rate metrics)
+const PAUSE_THRESHOLD_MS = 250;
+
+// A stressed word keeps its stress if its share of the sentence is within this factor of the model's
+const STRESS_TOLERANCE = 1.5;
+
+// Weights of the sentence score components (renormalized over those available)
+const SCORE_WEIGHTS = {
+  pronunciation: 0.4,
+  rhythm: 0.25,
+  speed: 0.2,
+  stress: 0.15,
+};
+
+// Words English usually leaves unstressed; everything else counts as a content word
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'nor', 'so', 'if', 'than', 'that', 'as',
+  'of', 'to', 'in', 'on', 'at', 'by', 'for', 'from', 'with', 'into', 'onto', 'over', 'about',
+  'i', 'you', 'he', 'she', 'it', 'we', 'they', 'me', 'him', 'her', 'us', 'them',
+  'my', 'your', 'his', 'its', 'our', 'their', 'this', 'these', 'those',
+  'is', 'am', 'are', 'was', 'were', 'be', 'been', 'being', 'has', 'have', 'had',
+  'do', 'does', 'did', 'will', 'would', 'shall', 'should', 'can', 'could', 'may', 'might', 'must',
+  "it's", "that's", "there's", 'there', 'which', 'who', 'whom', 'what',
+]);
+
+/**
+ * Split text into sentences at words ending in . ! or ?
+ * Whitespace is collapsed, so the sentences joined by spaces tokenize like the text.
+ */
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let current: string[] = [];
+
+  for (const word of text.split(/\s+/).filter((w) => w.length > 0)) {
+    current.push(word);
+    if (endsSentence(word)) {
+      sentences.push(current.join(' '));
+      current = [];
+    }
+  }
+  if (current.length > 0) sentences.push(current.join(' '));
+
+  // Punctuation-only fragments ("--", "...") have nothing to repeat
+  return sentences.filter((sentence) => tokenizeReference(sentence).length > 0);
+}
+
+/**
+ * Score a shadowing session against the model reading of each sentence
+ * The learner's words are aligned to the whole script, then each sentence is
+ * compared with its TTS boundaries: pronunciation accuracy, rhythm (spacing of
+ * word onsets), relative speed, stressed-word durations and pauses.
+ * @param learnerWords Recognized words of the session, timed in its recording
+ */
+export function scoreShadowing(script: ShadowingScript, learnerWords: SessionWord[]): ShadowingReport {
+  const learnerAlignment = alignToReference(
+    script.sentences.map((s) => s.text).join(' '),
+    learnerWords,
+    true
+  );
+
+  const learnerByIndex: AlignedWord[] = [];
+  for (const aligned of learnerAlignment.words) {
+    if (aligned.referenceIndex !== undefined) learnerByIndex[aligned.referenceIndex] = aligned;
+  }
+
+  let firstIndex = 0;
+  const sentences = script.sentences.map((sentence) => {
+    const words = compareSentenceWords(sentence, learnerByIndex, firstIndex);
+    firstIndex += words.length;
+    return scoreSentence(sentence, words);
+  });
+
+  const attempted = sentences.filter((s) => s.attempted);
+  const speeds = attempted.map((s) => s.relativeSpeed).filter((r): r is number => r !== undefined);
+  const meanSpeed = mean(speeds);
+
+  return {
+    articleId: script.articleId,
+    overallScore: Math.round(mean(attempted.map((s) => s.score)) ?? 0),
+    pronunciationScore: Math.round(mean(attempted.map((s) => s.pronunciationScore)) ?? 0),
+    rhythmSimilarity: Math.round(mean(attempted.map((s) => s.rhythmSimilarity)) ?? 0),
+    relativeSpeed: meanSpeed !== undefined ? Math.round(meanSpeed * 100) / 100 : undefined,
+    stressScore: Math.round(mean(attempted.map((s) => s.stressScore)) ?? 0),
+    sentenceCount: sentences.length,
+    sentencesAttempted: attempted.length,
+    pauses: sentences.reduce(
+      (total, s) => ({
+        model: total.model + s.pauses.model,
+        matched: total.matched + s.pauses.matched,
+        missed: total.missed + s.pauses.missed,
+        extra: total.extra + s.pauses.extra,
+      }),
+      { model: 0, matched: 0, missed: 0, extra: 0 }
+    ),
+    sentences,
+  };
+}
+
+/**
+ * Pair each word of a sentence with its model range and the learner's aligned word
+ * @param firstIndex Script index of the sentence's first word
+ */
+function compareSentenceWords(
+  sentence: ShadowingSentence,
+  learnerByIndex: AlignedWord[],
+  firstIndex: number
+): ShadowingWordTiming[] {
+  const reference = tokenizeReference(sentence.text);
+
+  // Punctuation boundaries carry no spoken word
+  const modelAlignment = alignToReference(
+    sentence.text,
+    sentence.wordBoundaries
+      .filter((w) => normalizeForAlignment(w.word).length > 0)
+      .map((w) => ({ word: w.word, offsetMs: w.startMs, durationMs: w.endMs - w.startMs })),
+    true
+  );
+
+  const modelRanges: Array<AudioTimeRange | undefined> = [];
+  for (const aligned of modelAlignment.words) {
+    if (aligned.referenceIndex === undefined || aligned.spokenWord === undefined) continue;
+    modelRanges[aligned.referenceIndex] = toRange(aligned.offsetMs, aligned.durationMs);
+  }
+
+  return reference.map((word, k) => {
+    const learner = learnerByIndex[firstIndex + k];
+    const learnerRange = learner?.spokenWord !== undefined ? toRange(learner.offsetMs, learner.durationMs) : undefined;
+
+    return {
+      referenceIndex: firstIndex + k,
+      word,
+      status: learner?.status ?? 'omitted',
+      stressed: !FUNCTION_WORDS.has(normalizeForAlignment(word)),
+      model: modelRanges[k],
+      learner: learnerRange,
+      accuracy: learnerRange ? learner?.accuracy : undefined,
+    };
+  });
+}
+
+function scoreSentence(sentence: ShadowingSentence, words: ShadowingWordTiming[]): ShadowingSentenceScore {
+  const attempted = words.some((w) => w.learner);
+  const scores = words.filter((w) => w.learner).map((w) => w.accuracy);
+  const pronunciationScore = mean(scores);
+
+  // Timing is compared over the words both readings have, in reading order
+  const both = words.filter(
+    (w): w is ShadowingWordTiming & { model: AudioTimeRange; learner: AudioTimeRange } =>
+      w.model !== undefined && w.learner !== undefined
+  );
+  const modelSpan = span(both.map((w) => w.model));
+  const learnerSpan = span(both.map((w) => w.learner));
+  const relativeSpeed = modelSpan > 0 && learnerSpan > 0 ? Math.round((learnerSpan / modelSpan) * 100) / 100 : undefined;
+
+  if (relativeSpeed !== undefined) {
+    for (const w of both) {
+      const modelShare = (w.model.endMs - w.model.startMs) / modelSpan;
+      const learnerShare = (w.learner.endMs - w.learner.startMs) / learnerSpan;
+      if (modelShare > 0) {
+        w.durationRatio = Math.round((learnerShare / modelShare) * 100) / 100;
+      }
+    }
+  }
+
+  const stressed = both.filter((w) => w.stressed && w.durationRatio !== undefined);
+  const keptStress = stressed.filter(
+    (w) => w.durationRatio! >= 1 / STRESS_TOLERANCE && w.durationRatio! <= STRESS_TOLERANCE
+  );
+  const stressScore = stressed.length > 0 ? Math.round((keptStress.length / stressed.length) * 100) : undefined;
+
+  const rhythmSimilarity = compareRhythm(both);
+  const pauses = comparePauses(both, relativeSpeed ?? 1);
+
+  return {
+    index: sentence.index,
+    text: sentence.text,
+    wordCount: words.length,
+    wordsMatched: words.filter((w) => w.status === 'matched').length,
+    attempted,
+    pronunciationScore: pronunciationScore !== undefined ? Math.round(pronunciationScore) : undefined,
+    rhythmSimilarity,
+    relativeSpeed,
+    stressScore,
+    pauses,
+    score: attempted
+      ? combineScores([
+          [pronunciationScore, SCORE_WEIGHTS.pronunciation],
+          [rhythmSimilarity, SCORE_WEIGHTS.rhythm],
+          [relativeSpeed !== undefined ? speedScore(relativeSpeed) : undefined, SCORE_WEIGHTS.speed],
+          [stressScore, SCORE_WEIGHTS.stress],
+        ])
+      : undefined,
+    words,
+  };
+}
+
+/**
+ * Similarity of the onset-to-onset intervals as shares of each reading (0-100)
+ * 100 minus half the total difference of the shares, so tempo alone does not count.
+ * @returns undefined with fewer than two intervals
+ */
+function compareRhythm(words: Array<{ model: AudioTimeRange; learner: AudioTimeRange }>): number | undefined {
+  if (words.length < 3) return undefined;
+
+  const modelIntervals = intervals(words.map((w) => w.model.startMs));
+  const learnerIntervals = intervals(words.map((w) => w.learner.startMs));
+  const modelTotal = modelIntervals.reduce((sum, i) => sum + i, 0);
+  const learnerTotal = learnerIntervals.reduce((sum, i) => sum + i, 0);
+  if (modelTotal <= 0 || learnerTotal <= 0) return undefined;
+
+  const difference = modelIntervals.reduce(
+    (sum, interval, k) => sum + Math.abs(interval / modelTotal - learnerIntervals[k] / learnerTotal),
+    0
+  );
+  return Math.round(Math.max(0, 1 - difference / 2) * 100);
+}
+
+/**
+ * Match the pauses between consecutive words; learner pauses are judged at the learner's tempo
+ */
+function comparePauses(
+  words: Array<{ model: AudioTimeRange; learner: AudioTimeRange }>,
+  relativeSpeed: number
+): ShadowingPauseCounts {
+  const counts: ShadowingPauseCounts = { model: 0, matched: 0, missed: 0, extra: 0 };
+  const learnerThreshold = PAUSE_THRESHOLD_MS * Math.max(1, relativeSpeed);
+
+  for (let k = 1; k < words.length; k++) {
+    const modelPause = words[k].model.startMs - words[k - 1].model.endMs >= PAUSE_THRESHOLD_MS;
+    const learnerPause = words[k].learner.startMs - words[k - 1].learner.endMs >= learnerThreshold;
+
+    if (modelPause) counts.model++;
+    if (modelPause && learnerPause) counts.matched++;
+    else if (modelPause) counts.missed++;
+    else if (learnerPause) counts.extra++;
+  }
+
+  return counts;
+}
+
+/**
+ * 100 at the model's speed, falling to 0 at half or double it
+ */
+function speedScore(relativeSpeed: number): number {
+  return Math.max(0, 1 - Math.abs(Math.log2(relativeSpeed))) * 100;
+}
+
+function combineScores(components: Array<[number | undefined, number]>): number {
+  const available = components.filter((c): c is [number, number] => c[0] !== undefined);
+  const weight = available.reduce((sum, [, w]) => sum + w, 0);
+  if (weight === 0) return 0;
+  return Math.round(available.reduce((sum, [score, w]) => sum + score * w, 0) / weight);
+}
+
+function intervals(onsets: number[]): number[] {
+  return onsets.slice(1).map((onset, k) => Math.max(0, onset - onsets[k]));
+}
+
+function toRange(offsetMs: number | undefined, durationMs: number | undefined): AudioTimeRange | undefined {
+  if (offsetMs === undefined) return undefined;
+  return { startMs: offsetMs, endMs: offsetMs + (durationMs ?? 0) };
+}
+
+/**
+ * First start to last end of the ranges, in milliseconds (0 if there are none)
+ */
+function span(ranges: AudioTimeRange[]): number {
+  if (ranges.length === 0) return 0;
+  return Math.max(...ranges.map((r) => r.endMs)) - Math.min(...ranges.map((r) => r.startMs));
+}
+
+function mean(values: Array<number | undefined>): number | undefined {
+  const defined = values.filter((v): v is number => v !== undefined);
+  if (defined.length === 0) return undefined;
+  return defined.reduce((sum, v) => sum + v, 0) / defined.length;
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { computeSpeechRateMetrics } from './speechRate.js';
+
+describe('computeSpeechRateMetrics', () => {
+  it('separates pauses from articulation time', () => {
+    const metrics = computeSpeechRateMetrics([
+      { word: 'one', offsetMs: 0, durationMs: 300 },
+      { word: 'two', offsetMs: 400, durationMs: 300 }, // 100ms gap: not a pause
+      { word: 'three', offsetMs: 1000, durationMs: 300 }, // 300ms pause
+      { word: 'four', offsetMs: 2500, durationMs: 300 }, // 1200ms long pause
+    ]);
+
+    expect(metrics).toEqual({
+      speakingRateWpm: 86,
+      articulationRateWpm: 185,
+      pauseCount: 2,
+      meanPauseMs: 750,
+      longPauses: [{ afterWordIndex: 2, afterWord: 'three', startMs: 1300, durationMs: 1200 }],
+    });
+  });
+
+  it('ignores untimed words and sorts by offset', () => {
+    const metrics = computeSpeechRateMetrics([
+      { word: 'later', offsetMs: 1000, durationMs: 500 },
+      { word: 'omitted' },
+      { word: 'first', offsetMs: 0, durationMs: 500 },
+    ]);
+
+    expect(metrics).toMatchObject({ speakingRateWpm: 80, pauseCount: 1, meanPauseMs: 500 });
+  });
+
+  it('needs at least two timed words', () => {
+    expect(computeSpeechRateMetrics([])).toBeUndefined();
+    expect(computeSpeechRateMetrics([{ word: 'one', offsetMs: 0, durationMs: 300 }, { word: 'two' }])).toBeUndefined();
+  });
+});
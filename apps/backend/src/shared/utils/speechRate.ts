@@ -0,0 +1,65 @@
+import type { PauseInfo, SpeechRateMetrics } from '../types/index.js';
+
+// Gaps shorter than this are ordinary word transitions, not pauses
+const PAUSE_THRESHOLD_MS = 250;
+
+// Gaps at least this long are reported individually
+const LONG_PAUSE_THRESHOLD_MS = 1000;
+
+interface TimedWord {
+  word: string;
+  offsetMs?: number;
+  durationMs?: number;
+}
+
+/**
+ * Measure speaking rate, articulation rate and pauses from word timestamps
+ * Words without timing (e.g. omissions in scripted assessment) are ignored.
+ * @returns undefined when fewer than two words carry timing
+ */
+export function computeSpeechRateMetrics(words: TimedWord[]): SpeechRateMetrics | undefined {
+  const timed = words
+    .map((word, index) => ({ ...word, index }))
+    .filter(
+      (word): word is TimedWord & { index: number; offsetMs: number; durationMs: number } =>
+        word.offsetMs !== undefined && word.durationMs !== undefined
+    )
+    .sort((a, b) => a.offsetMs - b.offsetMs);
+
+  if (timed.length < 2) {
+    return undefined;
+  }
+
+  const pauses: PauseInfo[] = [];
+  for (let i = 1; i < timed.length; i++) {
+    const previous = timed[i - 1];
+    const startMs = previous.offsetMs + previous.durationMs;
+    const gapMs = timed[i].offsetMs - startMs;
+
+    if (gapMs >= PAUSE_THRESHOLD_MS) {
+      pauses.push({
+        afterWordIndex: previous.index,
+        afterWord: previous.word,
+        startMs,
+        durationMs: gapMs,
+      });
+    }
+  }
+
+  const last = timed[timed.length - 1];
+  const spanMs = last.offsetMs + last.durationMs - timed[0].offsetMs;
+  const pauseMs = pauses.reduce((sum, pause) => sum + pause.durationMs, 0);
+  const articulationMs = spanMs - pauseMs;
+
+  return {
+    speakingRateWpm: toWpm(timed.length, spanMs),
+    articulationRateWpm: toWpm(timed.length, articulationMs),
+    pauseCount: pauses.length,
+    meanPauseMs: pauses.length > 0 ? Math.round(pauseMs / pauses.length) : 0,
+    longPauses: pauses.filter((pause) => pause.durationMs >= LONG_PAUSE_THRESHOLD_MS),
+  };
+}
+
+function toWpm(wordCount: number, durationMs: number): number {
+  return durationMs > 0 ? Math.round(wordCount / (durationMs / 60000)) : 0;
+}
@@ -8,7 +8,8 @@
 import 'dotenv/config';
 import { loadEnv } from '../config/index.js';
 import { AzureSpeechAnalyzer } from '../infrastructure/speech/index.js';
-import { OpenAICommunicationAnalyzer } from '../infrastructure/llm/index.js';
+import { OpenAICommunicationAnalyzer, OpenAICompatibleLLMClient } from '../infrastructure/llm/index.js';
+import { FfmpegAudioNormalizer } from '../infrastructure/audio/index.js';
 import { AnalysisService } from '../services/index.js';
 import { logger } from '../shared/utils/logger.js';
 
@@ -19,10 +20,13 @@ async function testCommunicationAnalysis() {
 
   const env = loadEnv();
 
-  const analyzer = new OpenAICommunicationAnalyzer({
-    apiKey: env.OPENAI_API_KEY,
-    model: env.OPENAI_MODEL,
-  });
+  const analyzer = new OpenAICommunicationAnalyzer(
+    new OpenAICompatibleLLMClient({
+      apiKey: env.OPENAI_API_KEY || 'unused',
+      baseURL: env.OPENAI_BASE_URL,
+    }),
+    { model: env.OPENAI_ANALYSIS_MODEL ?? env.OPENAI_MODEL }
+  );
 
   // Check if ready
   const ready = await analyzer.isReady();
@@ -96,8 +100,8 @@ async function testSpeechAnalysis() {
   const env = loadEnv();
 
   const analyzer = new AzureSpeechAnalyzer({
-    subscriptionKey: env.AZURE_SPEECH_KEY,
-    region: env.AZURE_SPEECH_REGION,
+    subscriptionKey: env.AZURE_SPEECH_KEY ?? '',
+    region: env.AZURE_SPEECH_REGION ?? '',
   });
 
   // Check if ready
@@ -125,18 +129,22 @@ async function testFullAnalysis() {
   const env = loadEnv();
 
   const speechAnalyzer = new AzureSpeechAnalyzer({
-    subscriptionKey: env.AZURE_SPEECH_KEY,
-    region: env.AZURE_SPEECH_REGION,
+    subscriptionKey: env.AZURE_SPEECH_KEY ?? '',
+    region: env.AZURE_SPEECH_REGION ?? '',
   });
 
-  const communicationAnalyzer = new OpenAICommunicationAnalyzer({
-    apiKey: env.OPENAI_API_KEY,
-    model: env.OPENAI_MODEL,
-  });
+  const communicationAnalyzer = new OpenAICommunicationAnalyzer(
+    new OpenAICompatibleLLMClient({
+      apiKey: env.OPENAI_API_KEY || 'unused',
+      baseURL: env.OPENAI_BASE_URL,
+    }),
+    { model: env.OPENAI_ANALYSIS_MODEL ?? env.OPENAI_MODEL }
+  );
 
   const analysisService = new AnalysisService(
     speechAnalyzer,
-    communicationAnalyzer
+    communicationAnalyzer,
+    new FfmpegAudioNormalizer({ ffmpegPath: env.FFMPEG_PATH })
   );
 
   const health = await analysisService.healthCheck();
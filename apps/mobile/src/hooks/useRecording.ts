@@ -3,6 +3,7 @@ import { Audio } from 'expo-av';
 import { readAsStringAsync, deleteAsync, EncodingType } from 'expo-file-system/legacy';
 import type { SessionMode, SessionResult } from '../types';
 import { config } from '../utils/config';
+import { getAccessToken } from '../lib/supabase';
 
 interface UseRecordingOptions {
   mode: SessionMode;
@@ -126,10 +127,12 @@ export function useRecording({
       });
 
       // Send to backend for analysis
+      const accessToken = await getAccessToken();
       const response = await fetch(`${config.API_URL}/api/sessions/analyze`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
         },
         body: JSON.stringify({
           audio: audioBase64,
@@ -38,6 +38,14 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   },
 });
 
+/**
+ * Current Supabase access token, sent to the ProSpeaker backend for verification
+ */
+export async function getAccessToken(): Promise<string | null> {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token ?? null;
+}
+
 // Database types (generated from schema)
 export interface Profile {
   id: string;
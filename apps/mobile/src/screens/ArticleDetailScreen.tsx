@@ -13,6 +13,7 @@ import { Audio } from 'expo-av';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import type { ListenReadStackParamList } from '../types';
 import { API_URL } from '../config/constants';
+import { getAccessToken } from '../lib/supabase';
 
 interface WordBoundary {
   word: string;
@@ -63,7 +64,10 @@ export default function ArticleDetailScreen({ navigation, route }: Props) {
   // Fetch word boundaries for sync
   const fetchWordBoundaries = useCallback(async () => {
     try {
-      const response = await fetch(`${API_URL}/api/news/${article.id}/boundaries`);
+      const accessToken = await getAccessToken();
+      const response = await fetch(`${API_URL}/api/news/${article.id}/boundaries`, {
+        headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : undefined,
+      });
       if (response.ok) {
         const data = await response.json();
         if (data.success && data.data?.boundaries) {
@@ -141,8 +145,12 @@ export default function ArticleDetailScreen({ navigation, route }: Props) {
           });
 
           // Create and load audio from backend
+          const accessToken = await getAccessToken();
           const { sound } = await Audio.Sound.createAsync(
-            { uri: `${API_URL}/api/news/${article.id}/audio` },
+            {
+              uri: `${API_URL}/api/news/${article.id}/audio`,
+              headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : undefined,
+            },
             { shouldPlay: true },
             (status) => {
               if (status.isLoaded && status.didJustFinish) {
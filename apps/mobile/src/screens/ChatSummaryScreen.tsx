@@ -84,10 +84,21 @@ export default function ChatSummaryScreen() {
 
           {/* Score Breakdown */}
           <View style={styles.scoreBreakdown}>
-            <ScoreItem label="Pronunciation" score={summary.pronunciationScore} />
-            <ScoreItem label="Clarity" score={summary.clarityScore} />
-            <ScoreItem label="Fluency" score={summary.fluencyScore} />
+            {summary.pronunciationScore !== undefined && (
+              <ScoreItem label="Pronunciation" score={summary.pronunciationScore} />
+            )}
+            {summary.clarityScore !== undefined && (
+              <ScoreItem label="Clarity" score={summary.clarityScore} />
+            )}
+            {summary.fluencyScore !== undefined && (
+              <ScoreItem label="Fluency" score={summary.fluencyScore} />
+            )}
           </View>
+          {summary.usedDefaults && (
+            <Text style={styles.unavailableNote}>
+              Some feedback couldn't be measured for this conversation.
+            </Text>
+          )}
         </View>
 
         {/* Coaching Tip */}
@@ -208,32 +219,34 @@ export default function ChatSummaryScreen() {
         )}
 
         {/* Speaking Pace */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Speaking Pace</Text>
-          <View style={styles.card}>
-            <View style={styles.metricRow}>
-              <Text style={styles.metricLabel}>Words per minute</Text>
-              <Text style={styles.metricValue}>
-                {summary.communicationAnalysis.pace.averageWpm}
+        {summary.communicationAnalysis.pace.averageWpm !== undefined && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Speaking Pace</Text>
+            <View style={styles.card}>
+              <View style={styles.metricRow}>
+                <Text style={styles.metricLabel}>Words per minute</Text>
+                <Text style={styles.metricValue}>
+                  {summary.communicationAnalysis.pace.averageWpm}
+                </Text>
+              </View>
+              <Text style={styles.assessmentText}>
+                {summary.communicationAnalysis.pace.assessment === 'good'
+                  ? '✓ Good pace'
+                  : summary.communicationAnalysis.pace.assessment.includes('slow')
+                  ? '⚠️ A bit slow'
+                  : '⚠️ A bit fast'}
               </Text>
+              {summary.communicationAnalysis.pace.suggestion && (
+                <Text style={styles.cardSuggestion}>
+                  {summary.communicationAnalysis.pace.suggestion}
+                </Text>
+              )}
             </View>
-            <Text style={styles.assessmentText}>
-              {summary.communicationAnalysis.pace.assessment === 'good'
-                ? '✓ Good pace'
-                : summary.communicationAnalysis.pace.assessment.includes('slow')
-                ? '⚠️ A bit slow'
-                : '⚠️ A bit fast'}
-            </Text>
-            {summary.communicationAnalysis.pace.suggestion && (
-              <Text style={styles.cardSuggestion}>
-                {summary.communicationAnalysis.pace.suggestion}
-              </Text>
-            )}
           </View>
-        </View>
+        )}
 
         {/* Structure Feedback */}
-        {summary.communicationAnalysis.structure && (
+        {summary.communicationAnalysis.structure?.score !== undefined && (
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Response Structure</Text>
             <View style={styles.card}>
@@ -361,6 +374,12 @@ const styles = StyleSheet.create({
     color: COLORS.text,
     marginTop: 12,
   },
+  unavailableNote: {
+    fontSize: 13,
+    color: COLORS.textMuted,
+    textAlign: 'center',
+    marginTop: 12,
+  },
   scoreBreakdown: {
     flexDirection: 'row',
     marginTop: 20,
@@ -1,12 +1,20 @@
 import { io, Socket } from 'socket.io-client';
-import type { SessionUpdate, SessionResult, SessionMode } from '../types';
+import type { SessionUpdate, SessionResult, SessionMode, SessionPosition, SessionNudge } from '../types';
 import { config } from '../utils/config';
+import { getAccessToken } from '../lib/supabase';
 
 class ApiService {
   private socket: Socket | null = null;
   private onUpdate: ((update: SessionUpdate) => void) | null = null;
+  private onPosition: ((position: SessionPosition) => void) | null = null;
+  private onNudge: ((nudge: SessionNudge) => void) | null = null;
   private onComplete: ((result: SessionResult) => void) | null = null;
   private onError: ((error: string) => void) | null = null;
+  // Streaming session to resume if the connection drops mid-session
+  private activeSessionId: string | null = null;
+  // Audio held while the server asks us to pause (recognizer backlog)
+  private sendPaused = false;
+  private heldChunks: ArrayBuffer[] = [];
 
   /**
    * Connect to WebSocket server
@@ -18,13 +26,36 @@ class ApiService {
         reconnection: true,
         reconnectionAttempts: 5,
         reconnectionDelay: 1000,
+        // Fetched on every (re)connect so refreshed tokens are picked up
+        auth: (cb) => {
+          getAccessToken().then((token) => cb({ token }));
+        },
       });
 
       this.socket.on('connect', () => {
         console.log('Connected to server');
+        // Reconnected mid-session: reattach instead of losing the recording so far
+        if (this.activeSessionId) {
+          this.socket?.emit('session:resume', { sessionId: this.activeSessionId });
+        }
         resolve();
       });
 
+      this.socket.on('session:started', ({ sessionId }: { sessionId: string }) => {
+        this.activeSessionId = sessionId;
+        this.sendPaused = false;
+        this.heldChunks = [];
+      });
+
+      this.socket.on('session:backpressure', ({ paused }: { paused: boolean }) => {
+        this.sendPaused = paused;
+        if (!paused) {
+          const held = this.heldChunks;
+          this.heldChunks = [];
+          held.forEach((chunk) => this.socket?.emit('audio:chunk', chunk));
+        }
+      });
+
       this.socket.on('connect_error', (error) => {
         console.error('Connection error:', error);
         reject(error);
@@ -34,11 +65,23 @@ class ApiService {
         this.onUpdate?.(update);
       });
 
+      this.socket.on('session:position', (position: SessionPosition) => {
+        this.onPosition?.(position);
+      });
+
+      this.socket.on('session:nudge', (nudge: SessionNudge) => {
+        this.onNudge?.(nudge);
+      });
+
       this.socket.on('session:complete', (result: SessionResult) => {
+        this.activeSessionId = null;
         this.onComplete?.(result);
       });
 
-      this.socket.on('session:error', ({ message }: { message: string }) => {
+      this.socket.on('session:error', ({ code, message }: { code?: string; message: string }) => {
+        if (code === 'SESSION_NOT_FOUND') {
+          this.activeSessionId = null;
+        }
         this.onError?.(message);
       });
 
@@ -56,16 +99,19 @@ class ApiService {
       this.socket.disconnect();
       this.socket = null;
     }
+    this.activeSessionId = null;
   }
 
   /**
    * Start a streaming session
+   * @param referenceText Text being read aloud - enables alignment and position updates
+   * @param articleId News article being read - enables the model comparison afterwards
    */
-  startSession(mode: SessionMode, promptText?: string): void {
+  startSession(mode: SessionMode, promptText?: string, referenceText?: string, articleId?: string): void {
     if (!this.socket?.connected) {
       throw new Error('Not connected to server');
     }
-    this.socket.emit('session:start', { mode, promptText });
+    this.socket.emit('session:start', { mode, promptText, referenceText, articleId });
   }
 
   /**
@@ -75,6 +121,10 @@ class ApiService {
     if (!this.socket?.connected) {
       throw new Error('Not connected to server');
     }
+    if (this.sendPaused) {
+      this.heldChunks.push(chunk);
+      return;
+    }
     this.socket.emit('audio:chunk', chunk);
   }
 
@@ -85,6 +135,10 @@ class ApiService {
     if (!this.socket?.connected) {
       throw new Error('Not connected to server');
     }
+    // Held audio goes ahead of the stop so the end of the recording is still analyzed
+    this.heldChunks.forEach((chunk) => this.socket?.emit('audio:chunk', chunk));
+    this.heldChunks = [];
+    this.sendPaused = false;
     this.socket.emit('session:stop');
   }
 
@@ -95,6 +149,20 @@ class ApiService {
     this.onUpdate = callback;
   }
 
+  /**
+   * Set reading position callback (sessions started with a reference text)
+   */
+  setOnPosition(callback: (position: SessionPosition) => void): void {
+    this.onPosition = callback;
+  }
+
+  /**
+   * Set coaching nudge callback
+   */
+  setOnNudge(callback: (nudge: SessionNudge) => void): void {
+    this.onNudge = callback;
+  }
+
   /**
    * Set completion callback
    */
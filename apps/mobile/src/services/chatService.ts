@@ -1,5 +1,6 @@
 import { io, Socket } from 'socket.io-client';
 import { config } from '../utils/config';
+import { getAccessToken } from '../lib/supabase';
 import type {
   ChatMode,
   ChatStartResponse,
@@ -44,6 +45,10 @@ class ChatService {
         reconnection: true,
         reconnectionAttempts: 5,
         reconnectionDelay: 1000,
+        // Fetched on every (re)connect so refreshed tokens are picked up
+        auth: (cb) => {
+          getAccessToken().then((token) => cb({ token }));
+        },
       });
 
       this.socket.on('connect', () => {
@@ -107,12 +112,12 @@ class ChatService {
   /**
    * Start a new chat session
    */
-  startChat(mode: ChatMode, userId?: string): void {
+  startChat(mode: ChatMode, voiceId?: string): void {
     if (!this.socket?.connected) {
       throw new Error('Not connected to server');
     }
-    console.log('[ChatService] Starting chat', { mode, userId });
-    this.socket.emit('chat:start', { mode, userId });
+    console.log('[ChatService] Starting chat', { mode, voiceId });
+    this.socket.emit('chat:start', { mode, voiceId });
   }
 
   /**
@@ -1,3 +1,5 @@
+import type { SpeechRateMetrics } from './index';
+
 /**
  * Chat modes for different conversation styles
  */
@@ -27,6 +29,7 @@ export interface PronunciationFeedback {
     wpm: number;
     assessment: 'too_slow' | 'good' | 'slightly_fast' | 'too_fast';
   };
+  rate?: SpeechRateMetrics;
 }
 
 /**
@@ -45,6 +48,7 @@ export interface ChatMessage {
   conversationId: string;
   role: MessageRole;
   content: string;
+  audioUrl?: string;
   timestamp: number;
 
   // User message metadata
@@ -59,10 +63,10 @@ export interface ChatMessage {
  * Summary generated at end of conversation
  */
 export interface ConversationSummary {
-  // Scores (0-100)
-  pronunciationScore: number;
-  clarityScore: number;
-  fluencyScore: number;
+  // Scores (0-100); each is left out when it could not be measured
+  pronunciationScore?: number;
+  clarityScore?: number;
+  fluencyScore?: number;
   overallScore: number;
 
   // Pronunciation details
@@ -80,12 +84,12 @@ export interface ConversationSummary {
       suggestion: string;
     };
     pace: {
-      averageWpm: number;
+      averageWpm?: number;
       assessment: string;
       suggestion: string;
     };
     structure: {
-      score: number;
+      score?: number;
       feedback: string;
     };
   };
@@ -102,6 +106,9 @@ export interface ConversationSummary {
 
   // Strengths observed
   strengths: string[];
+
+  // Something was not measured (no LLM analysis, no scored turns); its scores are left out and its text is empty
+  usedDefaults?: boolean;
 }
 
 // ============================================================
@@ -113,7 +120,7 @@ export interface ConversationSummary {
  */
 export interface ChatStartPayload {
   mode: ChatMode;
-  userId?: string;
+  voiceId?: string; // Defaults to the user's preferred voice
 }
 
 /**
@@ -136,6 +143,7 @@ export interface ChatEndPayload {
  */
 export interface ChatStartResponse {
   conversationId: string;
+  voiceId: string; // Voice of every reply in this conversation
   greeting: {
     text: string;
     audioBase64: string;
@@ -1,7 +1,7 @@
 /**
  * Session modes supported by the app
  */
-export type SessionMode = 'free_talk' | 'professional' | 'casual' | 'read_aloud' | 'read_practice';
+export type SessionMode = 'free_talk' | 'professional' | 'casual' | 'read_aloud' | 'read_practice' | 'shadowing';
 
 /**
  * Real-time update from streaming session
@@ -16,6 +16,59 @@ export interface SessionUpdate {
   durationMs: number;
   pronunciationScore?: number;
   words?: Array<{ word: string; accuracy: number }>;
+  alignment?: ReferenceAlignment; // Final updates of sessions with a reference text
+  timestamp: number;
+}
+
+/**
+ * Oral reading fluency report (standard ORF scoring)
+ */
+export interface ReadingFluencyReport {
+  wordsCorrectPerMinute: number;
+  accuracyPercent: number;
+  wordsAttempted: number;
+  wordsCorrect: number;
+  errors: number; // Substitutions + mispronunciations + omissions
+  unreadWords: number;
+  readingTimeMs: number;
+  miscues: {
+    substitutions: number;
+    mispronunciations: number;
+    omissions: number;
+    insertions: number;
+    repetitions: number;
+    selfCorrections: number;
+  };
+  sentences: Array<{
+    index: number;
+    text: string;
+    wordCount: number;
+    wordsCorrect: number;
+    errors: number;
+    accuracyPercent: number;
+    pronunciationScore?: number;
+    attempted: boolean;
+  }>;
+}
+
+/**
+ * Real-time coaching nudge during a streaming session
+ */
+export interface SessionNudge {
+  type: 'too_fast' | 'fillers' | 'long_silence' | 'volume_drop';
+  severity: 'info' | 'warning';
+  message: string;
+  atMs: number; // Position in the session audio
+  timestamp: number;
+}
+
+/**
+ * Reading position in the reference text (teleprompter follow mode)
+ */
+export interface SessionPosition {
+  referenceIndex: number; // Last reference word read, -1 before the first
+  referenceWordCount: number;
+  confidence: number; // 0-1
   timestamp: number;
 }
 
@@ -27,12 +80,159 @@ export interface SessionResult {
   duration: number;
   wordCount: number;
   wpm: number;
+  speechRate?: SpeechRateMetrics;
   fillerCount: number;
   fillerBreakdown: Record<string, number>;
   communication?: CommunicationResult;
+  alignment?: ReferenceAlignment;
+  readingFluency?: ReadingFluencyReport; // read_practice sessions with a reference text
+  shadowing?: ShadowingReport; // shadowing sessions
+  audioUrl?: string; // Recording for playback (authenticated GET, supports Range)
+  reason?: SessionStopReason;
   error?: string;
 }
 
+/**
+ * Why a streaming session ended - the client stopped it, a server limit was hit, or recognition failed
+ */
+export type SessionStopReason = 'client_stop' | 'max_duration' | 'max_bytes' | 'chunk_too_large' | 'idle_timeout' | 'error';
+
+/**
+ * Word-level alignment of what was read against the reference text
+ */
+export interface ReferenceAlignment {
+  words: Array<{
+    status: 'matched' | 'mispronounced' | 'omitted' | 'inserted' | 'repeated';
+    referenceIndex?: number;
+    referenceWord?: string;
+    spokenWord?: string;
+    accuracy?: number;
+  }>;
+  referenceWordsCovered: number;
+  referenceWordCount: number;
+  counts: Record<'matched' | 'mispronounced' | 'omitted' | 'inserted' | 'repeated', number>;
+}
+
+/**
+ * Time range in a recording (ms from its start)
+ */
+export interface AudioTimeRange {
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * "Model vs. you" comparison of a Listen & Read attempt (GET /api/sessions/:id/comparison)
+ * Play modelAudioUrl and learnerAudioUrl over the paired ranges of a tapped word or sentence.
+ */
+export interface ReadingComparison {
+  sessionId: string;
+  articleId: string;
+  modelAudioUrl: string;
+  learnerAudioUrl?: string;
+  words: Array<{
+    referenceIndex: number;
+    word: string;
+    sentenceIndex: number;
+    status: 'matched' | 'mispronounced' | 'omitted' | 'inserted' | 'repeated';
+    model?: AudioTimeRange;
+    learner?: AudioTimeRange;
+    accuracy?: number;
+    durationRatio?: number; // Learner / model duration (above 1 = slower)
+  }>;
+  sentences: Array<{
+    index: number;
+    text: string;
+    firstWordIndex: number;
+    lastWordIndex: number;
+    model?: AudioTimeRange;
+    learner?: AudioTimeRange;
+    accuracy?: number;
+    durationRatio?: number;
+  }>;
+}
+
+/**
+ * An article split into sentences for shadowing (GET /api/news/:id/shadowing)
+ * Play each sentence's audioUrl, then let the learner repeat it; start the session
+ * with mode 'shadowing' and the articleId.
+ */
+export interface ShadowingScript {
+  articleId: string;
+  title: string;
+  sentences: Array<{
+    index: number;
+    text: string;
+    audioUrl: string;
+    durationMs: number;
+    wordBoundaries: Array<{ word: string; startMs: number; endMs: number }>; // From the start of the sentence audio
+  }>;
+}
+
+/**
+ * Shadowing scores of a session; overall scores average the attempted sentences
+ */
+export interface ShadowingReport {
+  articleId: string;
+  overallScore: number;
+  pronunciationScore: number;
+  rhythmSimilarity: number; // 0-100, spacing of words compared with the model
+  relativeSpeed?: number; // Learner / model duration (above 1 = slower)
+  stressScore: number; // 0-100, stressed words kept their length
+  sentenceCount: number;
+  sentencesAttempted: number;
+  pauses: ShadowingPauseCounts;
+  sentences: Array<{
+    index: number;
+    text: string;
+    wordCount: number;
+    wordsMatched: number;
+    attempted: boolean;
+    pronunciationScore?: number;
+    rhythmSimilarity?: number;
+    relativeSpeed?: number;
+    stressScore?: number;
+    pauses: ShadowingPauseCounts;
+    score?: number;
+    words: Array<{
+      referenceIndex: number;
+      word: string;
+      status: 'matched' | 'mispronounced' | 'omitted' | 'inserted' | 'repeated';
+      stressed: boolean;
+      model?: AudioTimeRange; // In the sentence audio
+      learner?: AudioTimeRange; // In the session recording
+      accuracy?: number;
+      durationRatio?: number; // Share of the sentence vs. the model's (below 1 = rushed)
+    }>;
+  }>;
+}
+
+/**
+ * Model pauses the learner kept, dropped, or added
+ */
+export interface ShadowingPauseCounts {
+  model: number;
+  matched: number;
+  missed: number;
+  extra: number;
+}
+
+/**
+ * Speaking rate and pausing measured from word timestamps
+ */
+export interface SpeechRateMetrics {
+  speakingRateWpm: number; // Pauses included
+  articulationRateWpm: number; // Pauses excluded
+  pauseCount: number;
+  meanPauseMs: number;
+  longPauses: Array<{
+    afterWordIndex: number;
+    afterWord: string;
+    startMs: number;
+    durationMs: number;
+  }>;
+}
+
 /**
  * Communication analysis result from OpenAI
  */
@@ -92,6 +292,31 @@ export interface NewsArticle {
   reading_time_minutes: number;
 }
 
+/**
+ * Playback speed of an article's audio (GET /api/news/:id/audio/variants)
+ * Slower variants are synthesized at that rate, so fetch boundariesUrl for the
+ * matching word timings instead of scaling the normal-speed ones.
+ */
+export interface ArticleAudioVariant {
+  rate: number; // 0.75, 0.9, 1 or 1.25
+  generated: boolean; // Already synthesized; otherwise the first request generates it
+  audioUrl: string;
+  boundariesUrl: string;
+}
+
+/**
+ * TTS voice from GET /api/voices (save a choice with PUT /api/voices/preference)
+ */
+export interface VoiceOption {
+  id: string; // e.g. en-US-JennyNeural
+  name: string;
+  locale: string;
+  accent: string;
+  gender: 'female' | 'male';
+  style: string;
+  sampleUrl: string; // Short MP3 preview (authenticated GET)
+}
+
 /**
  * Bottom Tab Navigator param list
  */